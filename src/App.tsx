@@ -2,6 +2,8 @@ import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-d
 import { AppProvider } from './context/AppContext';
 import Layout from './components/Layout';
 import ShortlistPage from './pages/ShortlistPage';
+import TeamsPage from './pages/TeamsPage';
+import SettingsPage from './pages/SettingsPage';
 
 /**
  * Main application component
@@ -16,6 +18,8 @@ function App() {
             {/* Redirect root to shortlist page */}
             <Route index element={<Navigate to="/shortlist" replace />} />
             <Route path="shortlist" element={<ShortlistPage />} />
+            <Route path="teams" element={<TeamsPage />} />
+            <Route path="settings" element={<SettingsPage />} />
           </Route>
         </Routes>
       </Router>
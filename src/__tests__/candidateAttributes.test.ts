@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import type { I_Degree } from '../types';
+import {
+  countRangeFilters,
+  getCandidateAttributes,
+  normalizeRangeFilters,
+  parseEducationLevel,
+  parseGpa,
+  parseSalaryAmount,
+  passesRangeFilters,
+} from '../utils/candidateAttributes';
+import { createCandidate } from '../test-utils';
+
+const createDegree = (degree: string, gpa: string): I_Degree => ({
+  degree,
+  subject: 'Computer Science',
+  school: 'State University',
+  gpa,
+  startDate: '',
+  endDate: '',
+  originalSchool: 'State University',
+  isTop50: false,
+});
+
+const senior = createCandidate('senior', {
+  annual_salary_expectation: { 'full-time': '$117548' },
+  work_experiences: [
+    { roleName: 'Engineer', company: 'A' },
+    { roleName: 'Senior Engineer', company: 'B' },
+    { roleName: 'Lead', company: 'C' },
+  ],
+  education: {
+    highest_level: "Master's Degree",
+    degrees: [createDegree("Bachelor's Degree", 'GPA 3.0-3.4'), createDegree("Master's Degree", 'Magna Cum Laude')],
+  },
+});
+const junior = createCandidate('junior', {
+  annual_salary_expectation: { 'full-time': '$65000' },
+  work_experiences: [{ roleName: 'Intern', company: 'A' }],
+  education: { highest_level: '', degrees: [createDegree("Associate's Degree", 'GPA 4.0')] },
+});
+const unknown = createCandidate('unknown');
+
+describe('parsing candidate values', () => {
+  it('should read salary amounts', () => {
+    expect(parseSalaryAmount('$117548')).toBe(117548);
+    expect(parseSalaryAmount('$117,548.50')).toBe(117548.5);
+    expect(parseSalaryAmount('120k')).toBe(120000);
+    expect(parseSalaryAmount('negotiable')).toBeNull();
+  });
+
+  it('should read GPA bands and Latin honors as lower bounds', () => {
+    expect(parseGpa('GPA 3.5-3.9')).toBe(3.5);
+    expect(parseGpa('GPA 4.0')).toBe(4);
+    expect(parseGpa('Summa Cum Laude')).toBe(3.9);
+    expect(parseGpa('Magna Cum Laude')).toBe(3.7);
+    expect(parseGpa('Cum Laude')).toBe(3.5);
+    expect(parseGpa('')).toBeNull();
+  });
+
+  it('should read degree levels', () => {
+    expect(parseEducationLevel("Bachelor's Degree")).toBe('bachelor');
+    expect(parseEducationLevel("Master's Degree")).toBe('master');
+    expect(parseEducationLevel('Juris Doctor (J.D)')).toBe('doctorate');
+    expect(parseEducationLevel('High School Diploma')).toBe('high-school');
+    expect(parseEducationLevel('')).toBeNull();
+  });
+});
+
+describe('getCandidateAttributes', () => {
+  it('should use the best GPA and the highest degree', () => {
+    expect(getCandidateAttributes(senior)).toEqual({
+      salaryExpectation: 117548,
+      gpa: 3.7,
+      experienceCount: 3,
+      educationLevel: 'master',
+    });
+  });
+
+  it('should fall back to listed degrees and report missing values', () => {
+    expect(getCandidateAttributes(junior).educationLevel).toBe('associate');
+    expect(getCandidateAttributes(unknown)).toEqual({
+      salaryExpectation: null,
+      gpa: null,
+      experienceCount: 0,
+      educationLevel: null,
+    });
+  });
+});
+
+describe('range filters', () => {
+  it('should keep only valid stored bounds', () => {
+    expect(normalizeRangeFilters({ minSalary: 50000, maxSalary: -1, minGpa: '3.5', minEducationLevel: 'phd' }))
+      .toEqual({ minSalary: 50000 });
+    expect(normalizeRangeFilters(undefined)).toEqual({});
+    expect(countRangeFilters({ minGpa: 3.5, minEducationLevel: 'bachelor' })).toBe(2);
+  });
+
+  it('should filter by salary, GPA, experience count and degree level', () => {
+    const candidates = [senior, junior, unknown];
+    const passing = (ranges: Parameters<typeof passesRangeFilters>[1]) =>
+      candidates.filter(candidate => passesRangeFilters(candidate, ranges)).map(candidate => candidate.id);
+
+    expect(passing({})).toEqual(['senior', 'junior', 'unknown']);
+    expect(passing({ maxSalary: 100000 })).toEqual(['junior']);
+    expect(passing({ minSalary: 60000, maxSalary: 120000 })).toEqual(['senior', 'junior']);
+    expect(passing({ minGpa: 3.9 })).toEqual(['junior']);
+    expect(passing({ minExperienceCount: 2 })).toEqual(['senior']);
+    expect(passing({ minEducationLevel: 'bachelor' })).toEqual(['senior']);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { guessColumnMapping, mapImportRecords, parseCsv, parseImportFile } from '../utils/candidateImport';
+
+describe('parseCsv', () => {
+  it('should split rows and cells, handling quotes and CRLF line endings', () => {
+    const rows = parseCsv('name,skills\r\n"Doe, Jane","React; ""TS"""\r\n\r\nBob,Go\n');
+    expect(rows).toEqual([
+      ['name', 'skills'],
+      ['Doe, Jane', 'React; "TS"'],
+      ['Bob', 'Go'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('should read CSV files into records keyed by header', () => {
+    const source = parseImportFile('people.csv', 'Full Name,E-mail\nJane,jane@example.com');
+    expect(source.format).toBe('csv');
+    expect(source.columns).toEqual(['Full Name', 'E-mail']);
+    expect(source.records).toEqual([{ 'Full Name': 'Jane', 'E-mail': 'jane@example.com' }]);
+  });
+
+  it('should read JSON arrays and wrapped exports', () => {
+    expect(parseImportFile('a.json', '[{"name":"Jane"}]').records).toHaveLength(1);
+    expect(parseImportFile('b.json', '{"candidates":[{"name":"Jane"},{"name":"Bob"}]}').records).toHaveLength(2);
+  });
+
+  it('should throw a readable error for malformed files', () => {
+    expect(() => parseImportFile('bad.json', '{"name":')).toThrow(/Invalid JSON/);
+    expect(() => parseImportFile('bad.json', '{"name":"Jane"}')).toThrow(/expected an array/);
+    expect(() => parseImportFile('empty.csv', 'name,email')).toThrow(/header row/);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('should map common column names to candidate fields', () => {
+    const mapping = guessColumnMapping(['Full Name', 'E-mail', 'Tech Stack', 'Unknown']);
+    expect(mapping).toEqual({ name: 'Full Name', email: 'E-mail', skills: 'Tech Stack' });
+  });
+});
+
+describe('mapImportRecords', () => {
+  const mapping = {
+    name: 'name',
+    email: 'email',
+    skills: 'skills',
+    work_experiences: 'experience',
+    degrees: 'degrees',
+    annual_salary_expectation: 'salary',
+  };
+
+  it('should convert flat CSV values into nested candidate fields', () => {
+    const { candidates, errors } = mapImportRecords([{
+      name: 'Jane',
+      email: 'jane@example.com',
+      skills: 'React; TypeScript|Node.js',
+      experience: 'Frontend Engineer @ Acme; Intern @ Startup',
+      degrees: "Bachelor's Degree in Computer Science @ MIT",
+      salary: '95000',
+    }], mapping);
+
+    expect(errors).toEqual([]);
+    expect(candidates[0].skills).toEqual(['React', 'TypeScript', 'Node.js']);
+    expect(candidates[0].work_experiences).toEqual([
+      { roleName: 'Frontend Engineer', company: 'Acme' },
+      { roleName: 'Intern', company: 'Startup' },
+    ]);
+    expect(candidates[0].education.degrees[0]).toMatchObject({
+      degree: "Bachelor's Degree",
+      subject: 'Computer Science',
+      school: 'MIT',
+    });
+    expect(candidates[0].education.highest_level).toBe("Bachelor's Degree");
+    expect(candidates[0].annual_salary_expectation).toEqual({ 'full-time': '$95000' });
+  });
+
+  it('should report every problem with its row number and skip invalid rows', () => {
+    const { candidates, errors } = mapImportRecords([
+      { name: 'Jane', email: 'jane@example.com' },
+      { name: '', email: 'not-an-email' },
+      { name: 'Bob', email: 'bob@example.com', experience: [{ foo: 'bar' }] },
+    ], mapping);
+
+    expect(candidates).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 2, message: 'missing name' },
+      { row: 2, message: 'invalid email "not-an-email"' },
+      { row: 3, message: 'work experience entries need a roleName or company' },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countLocationFilters,
+  getLocationFacets,
+  getPreferenceMatches,
+  normalizeLocationFilters,
+  passesLocationFilters,
+  resolveLocation,
+} from '../utils/candidateLocation';
+import { createCandidate } from '../test-utils';
+
+const saoPaulo = createCandidate('sao-paulo', { location: 'São Paulo', work_availability: ['full-time', 'part-time'] });
+const brasil = createCandidate('brasil', { location: 'Brasil', work_availability: ['part-time'] });
+const austin = createCandidate('austin', { location: 'Austin, TX', work_availability: ['full-time'] });
+const berlin = createCandidate('berlin', { location: 'Berlin', work_availability: ['full-time'] });
+const nowhere = createCandidate('nowhere', { location: '', work_availability: ['full-time'] });
+const candidates = [saoPaulo, brasil, austin, berlin, nowhere];
+
+describe('resolveLocation', () => {
+  it('should resolve cities, country aliases and comma-separated parts', () => {
+    expect(resolveLocation('Sao Paulo')).toEqual({ country: 'Brazil', region: 'South America' });
+    expect(resolveLocation('Brasil')).toEqual({ country: 'Brazil', region: 'South America' });
+    expect(resolveLocation('Austin, TX')).toEqual({ country: 'United States', region: 'North America' });
+    expect(resolveLocation('UK')).toEqual({ country: 'United Kingdom', region: 'Europe' });
+  });
+
+  it('should return null for unknown locations', () => {
+    expect(resolveLocation('')).toBeNull();
+    expect(resolveLocation('Atlantis')).toBeNull();
+  });
+});
+
+describe('getLocationFacets', () => {
+  it('should count candidates per region, country and availability', () => {
+    const facets = getLocationFacets(candidates);
+    expect(facets.regions[0]).toEqual({ region: 'South America', count: 2, countries: [{ country: 'Brazil', count: 2 }] });
+    expect(facets.regions.map(({ region }) => region)).toEqual(['South America', 'North America', 'Europe']);
+    expect(facets.unknownCount).toBe(1);
+    expect(facets.workAvailabilityCounts).toEqual({ 'full-time': 4, 'part-time': 2 });
+  });
+});
+
+describe('location filters', () => {
+  const passing = (filters: Parameters<typeof passesLocationFilters>[1]) =>
+    candidates.filter(candidate => passesLocationFilters(candidate, filters)).map(candidate => candidate.id);
+
+  it('should keep only valid stored values', () => {
+    expect(normalizeLocationFilters({ regions: ['Europe', 'Europe', 3], countries: [], workAvailability: 'weekends', locationMode: 'prefer' }))
+      .toEqual({ regions: ['Europe'], locationMode: 'prefer' });
+    expect(countLocationFilters({ countries: ['Brazil'], workAvailability: 'full-time' })).toBe(2);
+  });
+
+  it('should filter by required regions, countries and availability', () => {
+    expect(passing({})).toEqual(['sao-paulo', 'brasil', 'austin', 'berlin', 'nowhere']);
+    expect(passing({ regions: ['Europe'], countries: ['United States'] })).toEqual(['austin', 'berlin']);
+    expect(passing({ workAvailability: 'part-time' })).toEqual(['sao-paulo', 'brasil']);
+    expect(passing({ countries: ['Brazil'], workAvailability: 'full-time' })).toEqual(['sao-paulo']);
+  });
+
+  it('should not filter by preferred choices', () => {
+    expect(passing({ countries: ['Brazil'], locationMode: 'prefer', workAvailability: 'part-time', workAvailabilityMode: 'prefer' }))
+      .toHaveLength(candidates.length);
+    expect(getPreferenceMatches(berlin, { countries: ['Brazil'], locationMode: 'prefer', workAvailability: 'full-time', workAvailabilityMode: 'prefer' }))
+      .toEqual({ matched: ['Full-time'], missed: ['Brazil'] });
+    expect(getPreferenceMatches(berlin, { countries: ['Brazil'] })).toBeNull();
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import type { I_RoleFilters } from '../types';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+import { isSameRanking, runCandidatePipeline } from '../utils/candidatePipeline';
+import { getScoreContextKey, ScoreCache } from '../utils/scoreCache';
+import { createCandidate } from '../test-utils';
+
+const roleFilters: I_RoleFilters = {
+  skills: [{ value: 'React', tier: 'must' }, { value: 'Python', tier: 'nice' }],
+  experience: [],
+  education: [],
+};
+
+const candidates = [
+  createCandidate('react', { skills: ['React'] }),
+  createCandidate('php', { skills: ['PHP'] }),
+  createCandidate('both', { skills: ['React', 'Python'] }),
+  createCandidate('picked', { skills: ['React', 'Python'] }),
+];
+
+const request = {
+  roleFilters,
+  scoringProfile: DEFAULT_SCORING_PROFILES[0],
+  excludedCandidateIds: ['picked'],
+};
+
+describe('runCandidatePipeline', () => {
+  it('should filter, score and sort candidates', async () => {
+    const result = await runCandidatePipeline(candidates, request, { chunkSize: 1 });
+    expect(result?.map(candidate => [candidate.id, candidate.score])).toEqual([
+      ['both', 100],
+      ['react', 50],
+    ]);
+  });
+
+  it('should stop and resolve to null once cancelled', async () => {
+    let checks = 0;
+    const result = await runCandidatePipeline(candidates, request, { chunkSize: 1, isCancelled: () => ++checks > 2 });
+    expect(result).toBeNull();
+  });
+
+  it('should reuse cached scores for the same filters and profile', async () => {
+    const cache = new ScoreCache();
+    const first = await runCandidatePipeline(candidates, request, { cache });
+    const second = await runCandidatePipeline(candidates, request, { cache });
+    expect(second?.[0]).toBe(first?.[0]);
+    expect(cache.getScores(getScoreContextKey(roleFilters, DEFAULT_SCORING_PROFILES[0])).size).toBe(2);
+  });
+});
+
+describe('isSameRanking', () => {
+  it('should compare candidate order and scores, not object identity', () => {
+    const ranked = [{ ...candidates[2], score: 9 }, { ...candidates[0], score: 7 }];
+    expect(isSameRanking(ranked, ranked.map(candidate => ({ ...candidate })))).toBe(true);
+    expect(isSameRanking(ranked, [ranked[1], ranked[0]])).toBe(false);
+    expect(isSameRanking(ranked, [ranked[0], { ...ranked[1], score: 6 }])).toBe(false);
+    expect(isSameRanking(ranked, ranked.slice(0, 1))).toBe(false);
+  });
+});
+
+describe('ScoreCache', () => {
+  it('should drop the least recently used context and expired ones', () => {
+    const cache = new ScoreCache(1000, 2);
+    cache.getScores('a', 0).set('c1', candidates[0]);
+    cache.getScores('b', 0);
+    cache.getScores('a', 10);
+    cache.getScores('c', 10);
+
+    expect(cache.size).toBe(2);
+    expect(cache.getScores('a', 20).has('c1')).toBe(true);
+    expect(cache.getScores('a', 1000).has('c1')).toBe(false);
+  });
+});
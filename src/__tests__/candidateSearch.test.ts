@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCandidateSearchMatch,
+  getEditDistance,
+  searchCandidates,
+  splitHighlightSegments,
+  tokenizeSearchText,
+} from '../utils/candidateSearch';
+import { createCandidate } from '../test-utils';
+
+const monkey = createCandidate('monkey', {
+  name: 'Clever Monkey',
+  email: 'clever.monkey@jungle.io',
+  location: 'São Paulo',
+  work_experiences: [{ roleName: 'Frontend Engineer', company: 'Banana Corp' }],
+  skills: ['React', 'TypeScript'],
+});
+const skillMatch = createCandidate('skill-match', { name: 'Ada Lovelace', skills: ['Monkey Patching'] });
+const other = createCandidate('other', {
+  name: 'Grace Hopper',
+  location: 'Arlington',
+  education: {
+    highest_level: '',
+    degrees: [{
+      degree: 'PhD',
+      subject: 'Mathematics',
+      school: 'Yale University',
+      gpa: '',
+      startDate: '',
+      endDate: '',
+      originalSchool: 'Yale University',
+      isTop50: true,
+    }],
+  },
+});
+const candidates = [skillMatch, other, monkey];
+
+describe('tokenizeSearchText', () => {
+  it('should lowercase, drop accents and split on punctuation', () => {
+    expect(tokenizeSearchText('São Paulo')).toEqual(['sao', 'paulo']);
+    expect(tokenizeSearchText('clever.monkey@jungle.io')).toEqual(['clever', 'monkey', 'jungle', 'io']);
+  });
+});
+
+describe('getEditDistance', () => {
+  it('should count substitutions, insertions and swaps', () => {
+    expect(getEditDistance('monkey', 'monkey', 2)).toBe(0);
+    expect(getEditDistance('monky', 'monkey', 2)).toBe(1);
+    expect(getEditDistance('mnokey', 'monkey', 2)).toBe(1);
+    expect(getEditDistance('donkey', 'monkey', 2)).toBe(1);
+  });
+
+  it('should stop once the distance is over the limit', () => {
+    expect(getEditDistance('abcdef', 'uvwxyz', 1)).toBe(2);
+  });
+});
+
+describe('searchCandidates', () => {
+  it('should rank name matches above skill matches', () => {
+    const results = searchCandidates(candidates, 'monkey');
+    expect(results.map(result => result.candidate.id)).toEqual(['monkey', 'skill-match']);
+  });
+
+  it('should require every term to match', () => {
+    expect(searchCandidates(candidates, 'Clever Monkey').map(result => result.candidate.id)).toEqual(['monkey']);
+    expect(searchCandidates(candidates, 'monkey hopper')).toEqual([]);
+  });
+
+  it('should tolerate typos and match prefixes', () => {
+    expect(searchCandidates(candidates, 'Clevr Monky').map(result => result.candidate.id)).toEqual(['monkey']);
+    expect(searchCandidates(candidates, 'bana').map(result => result.candidate.id)).toEqual(['monkey']);
+    expect(searchCandidates(candidates, 'sao paulo').map(result => result.candidate.id)).toEqual(['monkey']);
+  });
+
+  it('should search emails, schools and cities', () => {
+    expect(searchCandidates(candidates, 'clever.monkey@jungle.io').map(result => result.candidate.id)).toEqual(['monkey']);
+    expect(searchCandidates(candidates, 'yale').map(result => result.candidate.id)).toEqual(['other']);
+    expect(searchCandidates(candidates, 'arlington').map(result => result.candidate.id)).toEqual(['other']);
+  });
+
+  it('should not treat short terms as typos', () => {
+    expect(searchCandidates(candidates, 'rect')).toHaveLength(1);
+    expect(searchCandidates(candidates, 'ida')).toEqual([]);
+  });
+
+  it('should report matched words and fields for highlighting', () => {
+    const match = getCandidateSearchMatch(monkey, 'monky banana');
+    expect([...(match?.highlightWords ?? [])].sort()).toEqual(['banana', 'monkey']);
+    expect(match?.matchedFields).toEqual([
+      { field: 'name', value: 'Clever Monkey' },
+      { field: 'email', value: 'clever.monkey@jungle.io' },
+      { field: 'company', value: 'Banana Corp' },
+    ]);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchCandidates(candidates, '  ')).toEqual([]);
+  });
+});
+
+describe('splitHighlightSegments', () => {
+  it('should mark whole matched words, ignoring case and accents', () => {
+    expect(splitHighlightSegments('Clever Monkey', new Set(['monkey']))).toEqual([
+      { text: 'Clever ', highlighted: false },
+      { text: 'Monkey', highlighted: true },
+    ]);
+    expect(splitHighlightSegments('São Paulo', new Set(['sao']))).toEqual([
+      { text: 'São', highlighted: true },
+      { text: ' Paulo', highlighted: false },
+    ]);
+  });
+
+  it('should leave text alone without highlight words', () => {
+    expect(splitHighlightSegments('Clever Monkey', new Set())).toEqual([{ text: 'Clever Monkey', highlighted: false }]);
+  });
+});
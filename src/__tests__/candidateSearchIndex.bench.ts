@@ -0,0 +1,105 @@
+import { bench, describe } from 'vitest';
+import type { I_CandidateWithScore, I_RoleFilters } from '../types';
+import { CandidateSearchIndex } from '../utils/candidateSearchIndex';
+import { getScoringKeywords, passesKeywordFilters } from '../utils/keywordMatching';
+import { calculateCandidateScores } from '../utils/scoringAlgorithm';
+import { createCandidate } from '../test-utils';
+
+// Run with: npm run bench
+
+const SKILLS = [
+  'React', 'ReactJS', 'TypeScript', 'JavaScript', 'Node JS', 'Python', 'Django', 'Java', 'Spring Boot', 'Go',
+  'Rust', 'C++', 'C#', '.NET', 'SQL', 'PostgreSQL', 'MongoDB', 'AWS', 'Docker', 'Kubernetes', 'GraphQL',
+  'Figma', 'Machine Learning', 'TensorFlow', 'Pandas', 'Excel', 'Tableau', 'Salesforce', 'Swift', 'Kotlin',
+];
+const SENIORITIES = ['Junior', 'Senior', 'Lead', 'Principal', 'Staff', ''];
+const ROLES = ['Software Engineer', 'Frontend Developer', 'Backend Engineer', 'Data Scientist', 'Product Manager', 'Designer', 'DevOps Engineer', 'Intern'];
+const COMPANIES = ['Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli', 'Stark Industries', 'Wayne Enterprises', 'Pied Piper'];
+const DEGREES = ["Bachelor's Degree", "Master's Degree", 'Juris Doctor (J.D)', 'Doctorate'];
+const SUBJECTS = ['Computer Science', 'Mathematics', 'Economics', 'Physics', 'Design', 'Data Science', 'Business'];
+
+// Deterministic pseudo-random numbers so every run benchmarks the same pool
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const createSyntheticCandidates = (count: number): I_CandidateWithScore[] => {
+  const random = createRandom(count);
+  const pick = <T,>(values: T[]): T => values[Math.floor(random() * values.length)];
+
+  return Array.from({ length: count }, (_, i) => createCandidate(`cand-${i}`, {
+    name: `Candidate ${i}`,
+    email: `candidate${i}@example.com`,
+    work_experiences: Array.from({ length: 1 + Math.floor(random() * 3) }, () => ({
+      roleName: `${pick(SENIORITIES)} ${pick(ROLES)}`.trim(),
+      company: pick(COMPANIES),
+    })),
+    education: {
+      highest_level: '',
+      degrees: [{
+        degree: pick(DEGREES),
+        subject: pick(SUBJECTS),
+        school: '',
+        gpa: '',
+        startDate: '',
+        endDate: '',
+        originalSchool: '',
+        isTop50: random() < 0.2,
+      }],
+    },
+    skills: Array.from({ length: 3 + Math.floor(random() * 6) }, () => pick(SKILLS)),
+  }));
+};
+
+const roleFilters: I_RoleFilters = {
+  skills: [
+    { value: 'React', tier: 'must' },
+    { value: 'TypeScript', tier: 'nice' },
+    { value: 'AWS', tier: 'nice', matchMode: 'contains' },
+  ],
+  experience: [
+    { value: 'Engineer', tier: 'nice' },
+    { value: 'Intern', tier: 'exclude' },
+  ],
+  education: [{ value: 'Computer Science', tier: 'nice' }],
+};
+const skillKeywords = getScoringKeywords(roleFilters.skills);
+const experienceKeywords = getScoringKeywords(roleFilters.experience);
+const educationKeywords = getScoringKeywords(roleFilters.education);
+
+[10_000, 100_000].forEach(size => {
+  const candidates = createSyntheticCandidates(size);
+  const index = new CandidateSearchIndex(candidates);
+  const passingIds = index.filterCandidateIds(roleFilters);
+  const eligible = candidates.filter(candidate => passingIds.has(candidate.id));
+  const options = { iterations: 5, time: 1000 };
+
+  describe(`filter ${size.toLocaleString()} candidates`, () => {
+    bench('scan every candidate', () => {
+      candidates.filter(candidate => passesKeywordFilters(candidate, roleFilters));
+    }, options);
+
+    bench('inverted index (cold keyword lookups)', () => {
+      index.clearMatches();
+      index.filterCandidateIds(roleFilters);
+    }, options);
+  });
+
+  describe(`score ${eligible.length.toLocaleString()} of ${size.toLocaleString()} candidates`, () => {
+    bench('scan every field', () => {
+      calculateCandidateScores(eligible, skillKeywords, experienceKeywords, educationKeywords);
+    }, options);
+
+    bench('inverted index (cold keyword lookups)', () => {
+      index.clearMatches();
+      calculateCandidateScores(eligible, skillKeywords, experienceKeywords, educationKeywords, undefined, index);
+    }, options);
+  });
+
+  describe(`build the index for ${size.toLocaleString()} candidates`, () => {
+    bench('build', () => {
+      new CandidateSearchIndex(candidates);
+    }, options);
+  });
+});
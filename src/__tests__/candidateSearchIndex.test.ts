@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore, I_FilterKeyword, I_RoleFilters } from '../types';
+import { CandidateSearchIndex, getCandidateSearchIndex } from '../utils/candidateSearchIndex';
+import { getMatchingFields, KEYWORD_CATEGORIES, passesKeywordFilters } from '../utils/keywordMatching';
+import { DEFAULT_SKILL_TAXONOMY, skillTaxonomy } from '../utils/skillTaxonomy';
+import { createCandidate } from '../test-utils';
+
+// Work and education history with the given roles and degree subjects
+const createHistory = (roles: string[], subjects: string[] = []): Partial<I_CandidateWithScore> => ({
+  work_experiences: roles.map(roleName => ({ roleName, company: 'Acme Corp' })),
+  education: {
+    highest_level: '',
+    degrees: subjects.map(subject => ({
+      degree: "Bachelor's Degree",
+      subject,
+      school: '',
+      gpa: '',
+      startDate: '',
+      endDate: '',
+      originalSchool: '',
+      isTop50: false,
+    })),
+  },
+});
+
+const candidates = [
+  createCandidate('a', { skills: ['React', 'TypeScript'], ...createHistory(['Senior Frontend Engineer'], ['Computer Science']) }),
+  createCandidate('b', { skills: ['ReactJS', 'Node JS'], ...createHistory(['Software Engineering Intern'], ['Mathematics']) }),
+  createCandidate('c', { skills: ['JavaScript', 'Java'], ...createHistory(['Backend Developer'], ['Computer Engineering']) }),
+  createCandidate('d', { skills: ['C++', 'C#'], ...createHistory(['Data Engineer']) }),
+  createCandidate('e', createHistory([], ['Data Science'])),
+];
+
+const keywords: I_FilterKeyword[] = [
+  'React', 'Frontend', 'Java', 'Node.js', 'C++', 'engine', 'Engineer', 'science', 'Data Science', 'a', 'Acme',
+].flatMap(value => (['word', 'exact', 'contains'] as const).map(matchMode => ({ value, tier: 'must' as const, matchMode })));
+
+const filters = (overrides: Partial<I_RoleFilters>): I_RoleFilters => ({
+  skills: [],
+  experience: [],
+  education: [],
+  ...overrides,
+});
+
+describe('CandidateSearchIndex', () => {
+  it('should match the same candidates and fields as scanning them', () => {
+    const index = new CandidateSearchIndex(candidates);
+
+    KEYWORD_CATEGORIES.forEach(category => {
+      keywords.forEach(keyword => {
+        const expectedIds = candidates
+          .filter(candidate => getMatchingFields(candidate, category, keyword).length > 0)
+          .map(candidate => candidate.id);
+        expect([...index.getMatchingCandidateIds(category, keyword)].sort(), `${category} ${keyword.value} ${keyword.matchMode}`)
+          .toEqual(expectedIds);
+
+        candidates.forEach(candidate => {
+          expect(index.getMatchingFields(candidate, category, keyword)).toEqual(getMatchingFields(candidate, category, keyword));
+        });
+      });
+    });
+  });
+
+  it('should apply must-have and excluded keywords as set operations', () => {
+    const index = new CandidateSearchIndex(candidates);
+    const roleFilters = filters({
+      skills: [{ value: 'React', tier: 'must' }, { value: 'Java', tier: 'nice' }],
+      experience: [{ value: 'Intern', tier: 'exclude' }],
+    });
+
+    const expected = candidates.filter(candidate => passesKeywordFilters(candidate, roleFilters)).map(candidate => candidate.id);
+    expect([...index.filterCandidateIds(roleFilters)]).toEqual(expected);
+    expect(expected).toEqual(['a']);
+    expect(index.filterCandidateIds(filters({})).size).toBe(candidates.length);
+  });
+
+  it('should match fields of candidates outside the indexed pool', () => {
+    const index = new CandidateSearchIndex(candidates);
+    const newcomer = createCandidate('new', { skills: ['Python', 'React'] });
+
+    expect(index.getMatchingFields(newcomer, 'skills', 'Python')).toEqual(['Python']);
+    expect(index.getMatchingFields(newcomer, 'skills', 'React')).toEqual(['React']);
+  });
+
+  it('should drop cached matches when the skill taxonomy changes', () => {
+    const index = new CandidateSearchIndex(candidates);
+    expect([...index.getMatchingCandidateIds('skills', 'Frontend')]).toEqual(['a', 'b', 'c']);
+
+    skillTaxonomy.setEntries([{ name: 'React', aliases: [], parents: [] }]);
+    try {
+      expect([...index.getMatchingCandidateIds('skills', 'Frontend')]).toEqual([]);
+    } finally {
+      skillTaxonomy.setEntries(DEFAULT_SKILL_TAXONOMY);
+    }
+  });
+
+  it('should build one index per pool', () => {
+    expect(getCandidateSearchIndex(candidates)).toBe(getCandidateSearchIndex(candidates));
+    expect(getCandidateSearchIndex([...candidates])).not.toBe(getCandidateSearchIndex(candidates));
+  });
+});
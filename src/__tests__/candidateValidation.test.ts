@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { validateCandidateRecord, validateCandidateRecords } from '../utils/candidateValidation';
+
+const validRecord = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '555-0100',
+  location: 'Berlin',
+  submitted_at: '2025-01-28 09:02:16.000000',
+  work_availability: ['full-time'],
+  annual_salary_expectation: { 'full-time': '$95000' },
+  work_experiences: [{ company: 'Acme', roleName: 'Frontend Engineer' }],
+  education: {
+    highest_level: "Bachelor's Degree",
+    degrees: [{
+      degree: "Bachelor's Degree",
+      subject: 'Computer Science',
+      school: 'MIT',
+      gpa: 'GPA 3.5-3.9',
+      startDate: '2015',
+      endDate: '2019',
+      originalSchool: 'MIT',
+      isTop50: true,
+    }],
+  },
+  skills: ['React', 'TypeScript'],
+};
+
+describe('validateCandidateRecord', () => {
+  it('should accept a well-formed record as valid', () => {
+    const result = validateCandidateRecord(validRecord);
+    expect(result.status).toBe('valid');
+    expect(result.issues).toEqual([]);
+    expect(result.candidate).toEqual(validRecord);
+  });
+
+  it('should normalize fixable problems and mark the record as partial', () => {
+    const result = validateCandidateRecord({
+      ...validRecord,
+      submitted_at: 'yesterday',
+      skills: 'React',
+      education: { highest_level: '', degrees: validRecord.education.degrees },
+    });
+
+    expect(result.status).toBe('partial');
+    expect(result.issues.map(issue => issue.code)).toEqual([
+      'malformed_submitted_at',
+      'skills_not_array',
+      'empty_highest_level',
+    ]);
+    expect(result.candidate?.skills).toEqual([]);
+    expect(result.candidate?.education.highest_level).toBe("Bachelor's Degree");
+  });
+
+  it('should reject records without a usable name or email', () => {
+    const result = validateCandidateRecord({ ...validRecord, name: '  ', email: 'nope' });
+    expect(result.status).toBe('invalid');
+    expect(result.candidate).toBeNull();
+    expect(result.issues.map(issue => issue.code)).toEqual(['missing_name', 'invalid_email']);
+  });
+});
+
+describe('validateCandidateRecords', () => {
+  it('should count each status and keep examples for every issue', () => {
+    const { validCandidates, report } = validateCandidateRecords([
+      validRecord,
+      { ...validRecord, name: '' },
+      { ...validRecord, education: {} },
+      null,
+    ]);
+
+    expect(validCandidates.map(({ index }) => index)).toEqual([0]);
+    expect(report).toMatchObject({ totalRecords: 4, validCount: 1, partialCount: 1, invalidCount: 2 });
+    expect(report.quarantined.map(record => record.index)).toEqual([1, 2, 3]);
+
+    const missingName = report.issues.find(issue => issue.code === 'missing_name');
+    expect(missingName?.count).toBe(1);
+    expect(missingName?.examples[0]).toMatchObject({ index: 1, label: 'jane@example.com' });
+  });
+});
@@ -0,0 +1,112 @@
+import { act, fireEvent, render, screen, within } from '@testing-library/react';
+import { useCallback, useState } from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import CandidatesDataTable from '@/components/shortlist/CandidatesDataTable';
+import { DEFAULT_CANDIDATE_VIEW_STATE } from '@/constants';
+import { createCandidate } from '@/test-utils';
+import type { I_CandidateViewState, I_CandidateWithScore, T_CandidateTableMode } from '@/types/Candidate';
+
+// The virtualizer reads sizes from layout, which happy-dom doesn't do:
+// the scroll viewport is 640px tall and every row 64px, so ten rows fit
+const VIEWPORT_HEIGHT = 640;
+const ROW_HEIGHT = 64;
+
+// 120 candidates, already in score order
+const candidates: I_CandidateWithScore[] = Array.from({ length: 120 }, (_, index) => createCandidate(`c${index}`, {
+  name: `Candidate ${index}`,
+  work_availability: ['full-time'],
+  score: 10 - index / 100,
+}));
+
+// Keeps the view state the table hands back, as the role's list does
+const TableHarness = ({ onSelectForTeam }: { onSelectForTeam: (candidate: I_CandidateWithScore) => void }) => {
+  const [viewState, setViewState] = useState<I_CandidateViewState>(DEFAULT_CANDIDATE_VIEW_STATE);
+  const handleViewStateChange = useCallback((updates: Partial<I_CandidateViewState>) => {
+    setViewState(prev => ({ ...prev, ...updates }));
+  }, []);
+  return (
+    <CandidatesDataTable
+      candidates={candidates}
+      onViewDetails={vi.fn()}
+      onSelectForTeam={onSelectForTeam}
+      viewState={viewState}
+      onViewStateChange={handleViewStateChange}
+    />
+  );
+};
+
+const renderTable = (mode: T_CandidateTableMode) => {
+  localStorage.setItem('applicant_screening_candidate_table_mode', JSON.stringify(mode));
+  const handleSelect = vi.fn();
+  render(<TableHarness onSelectForTeam={handleSelect} />);
+  return handleSelect;
+};
+
+const getRenderedNames = () =>
+  screen.queryAllByText(/^Candidate \d+$/).map(element => element.textContent);
+
+const selectCandidate = (name: string) => {
+  const row = screen.getByText(name).closest('tr')!;
+  fireEvent.click(within(row).getByRole('button', { name: /select/i }));
+};
+
+describe('CandidatesDataTable', () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLElement.prototype, 'offsetHeight', 'get').mockImplementation(function (this: HTMLElement) {
+      return this.classList.contains('overflow-y-auto') ? VIEWPORT_HEIGHT : ROW_HEIGHT;
+    });
+    vi.spyOn(HTMLElement.prototype, 'offsetWidth', 'get').mockReturnValue(1000);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  describe('scroll mode', () => {
+    it('should only render the rows in view and a few more', () => {
+      renderTable('scroll');
+
+      const names = getRenderedNames();
+      expect(names[0]).toBe('Candidate 0');
+      expect(names.length).toBeGreaterThanOrEqual(10);
+      expect(names.length).toBeLessThan(50);
+      expect(screen.getByText('120 candidates · scroll for more')).toBeInTheDocument();
+    });
+
+    it('should load the next batch when scrolled near the end of the loaded rows', () => {
+      const handleSelect = renderTable('scroll');
+      const viewport = document.querySelector<HTMLElement>('.overflow-y-auto')!;
+
+      // Rows 40-49 in view: the end of the first batch of 50
+      Object.defineProperty(viewport, 'scrollTop', { value: 40 * ROW_HEIGHT, configurable: true });
+      act(() => {
+        fireEvent.scroll(viewport);
+      });
+
+      const names = getRenderedNames();
+      expect(names).not.toContain('Candidate 0');
+      expect(names).toContain('Candidate 55');
+
+      selectCandidate('Candidate 55');
+      expect(handleSelect).toHaveBeenCalledWith(candidates[55]);
+    });
+  });
+
+  describe('pages mode', () => {
+    it('should render one page and move to the next on request', () => {
+      const handleSelect = renderTable('pages');
+
+      expect(getRenderedNames()).toEqual(candidates.slice(0, 10).map(candidate => candidate.name));
+      expect(screen.getByText('Page 1 of 12')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(getRenderedNames()).toEqual(candidates.slice(10, 20).map(candidate => candidate.name));
+      expect(screen.getByText('Page 2 of 12')).toBeInTheDocument();
+
+      selectCandidate('Candidate 15');
+      expect(handleSelect).toHaveBeenCalledWith(candidates[15]);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore } from '../types';
+import {
+  currencyConverter,
+  DEFAULT_CURRENCY_SETTINGS,
+  formatMoneyText,
+  normalizeCurrencySettings,
+  parseMoney,
+} from '../utils/currency';
+import { getCandidateAttributes, parseSalaryAmount } from '../utils/candidateAttributes';
+import { parseFilterQuery } from '../utils/filterQuery';
+
+const settings = { reportingCurrency: 'USD', rates: { USD: 1, EUR: 0.8, GBP: 0.5 } };
+
+const candidate: I_CandidateWithScore = {
+  id: 'c1',
+  name: 'Lena',
+  email: '',
+  phone: '',
+  location: 'Berlin, Germany',
+  submitted_at: '',
+  work_availability: ['full-time'],
+  annual_salary_expectation: { 'full-time': '€80.000' },
+  work_experiences: [],
+  education: { highest_level: '', degrees: [] },
+  skills: [],
+};
+
+afterEach(() => {
+  currencyConverter.setSettings(DEFAULT_CURRENCY_SETTINGS);
+});
+
+describe('parseMoney', () => {
+  it('should read currency symbols and codes', () => {
+    expect(parseMoney('$117548')).toEqual({ amount: 117548, currency: 'USD' });
+    expect(parseMoney('€95.000')).toEqual({ amount: 95000, currency: 'EUR' });
+    expect(parseMoney('EUR 95.000,50')).toEqual({ amount: 95000.5, currency: 'EUR' });
+    expect(parseMoney('R$ 120.000')).toEqual({ amount: 120000, currency: 'BRL' });
+    expect(parseMoney('1 250 000 INR')).toEqual({ amount: 1250000, currency: 'INR' });
+    expect(parseMoney('95000')).toEqual({ amount: 95000, currency: null });
+  });
+
+  it('should read separators and thousand or million suffixes', () => {
+    expect(parseMoney('$117,548.50')?.amount).toBe(117548.5);
+    expect(parseMoney('£70k')).toEqual({ amount: 70000, currency: 'GBP' });
+    expect(parseMoney('₹1.2m')?.amount).toBe(1200000);
+    expect(parseMoney('CHF 120\'000')?.amount).toBe(120000);
+    expect(parseMoney('negotiable')).toBeNull();
+  });
+});
+
+describe('currencyConverter', () => {
+  it('should convert through the base currency', () => {
+    currencyConverter.setSettings(settings);
+    expect(currencyConverter.convert(80, 'EUR')).toBeCloseTo(100);
+    expect(currencyConverter.convert(100, 'EUR', 'GBP')).toBeCloseTo(62.5);
+    expect(currencyConverter.convert(100, 'JPY')).toBeNull();
+  });
+
+  it('should read amounts naming no currency as the fallback currency', () => {
+    currencyConverter.setSettings({ ...settings, reportingCurrency: 'EUR' });
+    expect(parseSalaryAmount('$100000')).toBeCloseTo(80000);
+    expect(parseSalaryAmount('100000')).toBeCloseTo(80000);
+    expect(parseSalaryAmount('100000', 'EUR')).toBe(100000);
+  });
+
+  it('should format amounts for a locale', () => {
+    expect(currencyConverter.format(120000, 'USD', 'en-US')).toBe('$120,000');
+    expect(currencyConverter.format(120000, 'EUR', 'de-DE')).toBe('120.000 €');
+  });
+});
+
+describe('formatMoneyText', () => {
+  it('should add the reporting currency value to foreign amounts', () => {
+    currencyConverter.setSettings(settings);
+    expect(formatMoneyText('€80.000', 'en-US')).toBe('€80,000 (≈ $100,000)');
+    expect(formatMoneyText('$117548', 'en-US')).toBe('$117,548');
+    expect(formatMoneyText('negotiable', 'en-US')).toBe('negotiable');
+  });
+});
+
+describe('normalized salaries', () => {
+  it('should convert salary expectations again when the rates change', () => {
+    currencyConverter.setSettings(settings);
+    expect(getCandidateAttributes(candidate).salaryExpectation).toBeCloseTo(100000);
+
+    currencyConverter.setSettings({ ...settings, rates: { ...settings.rates, EUR: 1 } });
+    expect(getCandidateAttributes(candidate).salaryExpectation).toBeCloseTo(80000);
+  });
+
+  it('should compare query salaries in the reporting currency', () => {
+    currencyConverter.setSettings({ ...settings, reportingCurrency: 'EUR' });
+    expect(parseFilterQuery('salary:<90000').node).toMatchObject({ value: 90000 });
+    expect(parseFilterQuery('salary:<$100k').node).toMatchObject({ value: 80000 });
+    expect(parseFilterQuery('salary:<100000JPY').error?.message).toMatch(/No exchange rate for JPY/);
+  });
+});
+
+describe('normalizeCurrencySettings', () => {
+  it('should keep valid rates and fall back to the base currency', () => {
+    expect(normalizeCurrencySettings({ reportingCurrency: 'XYZ', rates: { EUR: 0.9, usd: 2, GBP: -1, USD: 3 } })).toEqual({
+      reportingCurrency: 'USD',
+      rates: { USD: 1, EUR: 0.9 },
+    });
+    expect(normalizeCurrencySettings(null)).toEqual({ reportingCurrency: 'USD', rates: { USD: 1 } });
+  });
+});
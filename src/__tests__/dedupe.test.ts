@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore } from '../types';
+import { applyDuplicateDecisions, findDuplicateGroups, getNameSimilarity, mergeDuplicateCandidates } from '../utils/dedupe';
+import { validateCandidateRecords } from '../utils/candidateValidation';
+import candidatesData from '../../resources/candidatesData.json';
+import { createCandidate } from '../test-utils';
+
+// Candidates are the same person unless a test says otherwise
+const JANE: Partial<I_CandidateWithScore> = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  submitted_at: '2025-01-26 10:00:00.000000',
+};
+
+describe('getNameSimilarity', () => {
+  it('should treat contained names as close matches', () => {
+    expect(getNameSimilarity('jane', 'jane doe')).toBeGreaterThanOrEqual(0.85);
+    expect(getNameSimilarity('jane', 'jane doe', false)).toBeLessThan(0.85);
+    expect(getNameSimilarity('jane doe', 'john smith')).toBeLessThan(0.5);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('should confirm records sharing an email and name, and flag conflicting ones for review', () => {
+    const groups = findDuplicateGroups([
+      createCandidate('a', JANE),
+      createCandidate('b', { ...JANE, phone: '+1 (555) 010-0100' }),
+      createCandidate('c', { ...JANE, name: 'Bob Stone', email: 'bob@example.com', phone: '15550100100' }),
+      createCandidate('d', { ...JANE, name: 'Someone Else', email: 'other@example.com' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      candidateIds: ['a', 'b', 'c'],
+      confidence: 'ambiguous',
+      confirmedSubgroups: [['a', 'b']],
+    });
+    expect(groups[0].signals.sort()).toEqual(['email', 'name', 'phone']);
+  });
+
+  it('should flag near-identical names without shared contact details as ambiguous', () => {
+    const groups = findDuplicateGroups([
+      createCandidate('a', { ...JANE, name: 'Jonathan Smith', email: 'a@example.com' }),
+      createCandidate('b', { ...JANE, name: 'Jonathan Smyth', email: 'b@example.com' }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({ confidence: 'ambiguous', signals: ['name'], confirmedSubgroups: [] });
+  });
+
+  it('should group the bundled dataset without merging different people outright', () => {
+    const pool = validateCandidateRecords(candidatesData)
+      .validCandidates.map(({ candidate, index }) => ({ ...candidate, id: `c${index}` }));
+    const groups = findDuplicateGroups(pool);
+
+    expect(groups.some(group => group.confidence === 'confirmed')).toBe(true);
+    expect(groups.some(group => group.confidence === 'ambiguous')).toBe(true);
+    groups
+      .filter(group => group.confidence === 'confirmed')
+      .forEach(group => {
+        expect(group.signals).not.toEqual(['name']);
+      });
+  });
+});
+
+describe('mergeDuplicateCandidates', () => {
+  it('should keep the latest record and combine list fields', () => {
+    const merged = mergeDuplicateCandidates([
+      createCandidate('old', {
+        ...JANE,
+        phone: '555-0100',
+        submitted_at: '2025-01-26 10:00:00.000000',
+        skills: ['React', 'Go'],
+        work_experiences: [{ company: 'Acme', roleName: 'Engineer' }],
+        annual_salary_expectation: { 'part-time': '$40000' },
+      }),
+      createCandidate('new', {
+        ...JANE,
+        location: 'Berlin',
+        submitted_at: '2025-01-28 10:00:00.000000',
+        skills: ['react', 'TypeScript'],
+        work_experiences: [{ company: 'Beta', roleName: 'Lead' }, { company: 'Acme', roleName: 'Engineer' }],
+        annual_salary_expectation: { 'full-time': '$90000' },
+      }),
+    ]);
+
+    expect(merged.id).toBe('new');
+    expect(merged.submitted_at).toBe('2025-01-28 10:00:00.000000');
+    expect(merged.phone).toBe('555-0100');
+    expect(merged.location).toBe('Berlin');
+    expect(merged.skills).toEqual(['react', 'TypeScript', 'Go']);
+    expect(merged.work_experiences).toHaveLength(2);
+    expect(merged.annual_salary_expectation).toEqual({ 'full-time': '$90000', 'part-time': '$40000' });
+    expect(merged.mergedIds).toEqual(['new', 'old']);
+  });
+});
+
+describe('applyDuplicateDecisions', () => {
+  const pool = [
+    createCandidate('a', JANE),
+    createCandidate('b', { ...JANE, submitted_at: '2025-01-27 10:00:00.000000' }),
+    createCandidate('c', { ...JANE, name: 'Bob Stone' }),
+    createCandidate('d', { ...JANE, name: 'Someone Else', email: 'other@example.com' }),
+  ];
+  const groups = findDuplicateGroups(pool);
+
+  it('should merge only confirmed sub-groups until an ambiguous group is reviewed', () => {
+    expect(applyDuplicateDecisions(pool, groups, {}).map(candidate => candidate.id)).toEqual(['b', 'c', 'd']);
+    expect(applyDuplicateDecisions(pool, groups, { [groups[0].id]: 'keep' }).map(candidate => candidate.id)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('should merge the whole group once the user approves it', () => {
+    const result = applyDuplicateDecisions(pool, groups, { [groups[0].id]: 'merge' });
+    expect(result.map(candidate => candidate.id)).toEqual(['b', 'd']);
+    expect(result[0].mergedIds?.sort()).toEqual(['a', 'b', 'c']);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import type { I_Degree } from '../types';
+import { createQueryPredicate, parseFilterQuery } from '../utils/filterQuery';
+import { getCandidateSearchIndex } from '../utils/candidateSearchIndex';
+import { runCandidatePipeline } from '../utils/candidatePipeline';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+import { createCandidate } from '../test-utils';
+
+const createDegree = (subject: string, degree = "Bachelor's Degree"): I_Degree => ({
+  degree,
+  subject,
+  school: 'State University',
+  gpa: '',
+  startDate: '',
+  endDate: '',
+  originalSchool: 'State University',
+  isTop50: false,
+});
+
+const candidates = [
+  createCandidate('ada', {
+    skills: ['React', 'TypeScript'],
+    work_experiences: [{ roleName: 'Frontend Engineer', company: 'Acme' }],
+    education: { highest_level: "Master's Degree", degrees: [createDegree('Computer Science', "Master's Degree")] },
+    annual_salary_expectation: { 'full-time': '$110000' },
+    location: 'São Paulo',
+  }),
+  createCandidate('bob', {
+    skills: ['React', 'TypeScript'],
+    work_experiences: [{ roleName: 'Software Engineering Intern', company: 'Acme' }],
+    education: { highest_level: "Bachelor's Degree", degrees: [createDegree('Computer Science')] },
+    annual_salary_expectation: { 'full-time': '$60000' },
+  }),
+  createCandidate('cy', {
+    skills: ['React'],
+    work_experiences: [{ roleName: 'Developer', company: 'Initech' }],
+    education: { highest_level: "Bachelor's Degree", degrees: [createDegree('Mechanical Engineering')] },
+    annual_salary_expectation: { 'full-time': '$90000' },
+    location: 'Toronto',
+  }),
+  createCandidate('dee', {
+    skills: ['React', 'TypeScript'],
+    education: { highest_level: "Bachelor's Degree", degrees: [createDegree('Electrical Engineering')] },
+    annual_salary_expectation: { 'full-time': '$150000' },
+  }),
+];
+
+const matching = (query: string, withIndex = false): string[] => {
+  const { node, error } = parseFilterQuery(query);
+  if (!node) throw new Error(error?.message ?? 'empty query');
+  const matches = createQueryPredicate(node, withIndex ? getCandidateSearchIndex(candidates) : undefined);
+  return candidates.filter(matches).map(candidate => candidate.id);
+};
+
+describe('parseFilterQuery', () => {
+  it('should bind NOT tighter than AND and AND tighter than OR', () => {
+    expect(parseFilterQuery('React OR NOT Java Python').node).toEqual({
+      type: 'or',
+      children: [
+        { type: 'keyword', categories: ['skills', 'experience', 'education'], keyword: { value: 'React', tier: 'must', matchMode: 'word' } },
+        {
+          type: 'and',
+          children: [
+            { type: 'not', child: { type: 'keyword', categories: ['skills', 'experience', 'education'], keyword: { value: 'Java', tier: 'must', matchMode: 'word' } } },
+            { type: 'keyword', categories: ['skills', 'experience', 'education'], keyword: { value: 'Python', tier: 'must', matchMode: 'word' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(parseFilterQuery('   ')).toEqual({ node: null, error: null });
+  });
+
+  it('should report syntax errors with their position', () => {
+    expect(parseFilterQuery('skills:(React AND').error).toEqual({ message: 'Expected a term after "AND"', start: 14, end: 17 });
+    expect(parseFilterQuery('(React OR Vue').error).toMatchObject({ message: 'Missing closing parenthesis', start: 0, end: 1 });
+    expect(parseFilterQuery('React)').error).toMatchObject({ message: 'Unexpected ")"', start: 5, end: 6 });
+    expect(parseFilterQuery('edu:"Computer').error).toMatchObject({ message: 'Missing closing quote', start: 4 });
+    expect(parseFilterQuery('salary:<lots').error?.message).toContain('Expected a number for salary');
+    expect(parseFilterQuery('colour:blue').error?.message).toContain('Unknown field "colour"');
+    expect(parseFilterQuery('AND React').error?.message).toBe('Expected a term before "AND"');
+  });
+});
+
+describe('createQueryPredicate', () => {
+  const example = 'skills:(React AND TypeScript) AND NOT role:intern AND (edu:"Computer Science" OR edu:Engineering) AND salary:<120000';
+
+  it('should evaluate the example query the same with and without the search index', () => {
+    expect(matching(example)).toEqual(['ada']);
+    expect(matching(example, true)).toEqual(['ada']);
+  });
+
+  it('should compare numbers and degree levels', () => {
+    expect(matching('salary:>=90000')).toEqual(['ada', 'cy', 'dee']);
+    expect(matching('salary:<=90k')).toEqual(['bob', 'cy']);
+    expect(matching('level:>=master')).toEqual(['ada']);
+    expect(matching('jobs:=0')).toEqual(['dee']);
+  });
+
+  it('should match countries, regions and availability', () => {
+    expect(matching('location:"South America" OR country:Canada')).toEqual(['ada', 'cy']);
+    expect(matching('location:toronto')).toEqual(['cy']);
+    expect(matching('NOT availability:part-time')).toHaveLength(candidates.length);
+  });
+
+  it('should match a trailing wildcard anywhere in the text', () => {
+    expect(matching('role:engineer')).toEqual(['ada']);
+    expect(matching('role:engineer*')).toEqual(['ada', 'bob']);
+  });
+
+  it('should match companies only in the company field', () => {
+    expect(matching('company:initech')).toEqual(['cy']);
+    expect(matching('company:initech', true)).toEqual(['cy']);
+    expect(matching('role:initech OR initech')).toEqual([]);
+  });
+});
+
+describe('runCandidatePipeline with a query', () => {
+  it('should combine the query with the keyword filters', async () => {
+    const results = await runCandidatePipeline(candidates, {
+      roleFilters: { skills: [{ value: 'TypeScript', tier: 'nice' }], experience: [], education: [], query: 'edu:engineering' },
+      scoringProfile: DEFAULT_SCORING_PROFILES[0],
+      excludedCandidateIds: [],
+    });
+    expect(results?.map(candidate => candidate.id)).toEqual(['dee', 'cy']);
+  });
+});
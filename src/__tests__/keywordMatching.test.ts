@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore, I_RoleFilters } from '../types';
+import { candidateMatchesKeyword, getScoringKeywords, normalizeFilterKeywords, passesKeywordFilters } from '../utils/keywordMatching';
+
+const candidate: I_CandidateWithScore = {
+  id: 'c1',
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  phone: '',
+  location: '',
+  submitted_at: '',
+  work_availability: [],
+  annual_salary_expectation: {},
+  work_experiences: [{ roleName: 'Software Engineering Intern', company: 'Acme' }],
+  education: { highest_level: '', degrees: [] },
+  skills: ['React', 'TypeScript'],
+};
+
+const filters = (overrides: Partial<I_RoleFilters>): I_RoleFilters => ({
+  skills: [],
+  experience: [],
+  education: [],
+  ...overrides,
+});
+
+describe('passesKeywordFilters', () => {
+  it('should require every must-have keyword', () => {
+    expect(passesKeywordFilters(candidate, filters({
+      skills: [{ value: 'react', tier: 'must' }, { value: 'TypeScript', tier: 'must' }],
+    }))).toBe(true);
+    expect(passesKeywordFilters(candidate, filters({
+      skills: [{ value: 'react', tier: 'must' }, { value: 'Go', tier: 'must' }],
+    }))).toBe(false);
+  });
+
+  it('should ignore nice-to-have keywords and drop excluded matches', () => {
+    expect(passesKeywordFilters(candidate, filters({ skills: [{ value: 'Go', tier: 'nice' }] }))).toBe(true);
+    expect(passesKeywordFilters(candidate, filters({ experience: [{ value: 'Intern', tier: 'exclude' }] }))).toBe(false);
+  });
+});
+
+describe('getScoringKeywords', () => {
+  it('should score must-have and nice-to-have keywords only', () => {
+    expect(getScoringKeywords([
+      { value: 'React', tier: 'must' },
+      { value: 'Go', tier: 'nice' },
+      { value: 'PHP', tier: 'exclude' },
+    ]).map(keyword => keyword.value)).toEqual(['React', 'Go']);
+  });
+});
+
+describe('normalizeFilterKeywords', () => {
+  it('should read plain strings saved before tiers existed as nice-to-have', () => {
+    expect(normalizeFilterKeywords(['React', ' ', { value: 'Intern', tier: 'exclude', matchMode: 'exact' }, 42])).toEqual([
+      { value: 'React', tier: 'nice' },
+      { value: 'Intern', tier: 'exclude', matchMode: 'exact' },
+    ]);
+    expect(normalizeFilterKeywords(undefined)).toEqual([]);
+  });
+});
+
+describe('candidateMatchesKeyword', () => {
+  const withSkills = (skills: string[]) => ({ ...candidate, skills });
+
+  it('should match skill synonyms from the taxonomy', () => {
+    expect(candidateMatchesKeyword(withSkills(['Node JS']), 'skills', 'Node.js')).toBe(true);
+    expect(candidateMatchesKeyword(withSkills(['Amazon Web Services']), 'skills', 'AWS')).toBe(true);
+  });
+
+  it('should not match a skill that only contains the keyword', () => {
+    expect(candidateMatchesKeyword(withSkills(['JavaScript']), 'skills', 'Java')).toBe(false);
+    expect(candidateMatchesKeyword(withSkills(['JavaScript']), 'skills', { value: 'Java', tier: 'must', matchMode: 'contains' })).toBe(true);
+  });
+
+  it('should match child skills unless the keyword is exact', () => {
+    expect(candidateMatchesKeyword(withSkills(['React']), 'skills', 'Frontend')).toBe(true);
+    expect(candidateMatchesKeyword(withSkills(['React']), 'skills', { value: 'Frontend', tier: 'must', matchMode: 'exact' })).toBe(false);
+    expect(candidateMatchesKeyword(withSkills(['ReactJS']), 'skills', { value: 'React', tier: 'must', matchMode: 'exact' })).toBe(true);
+  });
+
+  it('should keep matching experience and education keywords anywhere in the text, as saved filters expect', () => {
+    const student = {
+      ...candidate,
+      education: { highest_level: '', degrees: [{ degree: 'Bachelor of Science', subject: 'Computer Science', school: '', gpa: '', startDate: '', endDate: '', originalSchool: '', isTop50: false }] },
+    };
+    expect(candidateMatchesKeyword(candidate, 'experience', 'Engineer')).toBe(true);
+    expect(candidateMatchesKeyword(candidate, 'experience', { value: 'Engineer', tier: 'must' })).toBe(true);
+    expect(candidateMatchesKeyword(student, 'education', { value: 'Comp', tier: 'nice' })).toBe(true);
+  });
+
+  it('should match whole words in other categories when asked to', () => {
+    expect(candidateMatchesKeyword(candidate, 'experience', { value: 'intern', tier: 'nice', matchMode: 'word' })).toBe(true);
+    expect(candidateMatchesKeyword(candidate, 'experience', { value: 'engine', tier: 'nice', matchMode: 'word' })).toBe(false);
+  });
+
+  it('should only match companies when they are asked for', () => {
+    expect(candidateMatchesKeyword(candidate, 'experience', 'Acme')).toBe(false);
+    expect(candidateMatchesKeyword(candidate, 'company', 'Acme')).toBe(true);
+  });
+});
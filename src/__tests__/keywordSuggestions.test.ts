@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import type { I_RoleFilters } from '../types';
+import { createFilterKeyword } from '../utils/keywordMatching';
+import { getKeywordSuggestions, getKeywordVocabulary } from '../utils/keywordSuggestions';
+import { createCandidate } from '../test-utils';
+
+const candidates = [
+  createCandidate('a', { skills: ['React', 'Redux'], work_experiences: [{ roleName: 'Frontend Engineer', company: 'Acme' }], location: 'Berlin' }),
+  createCandidate('b', { skills: ['react', 'Python'], work_experiences: [{ roleName: 'Backend Engineer', company: 'Acme' }], location: 'Toronto' }),
+  createCandidate('c', { skills: ['React', 'Python'], work_experiences: [{ roleName: 'Data Engineer', company: 'Acme' }], location: 'Toronto' }),
+  createCandidate('d', { skills: ['Python'], work_experiences: [{ roleName: 'Engineering Manager', company: 'Acme' }] }),
+];
+
+const noFilters: I_RoleFilters = { skills: [], experience: [], education: [] };
+
+describe('getKeywordVocabulary', () => {
+  it('should merge spellings differing in case under the most common one', () => {
+    expect(getKeywordVocabulary(candidates, 'skills')).toEqual([
+      { value: 'Python', normalizedValue: 'python', poolCount: 3 },
+      { value: 'React', normalizedValue: 'react', poolCount: 3 },
+      { value: 'Redux', normalizedValue: 'redux', poolCount: 1 },
+    ]);
+  });
+});
+
+describe('getKeywordSuggestions', () => {
+  it('should suggest pool values matching the query with the candidates each leaves', () => {
+    expect(getKeywordSuggestions(candidates, noFilters, 'skills', 're')).toEqual([
+      { value: 'React', count: 3 },
+      { value: 'Redux', count: 1 },
+    ]);
+    expect(getKeywordSuggestions(candidates, noFilters, 'skills', '')).toEqual([]);
+  });
+
+  it('should count against the other active filters', () => {
+    const filters: I_RoleFilters = {
+      ...noFilters,
+      skills: [createFilterKeyword('Python')],
+      location: { countries: ['Canada'] },
+    };
+    expect(getKeywordSuggestions(candidates, filters, 'skills', 're')).toEqual([
+      { value: 'React', count: 2 },
+      { value: 'Redux', count: 0 },
+    ]);
+  });
+
+  it('should rank values starting with the query first and skip keywords already added', () => {
+    const filters: I_RoleFilters = { ...noFilters, experience: [createFilterKeyword('Data Engineer', 'nice')] };
+    expect(getKeywordSuggestions(candidates, filters, 'experience', 'eng').map(suggestion => suggestion.value))
+      .toEqual(['Engineering Manager', 'Backend Engineer', 'Frontend Engineer']);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { I_TeamRole } from '../types';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+import {
+  createRoleTemplate,
+  exportRoleTemplatesJson,
+  findMatchingScoringProfile,
+  getRoleTemplateUpdates,
+  mergeRoleTemplates,
+  normalizeRoleTemplate,
+  parseRoleTemplatesJson,
+  STARTER_ROLE_TEMPLATES,
+} from '../utils/roleTemplates';
+
+const role: I_TeamRole = {
+  id: 'role-1',
+  title: 'Platform Engineer',
+  requiredSkills: [{ value: 'Go', tier: 'must' }],
+  experienceRequirements: [{ value: 'Intern', tier: 'exclude' }],
+  educationRequirements: [],
+  rangeFilters: { minExperienceCount: 2 },
+  filterQuery: 'skills:(Docker OR Kubernetes)',
+  scoringProfileId: 'skills-first',
+};
+
+describe('STARTER_ROLE_TEMPLATES', () => {
+  it('should ship named templates with keyword filters', () => {
+    expect(STARTER_ROLE_TEMPLATES.length).toBeGreaterThan(0);
+    expect(STARTER_ROLE_TEMPLATES.map(template => template.name)).toContain('Senior Full-Stack');
+    STARTER_ROLE_TEMPLATES.forEach(template => {
+      expect(template.filters.skills.length + template.filters.experience.length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('createRoleTemplate', () => {
+  it('should capture the title, filters and scoring weights of a role', () => {
+    const template = createRoleTemplate('  Platform  ', role, DEFAULT_SCORING_PROFILES[1]);
+
+    expect(template.name).toBe('Platform');
+    expect(template.title).toBe('Platform Engineer');
+    expect(template.filters.skills).toEqual([{ value: 'Go', tier: 'must' }]);
+    expect(template.filters.ranges).toEqual({ minExperienceCount: 2 });
+    expect(template.filters.query).toBe('skills:(Docker OR Kubernetes)');
+    expect(template.scoring?.weights).toEqual(DEFAULT_SCORING_PROFILES[1].weights);
+  });
+});
+
+describe('getRoleTemplateUpdates', () => {
+  it('should set the title, filters and profile but leave the candidate alone', () => {
+    const template = createRoleTemplate('Platform', role);
+    const updates = getRoleTemplateUpdates(template, 'profile-1');
+
+    expect(updates).toMatchObject({
+      title: 'Platform Engineer',
+      requiredSkills: role.requiredSkills,
+      rangeFilters: { minExperienceCount: 2 },
+      scoringProfileId: 'profile-1',
+    });
+    expect(updates).not.toHaveProperty('candidate');
+    expect(getRoleTemplateUpdates(template)).not.toHaveProperty('scoringProfileId');
+  });
+});
+
+describe('findMatchingScoringProfile', () => {
+  it('should find the profile with the same weights', () => {
+    const scoring = { weights: { skills: 0.7, experience: 0.2, education: 0.1 }, prestigeEducationWeights: { top50: 0.1, top25: 0.1 } };
+    expect(findMatchingScoringProfile(DEFAULT_SCORING_PROFILES, scoring)?.id).toBe('skills-first');
+    expect(findMatchingScoringProfile(DEFAULT_SCORING_PROFILES, { ...scoring, weights: { ...scoring.weights, skills: 0.9 } })).toBeUndefined();
+  });
+});
+
+describe('mergeRoleTemplates', () => {
+  it('should replace templates with the same name and append new ones', () => {
+    const existing = createRoleTemplate('Platform', role);
+    const renamed = { ...createRoleTemplate('SRE', role), id: existing.id };
+    const updated = { ...createRoleTemplate('platform', role), title: 'Staff Platform Engineer' };
+
+    const merged = mergeRoleTemplates([existing], [updated, renamed]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0]).toMatchObject({ id: existing.id, title: 'Staff Platform Engineer' });
+    expect(merged[1].name).toBe('SRE');
+    expect(merged[1].id).not.toBe(existing.id);
+  });
+});
+
+describe('parseRoleTemplatesJson', () => {
+  it('should read an exported library back', () => {
+    const { templates, skippedCount } = parseRoleTemplatesJson(exportRoleTemplatesJson(STARTER_ROLE_TEMPLATES));
+    expect(templates).toEqual(STARTER_ROLE_TEMPLATES);
+    expect(skippedCount).toBe(0);
+  });
+
+  it('should skip unnamed entries and drop invalid filters and weights', () => {
+    const { templates, skippedCount } = parseRoleTemplatesJson(JSON.stringify([
+      { name: 'Designer', filters: { skills: ['Figma', 42], ranges: { minGpa: 'high' } }, scoring: { weights: { skills: 1 } } },
+      { title: 'No name' },
+    ]));
+
+    expect(skippedCount).toBe(1);
+    expect(templates).toHaveLength(1);
+    expect(templates[0]).toMatchObject({ name: 'Designer', title: 'Designer' });
+    expect(templates[0].filters.skills).toEqual([{ value: 'Figma', tier: 'nice' }]);
+    expect(templates[0].filters.ranges).toEqual({});
+    expect(templates[0].scoring).toBeUndefined();
+  });
+
+  it('should reject files that are not JSON or hold no templates', () => {
+    expect(() => parseRoleTemplatesJson('{ not json')).toThrow(/Invalid JSON/);
+    expect(() => parseRoleTemplatesJson('[{ "title": "No name" }]')).toThrow(/No role templates/);
+    expect(normalizeRoleTemplate('Designer')).toBeNull();
+  });
+});
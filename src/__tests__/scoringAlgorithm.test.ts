@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { calculateCandidateScores } from '../utils/scoringAlgorithm';
-import type { I_CandidateWithScore } from '../types/Candidate';
+import type { I_CandidateWithScore, I_ScoringProfile } from '../types/Candidate';
 
 // Mock candidate data for testing
 const mockCandidates: I_CandidateWithScore[] = [
@@ -164,4 +164,67 @@ describe('calculateCandidateScores', () => {
     expect(result[1].id).toBe('c2'); // Bob second
     expect(result[2].id).toBe('c3'); // Charlie third
   });
+
+  it('should use the weights of the given scoring profile', () => {
+    const profile: I_ScoringProfile = {
+      id: 'custom',
+      name: 'Custom',
+      weights: { skills: 0.25, experience: 0.75, education: 0.1 },
+      prestigeEducationWeights: { top50: 0.4, top25: 0.5 },
+    };
+
+    // Bob: 50% skill (React of React/Node.js), 100% experience
+    // Score = 50 * (0.25/1.0) + 100 * (0.75/1.0) = 12.5 + 75 = 87.5
+    const result = calculateCandidateScores(mockCandidates, ['React', 'Node.js'], ['Engineer'], [], profile);
+    expect(result[1].score).toBe(87.5);
+
+    // Alice (Top 25) uses the top25 education weight from the profile
+    const withEducation = calculateCandidateScores(mockCandidates, ['React'], [], ['Science'], profile);
+    expect(withEducation[0].educationWeight).toBe(0.5);
+  });
+
+  it('should explain matched and missed keywords, effective weights and the education tier', () => {
+    const result = calculateCandidateScores(mockCandidates, ['React', 'Node.js'], ['Senior'], ['Science']);
+    const bob = result[1].scoreExplanation;
+
+    expect(bob?.skills).toMatchObject({
+      matchedKeywords: ['React'],
+      missedKeywords: ['Node.js'],
+      matchedValues: ['React'],
+      matchPercentage: 50,
+    });
+    expect(bob?.experience.missedKeywords).toEqual(['Senior']);
+    expect(bob?.educationTier).toBe('top50');
+    expect(bob?.educationTierBonus).toBe(0.05);
+
+    // Effective weights add up to 1 and the points add up to the score
+    const categories = [bob!.skills, bob!.experience, bob!.education];
+    expect(categories.reduce((sum, category) => sum + category.effectiveWeight, 0)).toBeCloseTo(1, 2);
+    expect(categories.reduce((sum, category) => sum + category.points, 0)).toBeCloseTo(result[1].score!, 0);
+
+    const skillsOnly = calculateCandidateScores(mockCandidates, ['React'], [], []);
+    expect(skillsOnly[0].scoreExplanation?.education).toMatchObject({ active: false, effectiveWeight: 0 });
+  });
+
+  it('should add bonus points for preferred locations and availability only', () => {
+    const candidates = mockCandidates.map((candidate, index) => ({
+      ...candidate,
+      location: ['Toronto', 'São Paulo', 'Brasil'][index],
+      work_availability: ['full-time'],
+    }));
+    const keywordOnly = calculateCandidateScores(candidates, ['React', 'TypeScript'], [], []);
+    const result = calculateCandidateScores(candidates, ['React', 'TypeScript'], [], [], undefined, undefined, {
+      regions: ['South America'],
+      locationMode: 'prefer',
+      workAvailability: 'full-time',
+      workAvailabilityMode: 'require',
+    });
+
+    expect(keywordOnly.map(candidate => candidate.score)).toEqual([100, 50, 0]);
+    // Required availability is applied by the filter, so only the location adds points
+    expect(result.map(candidate => candidate.score)).toEqual([100, 60, 10]);
+    expect(result[0].scoreExplanation?.preferences).toEqual({ matched: [], missed: ['South America'], points: 0 });
+    expect(result[1].scoreExplanation?.preferences).toEqual({ matched: ['South America'], missed: [], points: 10 });
+    expect(keywordOnly[0].scoreExplanation?.preferences).toBeUndefined();
+  });
 });
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore, I_Team, I_TeamRole } from '../types';
+import { getTeamSkillCoverage } from '../utils/skillCoverage';
+import { createCandidate } from '../test-utils';
+
+const createRole = (id: string, skills: string[], candidate?: I_CandidateWithScore): I_TeamRole => ({
+  id,
+  title: id,
+  requiredSkills: skills.map(value => ({ value, tier: 'must' as const })),
+  experienceRequirements: [],
+  educationRequirements: [],
+  candidate,
+});
+
+const ana = createCandidate('ana', { skills: ['React', 'TypeScript'] });
+const ben = createCandidate('ben', { skills: ['ReactJS', 'Node.js'] });
+
+const team: I_Team = {
+  id: 'team-1',
+  name: 'Web',
+  size: 3,
+  roles: [
+    createRole('frontend', ['React', 'TypeScript'], ana),
+    createRole('backend', ['Node.js', 'PostgreSQL'], ben),
+    createRole('platform', ['Kubernetes', 'react']),
+  ],
+  createdAt: '',
+  updatedAt: '',
+};
+
+describe('getTeamSkillCoverage', () => {
+  it('should list each required skill once with the members covering it', () => {
+    const coverage = getTeamSkillCoverage(team);
+
+    expect(coverage.members.map(member => member.roleTitle)).toEqual(['frontend', 'backend']);
+    const react = coverage.skills.find(skill => skill.keyword.value === 'React');
+    expect(react?.requiredByRoleIndexes).toEqual([0, 2]);
+    expect(react?.coveredByRoleIndexes).toEqual([0, 1]);
+    expect(react?.status).toBe('covered');
+  });
+
+  it('should flag gaps and single points of failure, gaps first', () => {
+    const coverage = getTeamSkillCoverage(team);
+
+    expect(coverage.skills.map(skill => [skill.keyword.value, skill.status])).toEqual([
+      ['PostgreSQL', 'gap'],
+      ['Kubernetes', 'gap'],
+      ['TypeScript', 'single'],
+      ['Node.js', 'single'],
+      ['React', 'covered'],
+    ]);
+    expect(coverage.gapCount).toBe(2);
+    expect(coverage.singlePointCount).toBe(2);
+  });
+
+  it('should suggest pool candidates closing the most at-risk skills first', () => {
+    const cara = createCandidate('cara', { skills: ['PostgreSQL'] });
+    const dev = createCandidate('dev', { skills: ['PostgreSQL', 'Kubernetes'] });
+    const eli = createCandidate('eli', { skills: ['Kubernetes'] });
+    const pool = [ana, ben, cara, dev, eli];
+
+    const coverage = getTeamSkillCoverage(team, { pool, excludedCandidateIds: ['eli'] });
+    const postgres = coverage.skills.find(skill => skill.keyword.value === 'PostgreSQL');
+    const kubernetes = coverage.skills.find(skill => skill.keyword.value === 'Kubernetes');
+
+    expect(postgres?.suggestions.map(({ candidate, closes }) => [candidate.id, closes])).toEqual([
+      ['dev', ['PostgreSQL', 'Kubernetes']],
+      ['cara', ['PostgreSQL']],
+    ]);
+    expect(kubernetes?.suggestions.map(({ candidate }) => candidate.id)).toEqual(['dev']);
+    expect(coverage.skills.find(skill => skill.status === 'covered')?.suggestions).toEqual([]);
+  });
+
+  it('should handle a team without skill keywords', () => {
+    expect(getTeamSkillCoverage(undefined)).toEqual({ members: [], skills: [], gapCount: 0, singlePointCount: 0 });
+  });
+});
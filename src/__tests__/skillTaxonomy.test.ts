@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeSkillKey, skillTaxonomy } from '../utils/skillTaxonomy';
+
+describe('normalizeSkillKey', () => {
+  it('should ignore case, spacing and punctuation but keep + and #', () => {
+    expect(normalizeSkillKey('Node JS')).toBe(normalizeSkillKey('node.js'));
+    expect(normalizeSkillKey('C++')).not.toBe(normalizeSkillKey('C#'));
+  });
+});
+
+describe('skillTaxonomy', () => {
+  it('should resolve aliases to the same skill', () => {
+    expect(skillTaxonomy.resolve('Amazon Web Services')).toBe(skillTaxonomy.resolve('AWS'));
+    expect(skillTaxonomy.resolve('Java')).not.toBe(skillTaxonomy.resolve('JavaScript'));
+    expect(skillTaxonomy.resolve('Not A Real Skill')).toBeUndefined();
+  });
+
+  it('should follow parents through several levels and tolerate cycles', () => {
+    const previous = skillTaxonomy.getEntries();
+    const version = skillTaxonomy.getVersion();
+    try {
+      skillTaxonomy.setEntries([
+        { name: 'A', aliases: [], parents: ['B'] },
+        { name: 'B', aliases: [], parents: ['C'] },
+        { name: 'C', aliases: [], parents: ['A'] },
+      ]);
+      expect(skillTaxonomy.getVersion()).toBeGreaterThan(version);
+      expect(skillTaxonomy.isDescendantOf('a', 'c')).toBe(true);
+      expect(skillTaxonomy.isDescendantOf('a', 'a')).toBe(false);
+    } finally {
+      skillTaxonomy.setEntries(previous);
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import { loadActiveTeamId, loadTeams, migrateLegacyTeam, saveTeamAsync, saveTeamIdsAsync } from '../utils/storage';
+import { createTeam, getTeamShortlist } from '../utils/teams';
+import { createCandidate } from '../test-utils';
+
+const LEGACY_KEYS = ['applicant_screening_shortlisted_team', 'applicant_screening_team_size', 'applicant_screening_team_roles'];
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('migrateLegacyTeam', () => {
+  it('should turn the single-team keys into a team and remove them', () => {
+    localStorage.setItem('applicant_screening_team_size', JSON.stringify(3));
+    localStorage.setItem('applicant_screening_shortlisted_team', JSON.stringify([createCandidate('ana'), null, createCandidate('ben')]));
+    localStorage.setItem('applicant_screening_team_roles', JSON.stringify([
+      { id: 'legacy-role', title: 'Frontend', requiredSkills: [{ value: 'React', tier: 'must' }], experienceRequirements: [], educationRequirements: [] },
+    ]));
+
+    const team = migrateLegacyTeam();
+
+    expect(team).toMatchObject({ name: 'My Team', size: 3 });
+    expect(team?.roles.map(role => role.title)).toEqual(['Frontend', 'Role 2', 'Role 3']);
+    expect(team?.roles[0].requiredSkills).toEqual([{ value: 'React', tier: 'must' }]);
+    expect(team?.roles[0].id).not.toBe('legacy-role');
+    expect(getTeamShortlist(team!).map(candidate => candidate?.id ?? null)).toEqual(['ana', null, 'ben']);
+    LEGACY_KEYS.forEach(key => expect(localStorage.getItem(key)).toBeNull());
+
+    // Only migrated once
+    expect(migrateLegacyTeam()).toBeNull();
+  });
+
+  it('should keep the migrated team when teams are loaded twice, as StrictMode does on mount', async () => {
+    const existing = createTeam('Existing');
+    await saveTeamAsync(existing);
+    await saveTeamIdsAsync([existing.id]);
+    localStorage.setItem('applicant_screening_team_size', JSON.stringify(2));
+    localStorage.setItem('applicant_screening_shortlisted_team', JSON.stringify([createCandidate('ana')]));
+
+    // What the app does on mount
+    const loadSavedTeams = () => {
+      migrateLegacyTeam();
+      return { teams: loadTeams(), activeTeamId: loadActiveTeamId() };
+    };
+    const first = loadSavedTeams();
+    const second = loadSavedTeams();
+
+    expect(first.teams.map(team => team.name)).toEqual(['Existing', 'My Team']);
+    expect(first.activeTeamId).toBe(first.teams[1].id);
+    expect(second).toEqual(first);
+    expect(getTeamShortlist(second.teams[1]).map(candidate => candidate.id)).toEqual(['ana']);
+  });
+
+  it('should not create a team when no team size was ever chosen', () => {
+    localStorage.setItem('applicant_screening_shortlisted_team', JSON.stringify([]));
+
+    expect(migrateLegacyTeam()).toBeNull();
+    expect(localStorage.getItem('applicant_screening_shortlisted_team')).toBeNull();
+  });
+});
+
+describe('loadTeams', () => {
+  it('should load saved teams in list order and skip missing ones', async () => {
+    const first = createTeam('First');
+    const second = createTeam('Second');
+    await saveTeamAsync(first);
+    await saveTeamAsync(second);
+    await saveTeamIdsAsync([second.id, 'deleted', first.id]);
+
+    expect(loadTeams().map(team => team.name)).toEqual(['Second', 'First']);
+  });
+});
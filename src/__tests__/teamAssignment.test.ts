@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { I_TeamRole } from '../types';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+import { proposeTeamAssignment, solveAssignment } from '../utils/teamAssignment';
+import { createCandidate } from '../test-utils';
+
+const createRole = (skills: string[], overrides: Partial<I_TeamRole> = {}): I_TeamRole => ({
+  id: `role-${skills.join('-')}`,
+  title: skills.join(', '),
+  requiredSkills: skills.map(value => ({ value, tier: 'nice' as const })),
+  experienceRequirements: [],
+  educationRequirements: [],
+  ...overrides,
+});
+
+const options = { getScoringProfile: () => DEFAULT_SCORING_PROFILES[0] };
+
+describe('solveAssignment', () => {
+  it('should maximize the total instead of picking greedily row by row', () => {
+    // Greedy gives row 0 column 0 (90) and row 1 column 1 (10) = 100; optimal is 80 + 85 = 165
+    expect(solveAssignment([
+      [90, 80],
+      [85, 10],
+    ])).toEqual([1, 0]);
+  });
+
+  it('should leave rows unfilled when no allowed column is left', () => {
+    expect(solveAssignment([
+      [50, null],
+      [60, null],
+    ])).toEqual(expect.arrayContaining([-1, 0]));
+    expect(solveAssignment([[null], [null], [10]])).toEqual([-1, -1, 0]);
+    expect(solveAssignment([])).toEqual([]);
+  });
+});
+
+describe('proposeTeamAssignment', () => {
+  const generalist = createCandidate('generalist', { skills: ['React', 'Python'] });
+  const frontend = createCandidate('frontend', { skills: ['React'] });
+  const candidates = [generalist, frontend, createCandidate('other', { skills: ['PHP'] })];
+
+  it('should give the scarce candidate to the role only they can fill', () => {
+    const roles = [createRole(['React']), createRole(['Python'])];
+    const proposal = proposeTeamAssignment(roles, candidates, options);
+
+    expect(proposal.assignments.map(({ roleIndex, candidate }) => [roleIndex, candidate.id])).toEqual([
+      [0, 'frontend'],
+      [1, 'generalist'],
+    ]);
+    expect(proposal.totalScore).toBe(200);
+  });
+
+  it('should respect locked slots and excluded candidates', () => {
+    const roles = [createRole(['React'], { locked: true, candidate: frontend }), createRole(['React'])];
+    expect(proposeTeamAssignment(roles, candidates, options).assignments).toEqual([
+      expect.objectContaining({ roleIndex: 1, candidate: expect.objectContaining({ id: 'generalist' }) }),
+    ]);
+
+    const excluded = proposeTeamAssignment(roles, candidates, { ...options, excludedCandidateIds: ['generalist'] });
+    expect(excluded.assignments).toEqual([]);
+    expect(excluded.unfilledRoleIndexes).toEqual([1]);
+  });
+
+  it('should skip roles without keywords and leave unchanged slots out', () => {
+    const roles = [createRole([]), createRole(['Python'], { candidate: generalist })];
+    const proposal = proposeTeamAssignment(roles, candidates, options);
+
+    expect(proposal.skippedRoleIndexes).toEqual([0]);
+    expect(proposal.assignments).toEqual([]);
+    expect(proposal.totalScore).toBe(100);
+  });
+});
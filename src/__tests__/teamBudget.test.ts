@@ -0,0 +1,147 @@
+import { afterEach, describe, it, expect } from 'vitest';
+import type { I_Team } from '../types';
+import { createTeam, resizeTeam } from '../utils/teams';
+import { convertTeamCurrency, getAssignmentBudgetWarnings, getBudgetWarnings, getTeamBudgetSummary, parseBudget } from '../utils/teamBudget';
+import { passesRangeFilters } from '../utils/candidateAttributes';
+import { createQueryPredicate, parseFilterQuery } from '../utils/filterQuery';
+import { currencyConverter, DEFAULT_CURRENCY_SETTINGS } from '../utils/currency';
+import { createCandidate } from '../test-utils';
+
+const ana = createCandidate('ana', { annual_salary_expectation: { 'full-time': '$100,000' } });
+const ben = createCandidate('ben', { annual_salary_expectation: { 'part-time': '$40000', 'full-time': '$130000' } });
+const cal = createCandidate('cal');
+
+// Two filled slots (100k within a 110k budget, 130k over a 120k budget) and an empty one
+const createBudgetTeam = (budget?: number): I_Team => {
+  const team = resizeTeam(createTeam('Budget'), 3);
+  return {
+    ...team,
+    budget,
+    roles: [
+      { ...team.roles[0], salaryBudget: 110000, candidate: ana },
+      { ...team.roles[1], salaryBudget: 120000, candidate: ben },
+      { ...team.roles[2], salaryBudget: 90000 },
+    ],
+  };
+};
+
+describe('parseBudget', () => {
+  it('should read amounts and clear the budget for empty or invalid input', () => {
+    expect(parseBudget('120000')).toBe(120000);
+    expect(parseBudget('')).toBeUndefined();
+    expect(parseBudget('-5')).toBeUndefined();
+    expect(parseBudget('abc')).toBeUndefined();
+  });
+});
+
+describe('getTeamBudgetSummary', () => {
+  it('should total the full-time expectations and compare each role with its budget', () => {
+    const summary = getTeamBudgetSummary(createBudgetTeam(250000));
+
+    expect(summary.committed).toBe(230000);
+    expect(summary.remaining).toBe(20000);
+    expect(summary.roles.map(line => line.difference)).toEqual([10000, -10000, null]);
+    expect(summary.roles[2]).toMatchObject({ budget: 90000, salary: null });
+  });
+
+  it('should count selected candidates without a readable expectation', () => {
+    const team = createBudgetTeam();
+    team.roles[2] = { ...team.roles[2], candidate: cal };
+
+    const summary = getTeamBudgetSummary(team);
+    expect(summary.remaining).toBeNull();
+    expect(summary.unknownSalaryCount).toBe(1);
+  });
+});
+
+describe('getBudgetWarnings', () => {
+  it('should warn about the role budget and the team total', () => {
+    const warnings = getBudgetWarnings(createBudgetTeam(330000), 2, createCandidate('dee', { annual_salary_expectation: { 'full-time': '$95000' } }));
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toContain('$5,000 over');
+
+    expect(getBudgetWarnings(createBudgetTeam(330000), 2, createCandidate('eve', { annual_salary_expectation: { 'full-time': '$80000' } }))).toEqual([]);
+    expect(getBudgetWarnings(createBudgetTeam(250000), 2, createCandidate('eve', { annual_salary_expectation: { 'full-time': '$80000' } }))).toEqual([
+      expect.stringContaining('$310,000'),
+    ]);
+  });
+
+  it('should not count the salary of the candidate being replaced', () => {
+    expect(getBudgetWarnings(createBudgetTeam(230000), 1, createCandidate('fay', { annual_salary_expectation: { 'full-time': '$120000' } }))).toEqual([]);
+    expect(getBudgetWarnings(createBudgetTeam(), 0, cal)).toEqual([]);
+  });
+
+  it('should count a candidate moved from another slot once', () => {
+    // Ana's 100k moves from the first slot to the empty third one; the total stays 230k
+    expect(getBudgetWarnings(createBudgetTeam(230000), 2, { ...ana, name: 'Ana' })).toEqual([
+      expect.stringContaining('Ana expects $100,000, $10,000 over'),
+    ]);
+    expect(getBudgetWarnings(createBudgetTeam(229999), 2, ana)).toEqual([
+      expect.stringContaining('over the Role 3 budget'),
+      expect.stringContaining('$230,000'),
+    ]);
+  });
+});
+
+describe('getAssignmentBudgetWarnings', () => {
+  it('should check the team that accepting every assignment would leave', () => {
+    const dee = createCandidate('dee', { annual_salary_expectation: { 'full-time': '$95000' } });
+    const fay = createCandidate('fay', { annual_salary_expectation: { 'full-time': '$105000' } });
+    const assignments = [{ roleIndex: 2, candidate: dee }, { roleIndex: 0, candidate: fay }];
+
+    expect(getAssignmentBudgetWarnings(createBudgetTeam(330000), assignments)).toEqual([
+      expect.stringContaining('dee expects $95,000, $5,000 over the Role 3 budget'),
+    ]);
+    expect(getAssignmentBudgetWarnings(createBudgetTeam(320000), assignments)).toEqual([
+      expect.stringContaining('Role 3 budget'),
+      expect.stringContaining('total $330,000, $10,000 over'),
+    ]);
+  });
+
+  it('should count candidates moved between slots once', () => {
+    const dee = createCandidate('dee', { annual_salary_expectation: { 'full-time': '$95000' } });
+    const team = createBudgetTeam(325000);
+    team.roles[2] = { ...team.roles[2], salaryBudget: 130000 };
+
+    expect(getAssignmentBudgetWarnings(team, [{ roleIndex: 1, candidate: dee }, { roleIndex: 2, candidate: ben }])).toEqual([]);
+  });
+});
+
+describe('convertTeamCurrency', () => {
+  afterEach(() => {
+    currencyConverter.setSettings(DEFAULT_CURRENCY_SETTINGS);
+  });
+
+  it('should keep budget warnings and salary filter matches when the reporting currency changes', () => {
+    const settings = { reportingCurrency: 'USD', rates: { USD: 1, EUR: 0.8, INR: 83 } };
+    currencyConverter.setSettings(settings);
+    const base = createBudgetTeam(250000);
+    const team: I_Team = {
+      ...base,
+      roles: base.roles.map((role, index) => index === 2
+        ? { ...role, rangeFilters: { minSalary: 90000, maxSalary: 120000 }, filterQuery: 'salary:<120000 AND salary:(>90k OR "<€50k")' }
+        : role),
+    };
+    const eve = createCandidate('eve', { annual_salary_expectation: { 'full-time': '$80000' } });
+    const check = (checked: I_Team) => {
+      const { rangeFilters, filterQuery = '' } = checked.roles[2];
+      const matchesQuery = createQueryPredicate(parseFilterQuery(filterQuery).node!);
+      return {
+        warnings: getBudgetWarnings(checked, 2, eve).length,
+        inRange: [ana, ben].map(candidate => passesRangeFilters(candidate, rangeFilters)),
+        matchesQuery: [ana, ben].map(matchesQuery),
+      };
+    };
+    const before = check(team);
+    expect(before).toEqual({ warnings: 1, inRange: [true, false], matchesQuery: [true, false] });
+
+    currencyConverter.setSettings({ ...settings, reportingCurrency: 'INR' });
+    const converted = convertTeamCurrency(team, 'USD', 'INR');
+
+    expect(converted.budget).toBe(20750000);
+    expect(converted.roles.map(role => role.salaryBudget)).toEqual([9130000, 9960000, 7470000]);
+    expect(converted.roles[2].rangeFilters).toEqual({ minSalary: 7470000, maxSalary: 9960000 });
+    expect(converted.roles[2].filterQuery).toBe('salary:<USD120000 AND salary:(>USD90k OR "<€50k")');
+    expect(check(converted)).toEqual(before);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore, I_ScoreExplanation, I_Team, I_TeamRole } from '../types';
+import {
+  describeScoreExplanation,
+  exportTeamCsv,
+  exportTeamHtml,
+  exportTeamJson,
+  exportTeamMarkdown,
+  getTeamExportFileName,
+  getTeamExportMembers,
+} from '../utils/teamExport';
+
+const explanation: I_ScoreExplanation = {
+  scoringProfileName: 'Balanced',
+  skills: {
+    active: true,
+    matchedKeywords: ['React'],
+    missedKeywords: ['Go'],
+    matchedValues: ['React'],
+    matchPercentage: 50,
+    baseWeight: 0.5,
+    effectiveWeight: 1,
+    points: 5,
+  },
+  experience: { active: false, matchedKeywords: [], missedKeywords: [], matchedValues: [], matchPercentage: 0, baseWeight: 0.3, effectiveWeight: 0, points: 0 },
+  education: { active: false, matchedKeywords: [], missedKeywords: [], matchedValues: [], matchPercentage: 0, baseWeight: 0.2, effectiveWeight: 0, points: 0 },
+  educationTier: 'standard',
+  educationTierBonus: 0,
+};
+
+const ana: I_CandidateWithScore = {
+  id: 'ana',
+  name: 'Ana "AJ" Jones',
+  email: 'ana@example.com',
+  phone: '+1 555 0100',
+  location: 'Austin, TX',
+  submitted_at: '',
+  work_availability: ['full-time'],
+  annual_salary_expectation: { 'full-time': '$120000' },
+  work_experiences: [{ company: 'Acme', roleName: 'Frontend Engineer' }],
+  education: {
+    highest_level: "Bachelor's Degree",
+    degrees: [{ degree: "Bachelor's Degree", subject: 'Computer Science', school: 'UT Austin', gpa: '3.8', startDate: '', endDate: '', originalSchool: '', isTop50: true }],
+  },
+  skills: ['React', 'TypeScript'],
+  score: 7.25,
+  scoreExplanation: explanation,
+};
+
+const createRole = (title: string, candidate?: I_CandidateWithScore): I_TeamRole => ({
+  id: `role-${title}`,
+  title,
+  requiredSkills: [],
+  experienceRequirements: [],
+  educationRequirements: [],
+  candidate,
+});
+
+const team: I_Team = {
+  id: 'team-1',
+  name: 'Web Platform | 2026',
+  size: 2,
+  roles: [createRole('Frontend', ana), createRole('Backend')],
+  createdAt: '',
+  updatedAt: '',
+  budget: 200000,
+};
+
+const exportedAt = new Date('2026-03-14T12:00:00Z');
+
+describe('describeScoreExplanation', () => {
+  it('should summarize active categories and the profile', () => {
+    expect(describeScoreExplanation(explanation)).toBe('Skills 50% (React; missing Go) · Profile: Balanced');
+    expect(describeScoreExplanation(undefined)).toBe('');
+  });
+});
+
+describe('getTeamExportMembers', () => {
+  it('should describe each filled role slot', () => {
+    expect(getTeamExportMembers(team)).toEqual([{
+      role: 'Frontend',
+      name: 'Ana "AJ" Jones',
+      email: 'ana@example.com',
+      phone: '+1 555 0100',
+      location: 'Austin, TX',
+      score: 7.25,
+      scoreExplanation: 'Skills 50% (React; missing Go) · Profile: Balanced',
+      skills: ['React', 'TypeScript'],
+      education: ["Bachelor's Degree, Computer Science at UT Austin (GPA 3.8)"],
+      experience: ['Frontend Engineer at Acme'],
+      salaryExpectation: expect.stringMatching(/^Full-time: \$120,000$/),
+      salary: 120000,
+    }]);
+  });
+});
+
+describe('exportTeamCsv', () => {
+  it('should quote fields with separators and quotes but leave phone numbers alone', () => {
+    const [header, row] = exportTeamCsv(team).split('\r\n');
+    expect(header).toBe('Role,Name,Email,Phone,Location,Score,Score Explanation,Skills,Education,Experience,Salary Expectation,Salary (USD)');
+    expect(row).toContain('Frontend,"Ana ""AJ"" Jones",ana@example.com,+1 555 0100,"Austin, TX",7.3,');
+    expect(row).toMatch(/,120000$/);
+  });
+
+  it('should neutralize cells a spreadsheet would run as formulas', () => {
+    const csv = exportTeamCsv({ ...team, roles: [createRole('=HYPERLINK("x")', ana)] });
+    expect(csv.split('\r\n')[1].startsWith(`"'=HYPERLINK(""x"")"`)).toBe(true);
+  });
+});
+
+describe('exportTeamJson', () => {
+  it('should include the structured breakdown and open roles', () => {
+    const exported = JSON.parse(exportTeamJson(team, exportedAt));
+    expect(exported).toMatchObject({
+      team: 'Web Platform | 2026',
+      exportedAt: '2026-03-14T12:00:00.000Z',
+      reportingCurrency: 'USD',
+      budget: 200000,
+      totalSalaries: 120000,
+      openRoles: ['Backend'],
+    });
+    expect(exported.members[0].candidate).toEqual({ id: 'ana', name: 'Ana "AJ" Jones', email: 'ana@example.com', phone: '+1 555 0100', location: 'Austin, TX' });
+    expect(exported.members[0].scoreExplanation.scoringProfileName).toBe('Balanced');
+  });
+});
+
+describe('exportTeamMarkdown', () => {
+  it('should write a summary table and a section per member', () => {
+    const markdown = exportTeamMarkdown(team, exportedAt);
+    expect(markdown.startsWith('# Web Platform | 2026\n')).toBe(true);
+    expect(markdown).toContain('1 of 2 roles filled');
+    expect(markdown).toContain('| Frontend | Ana "AJ" Jones | 7.3 | ana@example.com | Austin, TX | $120,000 |');
+    expect(markdown).toContain('Open roles: Backend');
+    expect(markdown).toContain('## Frontend: Ana "AJ" Jones');
+  });
+});
+
+describe('exportTeamHtml', () => {
+  it('should escape candidate text in a printable page', () => {
+    const html = exportTeamHtml({ ...team, roles: [createRole('<Lead>', ana)] }, exportedAt);
+    expect(html).toContain('<!DOCTYPE html>');
+    expect(html).toContain('&lt;Lead&gt;: Ana &quot;AJ&quot; Jones');
+    expect(html).not.toContain('<Lead>');
+    expect(html).toContain('@page');
+  });
+});
+
+describe('getTeamExportFileName', () => {
+  it('should turn the team name into a file name', () => {
+    expect(getTeamExportFileName(team, 'csv')).toBe('web-platform-2026.csv');
+    expect(getTeamExportFileName(undefined, 'md')).toBe('team.md');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import type { I_CandidateWithScore } from '../types';
+import { createCandidateMatcher, createTeam, duplicateTeam, getTeamShortlist, relinkTeamCandidates, resizeTeam, setTeamShortlist } from '../utils/teams';
+import { createCandidate } from '../test-utils';
+
+// Candidates are the same person unless a test says otherwise
+const JANE: Partial<I_CandidateWithScore> = {
+  name: 'Jane Doe',
+  email: 'jane@example.com',
+  submitted_at: '2025-01-26 10:00:00.000000',
+};
+
+describe('createTeam', () => {
+  it('should create an empty team with a unique ID', () => {
+    const team = createTeam('Platform');
+    expect(team).toMatchObject({ name: 'Platform', size: 0, roles: [] });
+    expect(createTeam('Platform').id).not.toBe(team.id);
+  });
+});
+
+describe('resizeTeam', () => {
+  it('should add numbered role slots and trim them with their candidates', () => {
+    const team = resizeTeam(createTeam('Team'), 3);
+    expect(team.roles.map(role => role.title)).toEqual(['Role 1', 'Role 2', 'Role 3']);
+
+    const filled = setTeamShortlist(team, [createCandidate('a', JANE), createCandidate('b', JANE), createCandidate('c', JANE)]);
+    const trimmed = resizeTeam(filled, 2);
+    expect(trimmed.size).toBe(2);
+    expect(trimmed.roles.map(role => role.candidate?.id)).toEqual(['a', 'b']);
+    expect(trimmed.roles[0].id).toBe(team.roles[0].id);
+  });
+});
+
+describe('getTeamShortlist', () => {
+  it('should keep gaps between filled roles and drop trailing empty ones', () => {
+    const team = setTeamShortlist(resizeTeam(createTeam('Team'), 4), [
+      createCandidate('a', JANE),
+      null as unknown as I_CandidateWithScore,
+      createCandidate('c', JANE),
+    ]);
+
+    expect(getTeamShortlist(team).map(candidate => candidate?.id ?? null)).toEqual(['a', null, 'c']);
+    expect(getTeamShortlist(resizeTeam(createTeam('Empty'), 2))).toEqual([]);
+    expect(getTeamShortlist(undefined)).toEqual([]);
+  });
+});
+
+describe('duplicateTeam', () => {
+  it('should copy roles and candidates under fresh IDs', () => {
+    const team = { ...setTeamShortlist(resizeTeam(createTeam('Team'), 2), [createCandidate('a', JANE)]), excludedCandidateIds: ['x'] };
+    const copy = duplicateTeam(team, 'Team (copy)');
+
+    expect(copy).toMatchObject({ name: 'Team (copy)', size: 2, excludedCandidateIds: ['x'] });
+    expect(copy.id).not.toBe(team.id);
+    expect(copy.roles.map(role => role.id)).not.toContain(team.roles[0].id);
+    expect(getTeamShortlist(copy).map(candidate => candidate.id)).toEqual(['a']);
+  });
+});
+
+describe('createCandidateMatcher', () => {
+  const pool = [
+    createCandidate('cand-1', { ...JANE, skills: ['React'] }),
+    createCandidate('cand-2', { ...JANE, name: 'Bob Stone', submitted_at: '2025-01-27 10:00:00.000000' }),
+    createCandidate('cand-3', { ...JANE, name: 'Ann Lee', email: 'ann@example.com', mergedIds: ['cand-3', 'cand-old'] }),
+  ];
+  const findCandidate = createCandidateMatcher(pool);
+
+  it('should match by ID, including IDs merged into another record', () => {
+    expect(findCandidate(createCandidate('cand-1', JANE))?.id).toBe('cand-1');
+    expect(findCandidate(createCandidate('cand-old', { ...JANE, email: 'x@example.com' }))?.id).toBe('cand-3');
+  });
+
+  it('should fall back to email and name for IDs from older versions', () => {
+    expect(findCandidate(createCandidate('jane-example-com-4', { ...JANE, name: 'Bob Stone' }))?.id).toBe('cand-2');
+    expect(findCandidate(createCandidate('ann-example-com-9', { ...JANE, name: 'Ann L.', email: 'ann@example.com' }))?.id).toBe('cand-3');
+    // Shared email and no matching name: too ambiguous to guess
+    expect(findCandidate(createCandidate('old', { ...JANE, name: 'Someone Else' }))).toBeUndefined();
+  });
+});
+
+describe('relinkTeamCandidates', () => {
+  const team = setTeamShortlist(resizeTeam(createTeam('Team'), 2), [
+    createCandidate('jane-example-com-0', { ...JANE, skillScore: 80 }),
+    createCandidate('gone', { ...JANE, name: 'Gone', email: 'gone@example.com' }),
+  ]);
+
+  it('should swap snapshots for current records and keep selection scores', () => {
+    const fresh = createCandidate('cand-1', { ...JANE, skills: ['React'] });
+    const relinked = relinkTeamCandidates(team, createCandidateMatcher([fresh]));
+
+    expect(relinked.roles[0].candidate).toMatchObject({ id: 'cand-1', skills: ['React'], skillScore: 80 });
+    expect(relinked.roles[1].candidate).toBe(team.roles[1].candidate);
+  });
+
+  it('should return the same team when nothing changed', () => {
+    const relinked = relinkTeamCandidates(team, createCandidateMatcher([]));
+    expect(relinked).toBe(team);
+    const again = relinkTeamCandidates(relinked, createCandidateMatcher(relinked.roles.flatMap(role => role.candidate ?? [])));
+    expect(again).toBe(relinked);
+  });
+});
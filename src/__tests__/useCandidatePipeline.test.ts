@@ -0,0 +1,39 @@
+import { renderHook, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import type { I_CandidateWithScore } from '../types';
+import { DEFAULT_SCORING_PROFILES } from '../constants';
+import { DEFAULT_CURRENCY_SETTINGS } from '../utils/currency';
+import { useCandidatePipeline } from '../hooks/useCandidatePipeline';
+import { createCandidate } from '../test-utils';
+
+const appContext = vi.hoisted(() => ({
+  candidates: [] as I_CandidateWithScore[],
+  skillTaxonomyEntries: [],
+  currencySettings: {} as typeof DEFAULT_CURRENCY_SETTINGS,
+}));
+
+vi.mock('../hooks/useAppContext', () => ({ useAppContext: () => appContext }));
+
+const request = {
+  roleFilters: { skills: [{ value: 'React', tier: 'nice' as const }], experience: [], education: [] },
+  scoringProfile: DEFAULT_SCORING_PROFILES[0],
+  excludedCandidateIds: [],
+};
+
+describe('useCandidatePipeline', () => {
+  it('should score a new pool on the main thread without reusing scores of candidates keeping their ID', async () => {
+    expect(typeof Worker).toBe('undefined');
+    appContext.currencySettings = DEFAULT_CURRENCY_SETTINGS;
+    appContext.candidates = [createCandidate('ana', { skills: ['PHP'] }), createCandidate('ben', { skills: ['React'] })];
+
+    const { result, rerender } = renderHook(() => useCandidatePipeline(request));
+    await waitFor(() => expect(result.current.isProcessing).toBe(false));
+    expect(result.current.candidates.map(candidate => [candidate.id, candidate.score])).toEqual([['ben', 100], ['ana', 0]]);
+
+    // An import replaced Ana's record, keeping her ID
+    appContext.candidates = [createCandidate('ana', { skills: ['React'] }), appContext.candidates[1]];
+    rerender();
+    await waitFor(() => expect(result.current.candidates.find(candidate => candidate.id === 'ana')?.score).toBe(100));
+    expect(result.current.candidates[0].skills).toEqual(['React']);
+  });
+});
@@ -26,6 +26,26 @@ const Layout = () => {
             >
               Team Builder
             </NavLink>
+            <NavLink 
+              to="/teams" 
+              className={({ isActive }) => 
+                isActive 
+                  ? 'font-bold border-b-2 border-white pb-1 px-2' 
+                  : 'hover:text-gray-300 transition-colors px-2 py-1 rounded hover:bg-slate-700'
+              }
+            >
+              Teams
+            </NavLink>
+            <NavLink 
+              to="/settings" 
+              className={({ isActive }) => 
+                isActive 
+                  ? 'font-bold border-b-2 border-white pb-1 px-2' 
+                  : 'hover:text-gray-300 transition-colors px-2 py-1 rounded hover:bg-slate-700'
+              }
+            >
+              Settings
+            </NavLink>
           </nav>
         </div>
       </header>
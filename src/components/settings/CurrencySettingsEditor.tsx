@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BASE_CURRENCY, EXCHANGE_RATES_AS_OF, isCurrencyCode, type I_CurrencySettings } from "@/utils/currency";
+import { Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useState } from "react";
+
+interface I_CurrencySettingsEditorProps {
+  settings: I_CurrencySettings;
+  onChange: (settings: I_CurrencySettings) => void;
+  onReset: () => void;
+}
+
+const readRate = (value: string): number | null => {
+  const rate = parseFloat(value);
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+/**
+ * Editor for the reporting currency and the exchange rates salaries are converted with
+ * Rates are saved when they lose focus so typing does not re-filter candidates on every key
+ */
+const CurrencySettingsEditor = ({ settings, onChange, onReset }: I_CurrencySettingsEditorProps) => {
+  const [newCode, setNewCode] = useState<string>('');
+  const [newRate, setNewRate] = useState<string>('');
+
+  const codes = Object.keys(settings.rates).sort();
+  const normalizedNewCode = newCode.trim().toUpperCase();
+  const newCodeError = normalizedNewCode && !isCurrencyCode(normalizedNewCode)
+    ? 'Use a three-letter code such as EUR'
+    : settings.rates[normalizedNewCode] ? `${normalizedNewCode} already has a rate` : null;
+  const canAdd = !!normalizedNewCode && !newCodeError && readRate(newRate) !== null;
+
+  const updateRate = (code: string, value: string) => {
+    const rate = readRate(value);
+    if (rate === null || rate === settings.rates[code]) return;
+    onChange({ ...settings, rates: { ...settings.rates, [code]: rate } });
+  };
+
+  const deleteRate = (code: string) => {
+    const rates = { ...settings.rates };
+    delete rates[code];
+    onChange({ ...settings, rates });
+  };
+
+  const addRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = readRate(newRate);
+    if (!canAdd || rate === null) return;
+    onChange({ ...settings, rates: { ...settings.rates, [normalizedNewCode]: rate } });
+    setNewCode('');
+    setNewRate('');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div className="w-full sm:max-w-xs">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reporting currency</label>
+          <Select
+            value={settings.reportingCurrency}
+            onValueChange={(reportingCurrency) => onChange({ ...settings, reportingCurrency })}
+          >
+            <SelectTrigger className="w-full" aria-label="Reporting currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {codes.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button size="sm" variant="outline" onClick={onReset}>
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset to bundled
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-[6rem_1fr_auto] gap-2 text-xs font-medium text-gray-500 mb-2">
+          <span>Currency</span>
+          <span>Units per 1 {BASE_CURRENCY}</span>
+          <span className="w-8" />
+        </div>
+        <div className="space-y-2 max-h-[24rem] overflow-y-auto">
+          {codes.map(code => (
+            // Keyed on content so inputs pick up external changes such as a reset
+            <div key={`${code}-${settings.rates[code]}`} className="grid grid-cols-[6rem_1fr_auto] gap-2 items-center">
+              <span className="text-sm font-medium text-gray-900">{code}</span>
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                defaultValue={settings.rates[code]}
+                disabled={code === BASE_CURRENCY}
+                aria-label={`${code} rate`}
+                onBlur={(e) => updateRate(code, e.target.value)}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => deleteRate(code)}
+                disabled={code === BASE_CURRENCY || code === settings.reportingCurrency}
+                aria-label={`Delete ${code}`}
+              >
+                <Trash2 className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {/* New currency */}
+        <form onSubmit={addRate} className="grid grid-cols-[6rem_1fr_auto] gap-2 items-start mt-3 pt-3 border-t">
+          <Input
+            value={newCode}
+            onChange={(e) => setNewCode(e.target.value)}
+            placeholder="Code"
+            maxLength={3}
+            aria-label="New currency code"
+            aria-invalid={!!newCodeError}
+          />
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            value={newRate}
+            onChange={(e) => setNewRate(e.target.value)}
+            placeholder={`Units per 1 ${BASE_CURRENCY}`}
+            aria-label="New currency rate"
+          />
+          <Button type="submit" size="sm" disabled={!canAdd}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </form>
+        {newCodeError && <p className="text-xs text-red-600 mt-1">{newCodeError}</p>}
+
+        <p className="text-xs text-gray-500 mt-3">
+          Bundled rates are from {EXCHANGE_RATES_AS_OF} and are not updated automatically. Salary filters and budgets are
+          entered in the reporting currency and are converted along with it when it changes.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CurrencySettingsEditor;
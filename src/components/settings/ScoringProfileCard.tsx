@@ -0,0 +1,120 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { I_ScoringProfile } from "@/types/Candidate";
+import { Copy, Trash2 } from "lucide-react";
+
+interface I_ScoringProfileCardProps {
+  profile: I_ScoringProfile;
+  isDefault: boolean;
+  usageCount: number;
+  onChange: (updates: Partial<Omit<I_ScoringProfile, 'id'>>) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+const WEIGHT_FIELDS = [
+  { key: 'skills', label: 'Skills' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'education', label: 'Education' },
+] as const;
+
+const PRESTIGE_FIELDS = [
+  { key: 'top50', label: 'Education (Top 50 school)' },
+  { key: 'top25', label: 'Education (Top 25 school)' },
+] as const;
+
+/**
+ * Editor for a single scoring profile
+ * Weights are relative; the share each category gets is shown below the inputs
+ */
+const ScoringProfileCard = ({ profile, isDefault, usageCount, onChange, onDuplicate, onDelete }: I_ScoringProfileCardProps) => {
+  const parseWeight = (value: string): number => {
+    const weight = parseFloat(value);
+    return Number.isFinite(weight) && weight >= 0 ? weight : 0;
+  };
+
+  const totalWeight = profile.weights.skills + profile.weights.experience + profile.weights.education;
+  const formatShare = (weight: number) => totalWeight > 0 ? `${Math.round((weight / totalWeight) * 100)}%` : '0%';
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-3">
+        <div className="flex items-center gap-2 flex-1">
+          <Input
+            value={profile.name}
+            onChange={(e) => onChange({ name: e.target.value })}
+            aria-label="Profile name"
+            className="max-w-xs font-medium"
+          />
+          {isDefault && <Badge className="bg-blue-100 text-blue-800">Default</Badge>}
+          <span className="text-xs text-gray-500">
+            Used by {usageCount} {usageCount === 1 ? 'role' : 'roles'}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onDuplicate}>
+            <Copy className="h-3 w-3 mr-1" />
+            Duplicate
+          </Button>
+          {!isDefault && (
+            <Button size="sm" variant="outline" onClick={onDelete}>
+              <Trash2 className="h-3 w-3 mr-1" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {WEIGHT_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <Label htmlFor={`${profile.id}-${key}`} className="text-sm text-gray-600 mb-1">
+                {label} weight
+              </Label>
+              <Input
+                id={`${profile.id}-${key}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={profile.weights[key]}
+                onChange={(e) => onChange({ weights: { ...profile.weights, [key]: parseWeight(e.target.value) } })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {PRESTIGE_FIELDS.map(({ key, label }) => (
+            <div key={key}>
+              <Label htmlFor={`${profile.id}-${key}`} className="text-sm text-gray-600 mb-1">
+                {label}
+              </Label>
+              <Input
+                id={`${profile.id}-${key}`}
+                type="number"
+                min={0}
+                step={0.05}
+                value={profile.prestigeEducationWeights[key]}
+                onChange={(e) => onChange({
+                  prestigeEducationWeights: { ...profile.prestigeEducationWeights, [key]: parseWeight(e.target.value) },
+                })}
+              />
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-gray-500">
+          With every category filtered: skills {formatShare(profile.weights.skills)},
+          experience {formatShare(profile.weights.experience)},
+          education {formatShare(profile.weights.education)}.
+          Candidates with a Top 50 or Top 25 degree use the matching education weight instead.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScoringProfileCard;
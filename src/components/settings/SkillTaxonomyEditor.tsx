@@ -0,0 +1,124 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { I_SkillTaxonomyEntry } from "@/utils/skillTaxonomy";
+import { Plus, RotateCcw, Search, Trash2 } from "lucide-react";
+import { useMemo, useState } from "react";
+
+interface I_SkillTaxonomyEditorProps {
+  entries: I_SkillTaxonomyEntry[];
+  onChange: (entries: I_SkillTaxonomyEntry[]) => void;
+  onReset: () => void;
+}
+
+const parseList = (value: string): string[] =>
+  value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Editor for the skill synonyms and hierarchy used when matching skill keywords
+ * Fields are saved when they lose focus so typing does not re-score candidates on every key
+ */
+const SkillTaxonomyEditor = ({ entries, onChange, onReset }: I_SkillTaxonomyEditorProps) => {
+  const [searchTerm, setSearchTerm] = useState<string>('');
+
+  const visibleEntries = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => !term || [entry.name, ...entry.aliases, ...entry.parents].some(value =>
+        value.toLowerCase().includes(term)
+      ));
+  }, [entries, searchTerm]);
+
+  const updateEntry = (index: number, updates: Partial<I_SkillTaxonomyEntry>) => {
+    const current = entries[index];
+    const updated = { ...current, ...updates };
+    if (JSON.stringify(updated) === JSON.stringify(current)) return;
+    onChange(entries.map((entry, entryIndex) => entryIndex === index ? updated : entry));
+  };
+
+  const addEntry = () => {
+    setSearchTerm('');
+    onChange([{ name: `New skill ${entries.length + 1}`, aliases: [], parents: [] }, ...entries]);
+  };
+
+  const deleteEntry = (index: number) => {
+    onChange(entries.filter((_, entryIndex) => entryIndex !== index));
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="relative w-full sm:max-w-xs">
+          <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search skills, aliases or parents..."
+            className="pl-8"
+          />
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={onReset}>
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Reset to bundled
+          </Button>
+          <Button size="sm" onClick={addEntry}>
+            <Plus className="h-3 w-3 mr-1" />
+            Add Skill
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="hidden md:grid grid-cols-[1fr_2fr_1.5fr_auto] gap-2 text-xs font-medium text-gray-500 mb-2">
+          <span>Skill</span>
+          <span>Aliases (comma separated)</span>
+          <span>Parents (comma separated)</span>
+          <span className="w-8" />
+        </div>
+        <div className="space-y-2 max-h-[32rem] overflow-y-auto">
+          {visibleEntries.map(({ entry, index }) => (
+            // Keyed on content so inputs pick up external changes such as a reset
+            <div
+              key={`${index}-${entry.name}-${entry.aliases.join(',')}-${entry.parents.join(',')}`}
+              className="grid grid-cols-1 md:grid-cols-[1fr_2fr_1.5fr_auto] gap-2 items-center"
+            >
+              <Input
+                defaultValue={entry.name}
+                aria-label="Skill name"
+                onBlur={(e) => e.target.value.trim() && updateEntry(index, { name: e.target.value.trim() })}
+              />
+              <Input
+                defaultValue={entry.aliases.join(', ')}
+                aria-label={`${entry.name} aliases`}
+                onBlur={(e) => updateEntry(index, { aliases: parseList(e.target.value) })}
+              />
+              <Input
+                defaultValue={entry.parents.join(', ')}
+                aria-label={`${entry.name} parents`}
+                onBlur={(e) => updateEntry(index, { parents: parseList(e.target.value) })}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => deleteEntry(index)}
+                aria-label={`Delete ${entry.name}`}
+              >
+                <Trash2 className="h-4 w-4 text-gray-500" />
+              </Button>
+            </div>
+          ))}
+          {visibleEntries.length === 0 && (
+            <p className="text-sm text-gray-500 py-4 text-center">No skills match your search</p>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-3">
+          {entries.length} skills. A skill keyword also matches its aliases and, unless set to exact, every skill listed under it (e.g. "Frontend" matches React).
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SkillTaxonomyEditor;
@@ -0,0 +1,50 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle } from "lucide-react";
+
+interface I_BudgetWarningModalProps {
+  isOpen: boolean;
+  action: string; // What is being confirmed, e.g. "Selecting Ada Lovelace for Frontend"
+  warnings: string[];
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Budget warning modal component
+ * Asks for confirmation before candidates are put in slots that take a role or the team over budget
+ */
+const BudgetWarningModal = ({ isOpen, action, warnings, onConfirm, onCancel }: I_BudgetWarningModalProps) => {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Over budget
+          </DialogTitle>
+          <DialogDescription>
+            {action} breaks the budget:
+          </DialogDescription>
+        </DialogHeader>
+
+        <ul className="list-disc pl-5 space-y-1 text-sm text-gray-700">
+          {warnings.map(warning => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="button" className="bg-amber-600 hover:bg-amber-700 text-white" onClick={onConfirm}>
+            Select anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BudgetWarningModal;
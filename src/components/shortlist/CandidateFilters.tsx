@@ -1,12 +1,15 @@
-import { useCallback } from "react";
+import { useCallback, useMemo } from "react";
 import { Button } from "../ui/button";
 import KeywordInput from "./KeywordInput";
-
-export interface I_RoleFilters {
-  skills: string[];
-  education: string[];
-  experience: string[];
-}
+import RangeFilterInputs from "./RangeFilterInputs";
+import LocationFilterInputs from "./LocationFilterInputs";
+import FilterQueryInput from "./FilterQueryInput";
+import type { I_FilterKeyword, I_LocationFilters, I_RangeFilters, I_RoleFilters } from "@/types";
+import { countRangeFilters } from "@/utils/candidateAttributes";
+import { countLocationFilters } from "@/utils/candidateLocation";
+import { getKeywordSuggestions, type I_KeywordSuggestion } from "@/utils/keywordSuggestions";
+import { DEFAULT_KEYWORD_MATCH_MODES, type T_KeywordCategory } from "@/utils/keywordMatching";
+import { useAppContext } from "@/hooks/useAppContext";
 
 interface I_CandidateFiltersProps {
   roleFilters: I_RoleFilters;
@@ -16,30 +19,53 @@ interface I_CandidateFiltersProps {
 
 /**
  * Candidate filters component
- * Provides filtering options for skills, experience, and education
+ * Provides keyword filters for skills, experience, and education, range filters for
+ * salary, GPA, experience count and degree level, location and availability filters,
+ * and a boolean query that is combined with all of them
  */
 const CandidateFilters = ({ roleFilters, onFilterChange, isVisible }: I_CandidateFiltersProps) => {
+  const { candidates } = useAppContext();
+
+  // Suggestions are counted against the role's current filters, so they change with them
+  const suggestionGetters = useMemo(() => {
+    const getSuggestions = (category: T_KeywordCategory) => (query: string): I_KeywordSuggestion[] =>
+      getKeywordSuggestions(candidates, roleFilters, category, query);
+    return { skills: getSuggestions('skills'), experience: getSuggestions('experience'), education: getSuggestions('education') };
+  }, [candidates, roleFilters]);
 
   // make a generic function to handle all the above three functions
-  const handleFilterChange = useCallback((filterType: 'skills' | 'experience' | 'education', value: string[]) => {
+  const handleFilterChange = useCallback((filterType: 'skills' | 'experience' | 'education', value: I_FilterKeyword[]) => {
     onFilterChange({ ...roleFilters, [filterType]: value });
   }, [roleFilters, onFilterChange]);
 
+  const handleRangesChange = useCallback((ranges: I_RangeFilters) => {
+    onFilterChange({ ...roleFilters, ranges });
+  }, [roleFilters, onFilterChange]);
+
+  const handleLocationChange = useCallback((location: I_LocationFilters) => {
+    onFilterChange({ ...roleFilters, location });
+  }, [roleFilters, onFilterChange]);
+
+  const handleQueryChange = useCallback((query: string) => {
+    onFilterChange({ ...roleFilters, query });
+  }, [roleFilters, onFilterChange]);
+
   const clearAllFilters = useCallback(() => {
-    onFilterChange({ skills: [], education: [], experience: [] });
+    onFilterChange({ skills: [], education: [], experience: [], ranges: {}, location: {}, query: '' });
   }, [onFilterChange]);
 
-  const totalFiltersCount = roleFilters.skills.length + roleFilters.experience.length + roleFilters.education.length;
+  const totalFiltersCount = roleFilters.skills.length + roleFilters.experience.length + roleFilters.education.length
+    + countRangeFilters(roleFilters.ranges) + countLocationFilters(roleFilters.location) + (roleFilters.query?.trim() ? 1 : 0);
 
   const filters = {
-    skills: { label: 'Skills', keywords: roleFilters.skills, onKeywordsChange: (keywords: string[]) => handleFilterChange('skills', keywords), placeholder: 'e.g., React, Python, JavaScript', inputClassName: 'border-blue-200 focus:border-blue-500' },
-    experience: { label: 'Experience', keywords: roleFilters.experience, onKeywordsChange: (keywords: string[]) => handleFilterChange('experience', keywords), placeholder: 'e.g., Senior, Lead, Manager', inputClassName: 'border-green-200 focus:border-green-500' },
-    education: { label: 'Education', keywords: roleFilters.education, onKeywordsChange: (keywords: string[]) => handleFilterChange('education', keywords), placeholder: 'e.g., Computer Science, Engineering', inputClassName: 'border-purple-200 focus:border-purple-500' },
+    skills: { label: 'Skills', keywords: roleFilters.skills, onKeywordsChange: (keywords: I_FilterKeyword[]) => handleFilterChange('skills', keywords), placeholder: 'e.g., React, Python, JavaScript', inputClassName: 'border-blue-200 focus:border-blue-500', getSuggestions: suggestionGetters.skills },
+    experience: { label: 'Experience', keywords: roleFilters.experience, onKeywordsChange: (keywords: I_FilterKeyword[]) => handleFilterChange('experience', keywords), placeholder: 'e.g., Senior, Lead, Manager', inputClassName: 'border-green-200 focus:border-green-500', getSuggestions: suggestionGetters.experience },
+    education: { label: 'Education', keywords: roleFilters.education, onKeywordsChange: (keywords: I_FilterKeyword[]) => handleFilterChange('education', keywords), placeholder: 'e.g., Computer Science, Engineering', inputClassName: 'border-purple-200 focus:border-purple-500', getSuggestions: suggestionGetters.education },
   };
 
-  const renderFilters = (filters: { [key: string]: { label: string; keywords: string[]; onKeywordsChange: (keywords: string[]) => void; placeholder: string; inputClassName: string } }) => {
+  const renderFilters = (filters: { [key: string]: { label: string; keywords: I_FilterKeyword[]; onKeywordsChange: (keywords: I_FilterKeyword[]) => void; placeholder: string; inputClassName: string; getSuggestions: (query: string) => I_KeywordSuggestion[] } }) => {
     return Object.entries(filters).map(([key, value]) => {
-      return <KeywordInput key={key} label={value.label} keywords={value.keywords} onKeywordsChange={value.onKeywordsChange} placeholder={value.placeholder} inputClassName={value.inputClassName} />
+      return <KeywordInput key={key} label={value.label} keywords={value.keywords} onKeywordsChange={value.onKeywordsChange} placeholder={value.placeholder} defaultMatchMode={DEFAULT_KEYWORD_MATCH_MODES[key as T_KeywordCategory]} inputClassName={value.inputClassName} getSuggestions={value.getSuggestions} />
     });
   };
 
@@ -52,7 +78,8 @@ const CandidateFilters = ({ roleFilters, onFilterChange, isVisible }: I_Candidat
         <div>
           <h3 className="text-sm font-medium text-gray-900">Candidate Filters</h3>
           <p className="text-xs text-gray-600 mt-1">
-            Add keywords to filter candidates
+            Must-have keywords filter candidates, nice-to-have keywords add score, excluded keywords remove matches.
+            Ranges filter by salary, GPA, experience and degree; location and availability can be required or preferred
           </p>
         </div>
         {totalFiltersCount > 0 && (
@@ -69,6 +96,15 @@ const CandidateFilters = ({ roleFilters, onFilterChange, isVisible }: I_Candidat
 
       {/* Skills Filter */}
       {renderFilters(filters)}
+
+      {/* Range Filters */}
+      <RangeFilterInputs ranges={roleFilters.ranges ?? {}} onRangesChange={handleRangesChange} />
+
+      {/* Location and Availability Filters */}
+      <LocationFilterInputs locationFilters={roleFilters.location ?? {}} onLocationFiltersChange={handleLocationChange} />
+
+      {/* Boolean Query */}
+      <FilterQueryInput query={roleFilters.query ?? ''} onQueryChange={handleQueryChange} />
     </div>
   );
 }
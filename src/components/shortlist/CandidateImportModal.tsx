@@ -0,0 +1,279 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileUp } from "lucide-react";
+import { useAppContext } from "@/hooks/useAppContext";
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  mapImportRecords,
+  parseImportFile,
+  type I_ImportSource,
+  type T_ColumnMapping,
+  type T_ImportField,
+  type T_ImportMode,
+} from "@/utils/candidateImport";
+
+interface I_CandidateImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Radix Select does not allow an empty string as an item value
+const UNMAPPED_VALUE = '__unmapped__';
+const PREVIEW_ROWS = 5;
+
+/**
+ * Candidate import modal component
+ * Uploads a CSV or JSON export, maps its columns to candidate fields,
+ * previews the mapped rows and merges them into (or replaces) the candidate pool
+ */
+const CandidateImportModal = ({ isOpen, onClose }: I_CandidateImportModalProps) => {
+  const { importCandidates } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [source, setSource] = useState<I_ImportSource | null>(null);
+  const [mapping, setMapping] = useState<T_ColumnMapping>({});
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const mappedResult = useMemo(() => {
+    return source ? mapImportRecords(source.records, mapping) : null;
+  }, [source, mapping]);
+
+  const missingRequiredFields = IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]);
+
+  const resetState = useCallback(() => {
+    setSource(null);
+    setMapping({});
+    setParseError(null);
+    setImportMessage(null);
+    setIsDragging(false);
+  }, []);
+
+  const handleClose = useCallback(() => {
+    resetState();
+    onClose();
+  }, [resetState, onClose]);
+
+  // Read and parse the chosen file
+  const handleFile = useCallback(async (file: File) => {
+    setParseError(null);
+    setImportMessage(null);
+
+    try {
+      const text = await file.text();
+      const parsed = parseImportFile(file.name, text);
+      setSource(parsed);
+      setMapping(guessColumnMapping(parsed.columns));
+    } catch (error) {
+      setSource(null);
+      setParseError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  }, []);
+
+  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    // Allow choosing the same file again
+    e.target.value = '';
+  }, [handleFile]);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+  }, [handleFile]);
+
+  const handleMappingChange = useCallback((field: T_ImportField, column: string) => {
+    setMapping(prev => ({ ...prev, [field]: column === UNMAPPED_VALUE ? undefined : column }));
+  }, []);
+
+  const handleImport = useCallback(async (mode: T_ImportMode) => {
+    if (!mappedResult || mappedResult.candidates.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const importedCount = await importCandidates(mappedResult.candidates, mode);
+      setImportMessage(`${importedCount} candidates ${mode === 'replace' ? 'now make up the pool' : 'added to the pool'}.`);
+      setSource(null);
+    } finally {
+      setIsImporting(false);
+    }
+  }, [mappedResult, importCandidates]);
+
+  const canImport = !!mappedResult && mappedResult.candidates.length > 0 && missingRequiredFields.length === 0 && !isImporting;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Candidates</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or JSON export, map its columns to candidate fields and add the rows to the candidate pool.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Drop zone */}
+        <div
+          onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+        >
+          <FileUp className="h-6 w-6 mx-auto text-gray-400 mb-2" />
+          <p className="text-sm text-gray-600 mb-3">
+            {source ? `${source.fileName} (${source.records.length} rows)` : 'Drag and drop a .csv or .json file here'}
+          </p>
+          <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+            Choose file
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            className="hidden"
+            onChange={handleFileInputChange}
+            data-testid="import-file-input"
+          />
+        </div>
+
+        {parseError && (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-3">{parseError}</div>
+        )}
+
+        {importMessage && (
+          <div className="text-sm text-green-700 bg-green-50 border border-green-200 rounded p-3">{importMessage}</div>
+        )}
+
+        {source && mappedResult && (
+          <div className="space-y-6">
+            {/* Column mapping */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">Column Mapping</h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-700">
+                      {label}{required && <span className="text-red-500"> *</span>}
+                    </span>
+                    <Select
+                      value={mapping[field] ?? UNMAPPED_VALUE}
+                      onValueChange={(value: string) => handleMappingChange(field, value)}
+                    >
+                      <SelectTrigger className="h-8 w-[180px]" aria-label={`Column for ${label}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED_VALUE}>Not mapped</SelectItem>
+                        {source.columns.map(column => (
+                          <SelectItem key={column} value={column}>{column}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">
+                Lists can be separated by ";", "|" or ",". Work experience uses "Role @ Company" and degrees use
+                "Degree in Subject @ School", with entries separated by ";".
+              </p>
+            </div>
+
+            {/* Preview */}
+            <div>
+              <div className="flex items-center gap-2 mb-3">
+                <h3 className="font-semibold text-gray-900">Preview</h3>
+                <Badge variant="secondary">{mappedResult.candidates.length} valid</Badge>
+                {mappedResult.errors.length > 0 && (
+                  <Badge className="bg-red-100 text-red-800">{mappedResult.errors.length} errors</Badge>
+                )}
+              </div>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Email</TableHead>
+                      <TableHead>Location</TableHead>
+                      <TableHead>Skills</TableHead>
+                      <TableHead>Experience</TableHead>
+                      <TableHead>Degrees</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {mappedResult.candidates.slice(0, PREVIEW_ROWS).map((candidate, index) => (
+                      <TableRow key={`${candidate.email}-${index}`}>
+                        <TableCell>{candidate.name}</TableCell>
+                        <TableCell>{candidate.email}</TableCell>
+                        <TableCell>{candidate.location || '—'}</TableCell>
+                        <TableCell>{candidate.skills.length}</TableCell>
+                        <TableCell>{candidate.work_experiences.length}</TableCell>
+                        <TableCell>{candidate.education.degrees.length}</TableCell>
+                      </TableRow>
+                    ))}
+                    {mappedResult.candidates.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center text-gray-500">
+                          No rows could be mapped with the current column mapping.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            {/* Row errors */}
+            {mappedResult.errors.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Row Errors</h3>
+                <ul className="max-h-40 overflow-y-auto text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3 space-y-1">
+                  {mappedResult.errors.map((error, index) => (
+                    <li key={`${error.row}-${index}`}>
+                      Row {error.row}: {error.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {missingRequiredFields.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map the required fields before importing: {missingRequiredFields.map(({ label }) => label).join(', ')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            {importMessage ? 'Done' : 'Cancel'}
+          </Button>
+          {source && (
+            <>
+              <Button type="button" variant="outline" disabled={!canImport} onClick={() => handleImport('replace')}>
+                Replace pool
+              </Button>
+              <Button type="button" disabled={!canImport} onClick={() => handleImport('merge')}>
+                Merge into pool
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CandidateImportModal;
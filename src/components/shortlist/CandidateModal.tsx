@@ -4,6 +4,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../ui/dialog";
 import { Briefcase, Calendar, Clock, GraduationCap, Mail, MapPin, Phone } from "lucide-react";
 import { Badge } from "../ui/badge";
 import { Button } from "../ui/button";
+import ScoreExplanation from "./ScoreExplanation";
+import HighlightedText from "./HighlightedText";
+import { getCandidateSearchMatch } from "@/utils/candidateSearch";
+import { formatMoneyText } from "@/utils/currency";
 
 interface I_CandidateModalProps {
   candidate: I_CandidateWithScore;
@@ -11,6 +15,7 @@ interface I_CandidateModalProps {
   onClose: () => void;
   onSelect?: (candidate: I_CandidateWithScore) => void;
   showSelectButton?: boolean;
+  searchQuery?: string; // Words matching it are highlighted
 }
 
 const CandidateModal = ({
@@ -18,14 +23,20 @@ const CandidateModal = ({
   isOpen,
   onClose,
   onSelect,
-  showSelectButton = false
+  showSelectButton = false,
+  searchQuery = ''
 }: I_CandidateModalProps) => {
+  const highlightWords = useMemo(
+    () => getCandidateSearchMatch(candidate, searchQuery)?.highlightWords,
+    [candidate, searchQuery]
+  );
+
   const formatSalary = useCallback((salaryObj: Record<string, string>) => {
     if (!salaryObj || Object.keys(salaryObj).length === 0) return 'Not specified';
     
     const entries = Object.entries(salaryObj);
     return entries.map(([type, amount]) => 
-      `${type.charAt(0).toUpperCase() + type.slice(1)}: ${amount}`
+      `${type.charAt(0).toUpperCase() + type.slice(1)}: ${formatMoneyText(amount)}`
     ).join(' | ');
   }, []);
 
@@ -68,10 +79,16 @@ const CandidateModal = ({
         <DialogHeader className="text-left">
           <DialogTitle className="flex items-center gap-3 text-xl">
             <div className="flex-1">
-              <div className="font-bold text-gray-900">{candidate.name}</div>
+              <div className="font-bold text-gray-900">
+                <HighlightedText text={candidate.name} highlightWords={highlightWords} />
+              </div>
               <div className="text-sm text-gray-600 font-normal">
-                {candidate.currentRole || 'Role: Not specified'} 
-                {candidate.currentCompany && ` at ${candidate.currentCompany}`}
+                {candidate.currentRole
+                  ? <HighlightedText text={candidate.currentRole} highlightWords={highlightWords} />
+                  : 'Role: Not specified'}
+                {candidate.currentCompany && (
+                  <> at <HighlightedText text={candidate.currentCompany} highlightWords={highlightWords} /></>
+                )}
               </div>
             </div>
             {candidate.score && (
@@ -98,7 +115,7 @@ const CandidateModal = ({
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
               <div className="flex items-center gap-2">
                 <Mail className="h-3 w-3 text-gray-500" />
-                <span>{candidate.email}</span>
+                <span><HighlightedText text={candidate.email} highlightWords={highlightWords} /></span>
               </div>
               <div className="flex items-center gap-2">
                 <Phone className="h-3 w-3 text-gray-500" />
@@ -106,7 +123,7 @@ const CandidateModal = ({
               </div>
               <div className="flex items-center gap-2">
                 <MapPin className="h-3 w-3 text-gray-500" />
-                <span>{candidate.location}</span>
+                <span><HighlightedText text={candidate.location} highlightWords={highlightWords} /></span>
               </div>
               <div className="flex items-center gap-2">
                 <Calendar className="h-3 w-3 text-gray-500" />
@@ -148,8 +165,12 @@ const CandidateModal = ({
               {candidate.work_experiences?.length > 0 ? (
                 candidate.work_experiences.map((exp, index) => (
                   <div key={index} className="border-l-2 border-blue-200 pl-4 pb-2">
-                    <div className="font-medium text-gray-900">{exp.roleName}</div>
-                    <div className="text-sm text-gray-600">{exp.company}</div>
+                    <div className="font-medium text-gray-900">
+                      <HighlightedText text={exp.roleName} highlightWords={highlightWords} />
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      <HighlightedText text={exp.company} highlightWords={highlightWords} />
+                    </div>
                   </div>
                 ))
               ) : (
@@ -183,7 +204,9 @@ const CandidateModal = ({
                             </Badge>
                           )}
                         </div>
-                        <div className="text-sm text-gray-600 mt-1">{degree.school}</div>
+                        <div className="text-sm text-gray-600 mt-1">
+                          <HighlightedText text={degree.school} highlightWords={highlightWords} />
+                        </div>
                         <div className="text-xs text-gray-500 mt-1">
                           {formatDate(degree.startDate)} - {formatDate(degree.endDate)}
                           {degree.gpa && ` • GPA: ${degree.gpa}`}
@@ -205,7 +228,7 @@ const CandidateModal = ({
               {candidate.skills?.length > 0 ? (
                 candidate.skills.map((skill, index) => (
                   <Badge key={index} variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
-                    {skill}
+                    <HighlightedText text={skill} highlightWords={highlightWords} />
                   </Badge>
                 ))
               ) : (
@@ -244,6 +267,11 @@ const CandidateModal = ({
                   </div>
                 )}
               </div>
+              {candidate.scoreExplanation && (
+                <div className="mt-4 pt-4 border-t border-blue-100">
+                  <ScoreExplanation explanation={candidate.scoreExplanation} />
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1,113 +1,127 @@
-import { useAppContext } from "@/hooks/useAppContext";
 import CandidatesDataTable from "./CandidatesDataTable";
-import type { I_RoleFilters } from "./CandidateFilters";
-import type { I_CandidateWithScore } from "@/types/Candidate";
-import { useCallback, useMemo } from "react";
-import { useCandidateScoreCache } from "@/hooks/useCandidateScoreCache";
-import { useProgressiveLoading } from "@/hooks/useProgressiveLoading";
+import type { I_CandidateViewState, I_CandidateWithScore, I_RoleFilters, I_ScoringProfile } from "@/types/Candidate";
+import { useCallback, useDeferredValue, useMemo } from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useCandidatePipeline } from "@/hooks/useCandidatePipeline";
+import { DEFAULT_CANDIDATE_SORTING, DEFAULT_SCORING_PROFILES } from "@/constants";
+import { searchCandidates, type I_CandidateSearchResult } from "@/utils/candidateSearch";
+import { countRangeFilters } from "@/utils/candidateAttributes";
+import { countLocationFilters } from "@/utils/candidateLocation";
 
 interface I_CandidateSelectionAreaProps {
   roleFilters: I_RoleFilters;
+  scoringProfile?: I_ScoringProfile;
   onCandidateSelect: (candidate: I_CandidateWithScore) => void;
-  onCandidateViewDetails: (candidate: I_CandidateWithScore) => void;
+  onCandidateViewDetails: (candidate: I_CandidateWithScore, searchQuery?: string) => void;
   showSelectButtons?: boolean;
   selectedCandidates?: I_CandidateWithScore[];
   activeRoleIndex?: number;
+  // The role's own list: its ranked candidates, search text, sort order and position
+  viewStateKey: string;
+  viewState: I_CandidateViewState;
+  onViewStateChange: (updates: Partial<I_CandidateViewState>) => void;
 }
 
+// Stable default so the pipeline request does not change on every render
+const NO_SELECTED_CANDIDATES: I_CandidateWithScore[] = [];
+
 /**
  * Candidate selection area component
  * Handles filtering, scoring, and displaying candidates for a given role
  */
 const CandidateSelectionArea = ({ 
   roleFilters,
+  scoringProfile,
   onCandidateSelect,
   onCandidateViewDetails,
   showSelectButtons = true,
-  selectedCandidates = [],
-  activeRoleIndex = -1
+  selectedCandidates = NO_SELECTED_CANDIDATES,
+  activeRoleIndex = -1,
+  viewStateKey,
+  viewState,
+  onViewStateChange
 }: I_CandidateSelectionAreaProps) => {
-  const { candidates } = useAppContext();
-  const { getScoredCandidates } = useCandidateScoreCache();
-
-  // Filter candidates based on role filters
-  const filteredCandidates = useMemo(() => {
-    return candidates.filter(candidate => {
-      // Filter out already selected candidates (unless they are the one being replaced)
-      const isSelected = selectedCandidates.some(selected => selected !== null && selected.id === candidate.id);
-      const isBeingReplaced = activeRoleIndex >= 0 && selectedCandidates[activeRoleIndex] !== null && selectedCandidates[activeRoleIndex]?.id === candidate.id;
-      
-      if (isSelected && !isBeingReplaced) {
-        return false;
-      }
-
-      // Skills filtering
-      if (roleFilters.skills.length > 0) {
-        const candidateSkills = candidate.skills?.map(skill => skill.toLowerCase()) || [];
-        const hasMatchingSkill = roleFilters.skills.some(filterSkill => 
-          candidateSkills.some(skill => skill.includes(filterSkill.toLowerCase()))
-        );
-        if (!hasMatchingSkill) return false;
-      }
-
-      // Experience filtering
-      if (roleFilters.experience.length > 0) {
-        const candidateExperience = candidate.work_experiences?.map(exp => 
-          `${exp.roleName} ${exp.company}`.toLowerCase()
-        ).join(' ') || '';
-        const hasMatchingExperience = roleFilters.experience.some(filterExp => 
-          candidateExperience.includes(filterExp.toLowerCase())
-        );
-        if (!hasMatchingExperience) return false;
-      }
-
-      // Education filtering
-      if (roleFilters.education.length > 0) {
-        const candidateEducation = candidate.education?.degrees?.map(degree => 
-          `${degree.degree} ${degree.subject}`.toLowerCase()
-        ).join(' ') || '';
-        const hasMatchingEducation = roleFilters.education.some(filterEdu => 
-          candidateEducation.includes(filterEdu.toLowerCase())
-        );
-        if (!hasMatchingEducation) return false;
-      }
-
-      return true;
-    });
-  }, [candidates, roleFilters, selectedCandidates, activeRoleIndex]);
+  // Candidates already picked for other roles stay out of the list (the one being replaced stays in)
+  const excludedCandidateIds = useMemo(() => {
+    return selectedCandidates
+      .filter((selected, index) => selected !== null && selected !== undefined && index !== activeRoleIndex)
+      .map(selected => selected.id);
+  }, [selectedCandidates, activeRoleIndex]);
+
+  const pipelineRequest = useMemo(() => ({
+    roleFilters,
+    scoringProfile: scoringProfile ?? DEFAULT_SCORING_PROFILES[0],
+    excludedCandidateIds,
+  }), [roleFilters, scoringProfile, excludedCandidateIds]);
 
-  const filteredCandidatesWithScores = useMemo(() => {
-    const scoredCandidates = getScoredCandidates(filteredCandidates, roleFilters);
-    return scoredCandidates.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
-  }, [filteredCandidates, roleFilters, getScoredCandidates]);
+  // Must-have and excluded keywords filter, then candidates are scored and sorted off the main thread
+  const { candidates: filteredCandidatesWithScores, isProcessing } = useCandidatePipeline(pipelineRequest, viewStateKey);
+
+  // Free-text search narrows and re-ranks the role's candidates; typing stays responsive on large lists
+  const { searchQuery } = viewState;
+  const deferredSearchQuery = useDeferredValue(searchQuery.trim());
+  const isSearching = deferredSearchQuery.length > 0;
+
+  const searchResults = useMemo(
+    () => (isSearching ? searchCandidates(filteredCandidatesWithScores, deferredSearchQuery) : []),
+    [isSearching, filteredCandidatesWithScores, deferredSearchQuery]
+  );
+  const searchMatches = useMemo(
+    () => (isSearching ? new Map<string, I_CandidateSearchResult>(searchResults.map(result => [result.candidate.id, result])) : undefined),
+    [isSearching, searchResults]
+  );
+  const displayedCandidates = useMemo(
+    () => (isSearching ? searchResults.map(result => result.candidate) : filteredCandidatesWithScores),
+    [isSearching, searchResults, filteredCandidatesWithScores]
+  );
 
-  const { loadedData: displayCandidates, isLoading: isProgressiveLoading } = useProgressiveLoading(filteredCandidatesWithScores, 25);
+  // Search results are shown in relevance order until a column is sorted; leaving search restores score order
+  const setSearchQuery = useCallback((query: string) => {
+    const wasSearching = searchQuery.trim() !== '';
+    const isNowSearching = query.trim() !== '';
+    onViewStateChange({
+      searchQuery: query,
+      pageIndex: 0,
+      ...(wasSearching !== isNowSearching && { sorting: isNowSearching ? [] : DEFAULT_CANDIDATE_SORTING }),
+    });
+  }, [searchQuery, onViewStateChange]);
 
   const handleCandidateSelect = useCallback((candidate: I_CandidateWithScore) => {
     onCandidateSelect(candidate);
   }, [onCandidateSelect]);
 
   const handleViewDetails = useCallback((candidate: I_CandidateWithScore) => {
-    onCandidateViewDetails(candidate);
-  }, [onCandidateViewDetails]);
+    onCandidateViewDetails(candidate, deferredSearchQuery);
+  }, [onCandidateViewDetails, deferredSearchQuery]);
 
   // Computed values
-  const activeFiltersCount = roleFilters.skills.length + roleFilters.experience.length + roleFilters.education.length;
+  const rangeFiltersCount = countRangeFilters(roleFilters.ranges);
+  const locationFiltersCount = countLocationFilters(roleFilters.location);
+  const hasQuery = !!roleFilters.query?.trim();
+  const activeFiltersCount = roleFilters.skills.length + roleFilters.experience.length + roleFilters.education.length
+    + rangeFiltersCount + locationFiltersCount + (hasQuery ? 1 : 0);
   const hasActiveFilters = activeFiltersCount > 0;
 
+  const activeFilterParts = useMemo(() => {
+    const filterParts = [];
+    if (roleFilters.skills.length > 0) filterParts.push(`${roleFilters.skills.length} skills`);
+    if (roleFilters.experience.length > 0) filterParts.push(`${roleFilters.experience.length} experience`);
+    if (roleFilters.education.length > 0) filterParts.push(`${roleFilters.education.length} education`);
+    if (rangeFiltersCount > 0) filterParts.push(`${rangeFiltersCount} ${rangeFiltersCount === 1 ? 'range' : 'ranges'}`);
+    if (locationFiltersCount > 0) filterParts.push(`${locationFiltersCount} location`);
+    if (hasQuery) filterParts.push('query');
+    return filterParts;
+  }, [roleFilters, rangeFiltersCount, locationFiltersCount, hasQuery]);
+
   // Filter summary text
   const filterSummaryText = useMemo(() => {
     if (!hasActiveFilters) {
       return `${filteredCandidatesWithScores.length} candidates (please apply filters to get weighted scores based results and filter out candidates)`;
     }
-    
-    const filterParts = [];
-    if (roleFilters.skills.length > 0) filterParts.push(`${roleFilters.skills.length} skills`);
-    if (roleFilters.experience.length > 0) filterParts.push(`${roleFilters.experience.length} experience`);
-    if (roleFilters.education.length > 0) filterParts.push(`${roleFilters.education.length} education`);
-    
+
     return `${filteredCandidatesWithScores.length} candidates matching ${activeFiltersCount} filter criteria`;
-  }, [hasActiveFilters, activeFiltersCount, roleFilters, filteredCandidatesWithScores.length]);
+  }, [hasActiveFilters, activeFiltersCount, filteredCandidatesWithScores.length]);
   
   return (
     <div className="space-y-4">
@@ -119,13 +133,13 @@ const CandidateSelectionArea = ({
               Ranked Candidates
             </h3>
             {/* Circular Progress Loader - Only show when loading */}
-            {isProgressiveLoading && (
+            {isProcessing && (
               <div className="flex items-center space-x-2">
                 <div className="relative">
                   <div className="w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
                 </div>
                 <span className="text-xs text-gray-400">
-                  Loading candidates...
+                  Scoring candidates...
                 </span>
               </div>
             )}
@@ -141,22 +155,52 @@ const CandidateSelectionArea = ({
           <div className="text-right">
             <div className="text-xs text-gray-500">Active filters:</div>
             <div className="text-xs text-blue-600">
-              {roleFilters.skills.length > 0 && `${roleFilters.skills.length} skills`}
-              {roleFilters.skills.length > 0 && (roleFilters.experience.length > 0 || roleFilters.education.length > 0) && ', '}
-              {roleFilters.experience.length > 0 && `${roleFilters.experience.length} experience`}
-              {roleFilters.experience.length > 0 && roleFilters.education.length > 0 && ', '}
-              {roleFilters.education.length > 0 && `${roleFilters.education.length} education`}
+              {activeFilterParts.join(', ')}
             </div>
           </div>
         )}
       </div>
 
+      {/* Global search */}
+      <div className="flex items-center gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+          <Input
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="Search name, email, company, role, city, school or skill..."
+            aria-label="Search candidates"
+            className="pl-9 pr-9"
+          />
+          {searchQuery && (
+            <button
+              type="button"
+              onClick={() => setSearchQuery('')}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+              aria-label="Clear search"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        {isSearching && (
+          <span className="text-sm text-gray-600 whitespace-nowrap">
+            {searchResults.length} of {filteredCandidatesWithScores.length} match
+          </span>
+        )}
+      </div>
+
       {/* Candidates DataTable */}
       <CandidatesDataTable
-        candidates={displayCandidates}
+        key={viewStateKey}
+        candidates={displayedCandidates}
+        searchMatches={searchMatches}
         onViewDetails={handleViewDetails}
         onSelectForTeam={handleCandidateSelect}
         showSelectButtons={showSelectButtons}
+        viewState={viewState}
+        onViewStateChange={onViewStateChange}
+        isLoading={isProcessing && filteredCandidatesWithScores.length === 0}
       />
     </div>
   );
@@ -1,19 +1,55 @@
-import type { I_CandidateWithScore } from "@/types/Candidate";
-import { flexRender, getCoreRowModel, getPaginationRowModel, getSortedRowModel, useReactTable, type ColumnDef, type PaginationState, type SortingState } from "@tanstack/react-table";
-import { useCallback, useMemo, useState } from "react";
+import type { I_CandidateViewState, I_CandidateWithScore, T_CandidateTableMode } from "@/types/Candidate";
+import { flexRender, getCoreRowModel, getPaginationRowModel, getSortedRowModel, useReactTable, type ColumnDef, type OnChangeFn, type PaginationState, type Row, type SortingState } from "@tanstack/react-table";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { UserPlus, Eye, ArrowUpDown } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select";
+import ScoreExplanation from "./ScoreExplanation";
+import HighlightedText from "./HighlightedText";
+import type { I_CandidateSearchResult, T_SearchField } from "@/utils/candidateSearch";
+import { CANDIDATE_PAGE_SIZE_OPTIONS, CANDIDATE_SCROLL_BATCH_SIZE } from "@/constants";
+import { loadCandidateTableMode, saveCandidateTableModeAsync } from "@/utils/storage";
+import { getCandidateAttributes } from "@/utils/candidateAttributes";
+import { currencyConverter } from "@/utils/currency";
 
 interface I_CandidatesDataTableProps {
   candidates: I_CandidateWithScore[];
   onViewDetails: (candidate: I_CandidateWithScore) => void;
   onSelectForTeam: (candidate: I_CandidateWithScore) => void;
   showSelectButtons?: boolean;
+  searchMatches?: Map<string, I_CandidateSearchResult>; // Set while searching; candidates come ranked by relevance
+  // Sort order and position; the scroll position is only read on mount and handed back on unmount
+  viewState: I_CandidateViewState;
+  onViewStateChange: (updates: Partial<I_CandidateViewState>) => void;
+  isLoading?: boolean; // No ranking yet for this list
 }
 
+// Scroll mode sizing: rows are measured once rendered, this is only the first guess
+const ESTIMATED_ROW_HEIGHT = 64;
+const OVERSCAN_ROWS = 8;
+
+// Top row of the scroll viewport and how far it was scrolled past, kept in place across re-sorts
+type T_ScrollAnchor = NonNullable<I_CandidateViewState['scrollAnchor']>;
+
+// Search hits in fields the row doesn't show are listed under the name
+const SEARCH_FIELD_LABELS: Partial<Record<T_SearchField, string>> = {
+  email: 'Email',
+  location: 'Location',
+  school: 'School',
+  company: 'Company',
+  role: 'Role',
+};
+
+const getHiddenSearchMatches = (candidate: I_CandidateWithScore, match: I_CandidateSearchResult | undefined) =>
+  (match?.matchedFields ?? []).filter(({ field, value }) => {
+    if (field === 'company') return value !== candidate.currentCompany;
+    if (field === 'role') return value !== candidate.currentRole;
+    return field in SEARCH_FIELD_LABELS;
+  });
+
 // Score visualization helper
 const getScoreBackgroundColor = (score: number): string => {
   if (score >= 9) return 'bg-green-700 text-white';
@@ -30,21 +66,53 @@ const getScoreBackgroundColor = (score: number): string => {
 
 /**
  * Candidates data table component
- * Displays candidates in a sortable, paginated table with actions
+ * Displays candidates in a sortable table with actions, either as a virtualized list with
+ * infinite scroll and a sticky header, or paginated
  */
 const CandidatesDataTable = ({ 
   candidates, 
   onViewDetails, 
   onSelectForTeam, 
-  showSelectButtons = true 
+  showSelectButtons = true,
+  searchMatches,
+  viewState,
+  onViewStateChange,
+  isLoading = false
 }: I_CandidatesDataTableProps) => {
-  const [sorting, setSorting] = useState<SortingState>([
-    { id: 'score', desc: true }
-  ]);
-  const [pagination, setPagination] = useState<PaginationState>({
-    pageIndex: 0,
-    pageSize: 10,
-  });
+  const { sorting } = viewState;
+  const [pageSize, setPageSize] = useState<number>(CANDIDATE_PAGE_SIZE_OPTIONS[0]);
+  // A list that got shorter shows its last page; the remembered page is kept for when it grows back
+  const pageIndex = Math.min(viewState.pageIndex, Math.max(0, Math.ceil(candidates.length / pageSize) - 1));
+  const pagination = useMemo<PaginationState>(() => ({ pageIndex, pageSize }), [pageIndex, pageSize]);
+  const [mode, setMode] = useState<T_CandidateTableMode>(loadCandidateTableMode);
+  const [loadedCount, setLoadedCount] = useState(CANDIDATE_SCROLL_BATCH_SIZE);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<T_ScrollAnchor | null>(viewState.scrollAnchor ?? null);
+  const pendingScrollRef = useRef<{ index: number; offset: number } | null>(null);
+  const isScrollMode = mode === 'scroll';
+
+  const handleModeChange = useCallback((nextMode: T_CandidateTableMode) => {
+    anchorRef.current = null;
+    setMode(nextMode);
+    saveCandidateTableModeAsync(nextMode);
+  }, []);
+
+  const handleSortingChange = useCallback<OnChangeFn<SortingState>>((updater) => {
+    onViewStateChange({ sorting: typeof updater === 'function' ? updater(sorting) : updater });
+  }, [sorting, onViewStateChange]);
+
+  const handlePaginationChange = useCallback<OnChangeFn<PaginationState>>((updater) => {
+    const next = typeof updater === 'function' ? updater(pagination) : updater;
+    setPageSize(next.pageSize);
+    if (next.pageIndex !== pagination.pageIndex) {
+      onViewStateChange({ pageIndex: next.pageIndex });
+    }
+  }, [pagination, onViewStateChange]);
+
+  // Hand the scroll position back when the list unmounts, e.g. when another role's list replaces it
+  useEffect(() => () => {
+    onViewStateChange({ scrollAnchor: anchorRef.current ?? undefined });
+  }, [onViewStateChange]);
 
   // Event handlers
   const handleViewDetails = useCallback((candidate: I_CandidateWithScore) => {
@@ -73,11 +141,24 @@ const CandidatesDataTable = ({
       ),
       cell: ({ row }) => {
         const score = row.getValue('score') as number;
+        const explanation = row.original.scoreExplanation;
         return (
-          <div className="ml-4">
-            <span className={`inline-block px-2 py-1 rounded text-sm font-medium ${getScoreBackgroundColor(score)}`}>
+          <div className="ml-4 relative group">
+            <span
+              className={`inline-block px-2 py-1 rounded text-sm font-medium ${getScoreBackgroundColor(score)}`}
+              tabIndex={explanation ? 0 : undefined}
+            >
               {score?.toFixed(1) || 'N/A'}
             </span>
+            {/* Score breakdown on hover or keyboard focus */}
+            {explanation && (
+              <div
+                role="tooltip"
+                className="hidden group-hover:block group-focus-within:block absolute left-0 top-full z-20 mt-1 w-80 rounded-md border bg-white p-3 shadow-lg"
+              >
+                <ScoreExplanation explanation={explanation} compact />
+              </div>
+            )}
           </div>
         );
       },
@@ -97,17 +178,31 @@ const CandidatesDataTable = ({
       ),
       cell: ({ row }) => {
         const candidate = row.original;
+        const match = searchMatches?.get(candidate.id);
+        const hiddenMatches = getHiddenSearchMatches(candidate, match);
         return (
           <div className="min-w-0">
             <div 
               className="font-semibold text-gray-900 truncate cursor-pointer hover:text-blue-600" 
               onClick={() => handleViewDetails(candidate)}
             >
-              {candidate.name}
+              <HighlightedText text={candidate.name} highlightWords={match?.highlightWords} />
             </div>
             <div className="text-xs text-gray-500 truncate">
-              {candidate.currentCompany || 'Not specified'} • {candidate.work_availability?.join(', ') || 'Not specified'}
+              {candidate.currentCompany
+                ? <HighlightedText text={candidate.currentCompany} highlightWords={match?.highlightWords} />
+                : 'Not specified'} • {candidate.work_availability?.join(', ') || 'Not specified'}
             </div>
+            {hiddenMatches.length > 0 && (
+              <div className="text-xs text-gray-500 truncate">
+                {hiddenMatches.map(({ field, value }, index) => (
+                  <span key={`${field}-${value}`}>
+                    {index > 0 && ' • '}
+                    {SEARCH_FIELD_LABELS[field]}: <HighlightedText text={value} highlightWords={match?.highlightWords} />
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
         );
       },
@@ -118,7 +213,13 @@ const CandidatesDataTable = ({
       header: 'Current Role',
       cell: ({ row }) => {
         const role = row.getValue('currentRole') as string;
-        return <div className="text-sm truncate">{role || 'Not specified'}</div>;
+        return (
+          <div className="text-sm truncate">
+            {role
+              ? <HighlightedText text={role} highlightWords={searchMatches?.get(row.original.id)?.highlightWords} />
+              : 'Not specified'}
+          </div>
+        );
       },
       size: 150,
     },
@@ -131,18 +232,46 @@ const CandidatesDataTable = ({
       },
       size: 120,
     },
+    {
+      // Expectation in the reporting currency, so candidates asking in different currencies sort together
+      id: 'salary',
+      accessorFn: candidate => getCandidateAttributes(candidate).salaryExpectation ?? undefined,
+      sortUndefined: 'last',
+      header: ({ column }) => (
+        <Button
+          variant="ghost"
+          onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')}
+          className="h-8 px-2"
+        >
+          Salary
+          <ArrowUpDown className="ml-2 h-4 w-4" />
+        </Button>
+      ),
+      cell: ({ row }) => {
+        const salary = row.getValue('salary') as number | undefined;
+        return <div className="text-sm">{salary !== undefined ? currencyConverter.format(salary) : 'Not specified'}</div>;
+      },
+      size: 110,
+    },
     {
       accessorKey: 'skills',
       header: 'Top Skills',
       cell: ({ row }) => {
-        const skills = row.original.skills?.slice(0, 3) || [];
+        const highlightWords = searchMatches?.get(row.original.id)?.highlightWords;
+        const matchedSkills = new Set(searchMatches?.get(row.original.id)?.matchedFields
+          .filter(({ field }) => field === 'skill')
+          .map(({ value }) => value));
+        // Skills a search matched are shown first so the hit is visible
+        const skills = [...(row.original.skills ?? [])]
+          .sort((a, b) => Number(matchedSkills.has(b)) - Number(matchedSkills.has(a)))
+          .slice(0, 3);
         const totalSkills = row.original.skills?.length || 0;
         
         return (
           <div className="flex flex-wrap gap-1 max-w-[200px]">
             {skills.map((skill, index) => (
               <Badge key={index} variant="secondary" className="text-xs">
-                {skill}
+                <HighlightedText text={skill} highlightWords={highlightWords} />
               </Badge>
             ))}
             {totalSkills > 3 && (
@@ -187,32 +316,122 @@ const CandidatesDataTable = ({
       },
       size: showSelectButtons ? 160 : 100,
     },
-  ], [handleViewDetails, handleSelectForTeam, showSelectButtons]);
+  ], [handleViewDetails, handleSelectForTeam, showSelectButtons, searchMatches]);
 
   // Table instance
   const table = useReactTable({
     data: candidates,
     columns,
+    getRowId: candidate => candidate.id, // Row keys survive re-sorts and new results
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
     getSortedRowModel: getSortedRowModel(),
-    onPaginationChange: setPagination,
-    onSortingChange: setSorting,
+    onPaginationChange: handlePaginationChange,
+    autoResetPageIndex: false, // The page is reset where the list really changes: new filters or search text
+    onSortingChange: handleSortingChange,
     state: {
       sorting,
       pagination,
     },
   });
-  
-  // Pagination options
-  const pageSizeOptions = [10, 15, 20];
+
+  // Scroll mode: the sorted rows are revealed in batches and only the visible ones are rendered
+  const sortedRows = table.getPrePaginationRowModel().rows;
+  const loadedRows = useMemo(() => sortedRows.slice(0, loadedCount), [sortedRows, loadedCount]);
+  const getRowKey = useCallback((index: number) => loadedRows[index]?.id ?? index, [loadedRows]);
+  const virtualizer = useVirtualizer({
+    count: isScrollMode ? loadedRows.length : 0,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: getRowKey,
+    overscan: OVERSCAN_ROWS,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastRenderedIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  // Infinite scroll: reveal the next batch once the end of the loaded rows comes into view
+  useEffect(() => {
+    if (isScrollMode && lastRenderedIndex >= loadedCount - OVERSCAN_ROWS && loadedCount < sortedRows.length) {
+      setLoadedCount(count => count + CANDIDATE_SCROLL_BATCH_SIZE);
+    }
+  }, [isScrollMode, lastRenderedIndex, loadedCount, sortedRows.length]);
+
+  // At the very top there is nothing to keep in place; re-sorted lists then show their new first rows
+  const handleScroll = useCallback(() => {
+    const scrollOffset = scrollRef.current?.scrollTop ?? 0;
+    const topRow = scrollOffset > 0 ? virtualizer.getVirtualItemForOffset(scrollOffset) : undefined;
+    anchorRef.current = topRow
+      ? { rowId: String(topRow.key), offset: scrollOffset - topRow.start }
+      : null;
+  }, [virtualizer]);
+
+  // Rows re-ordered (sorting, new scores): keep the row that was at the top of the viewport there.
+  // If it is gone (the filters changed), start again from the top.
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    if (!anchor) return;
+
+    const index = sortedRows.findIndex(row => row.id === anchor.rowId);
+    if (index < 0) {
+      anchorRef.current = null;
+      setLoadedCount(CANDIDATE_SCROLL_BATCH_SIZE);
+      scrollRef.current?.scrollTo({ top: 0 });
+      return;
+    }
+    setLoadedCount(count => Math.max(count, index + CANDIDATE_SCROLL_BATCH_SIZE));
+    pendingScrollRef.current = { index, offset: anchor.offset };
+  }, [sortedRows]);
+
+  // Restore the anchor once its row is loaded; runs after every render until then
+  useLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    if (!pending || pending.index >= loadedRows.length) return;
+
+    pendingScrollRef.current = null;
+    const [rowStart] = virtualizer.getOffsetForIndex(pending.index, 'start') ?? [0];
+    virtualizer.scrollToOffset(Math.max(0, rowStart + pending.offset));
+  });
+
+  const renderCells = (row: Row<I_CandidateWithScore>) =>
+    row.getVisibleCells().map((cell) => (
+      <TableCell key={cell.id}>
+        {flexRender(cell.column.columnDef.cell, cell.getContext())}
+      </TableCell>
+    ));
+
+  const renderScrollRows = () => {
+    const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+    const paddingBottom = virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+
+    return (
+      <>
+        {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+        {virtualRows.map((virtualRow) => {
+          const row = loadedRows[virtualRow.index];
+          return (
+            <TableRow key={row.id} data-index={virtualRow.index} ref={virtualizer.measureElement}>
+              {renderCells(row)}
+            </TableRow>
+          );
+        })}
+        {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+      </>
+    );
+  };
+
+  const pageRows = table.getRowModel().rows;
+  const hasRows = isScrollMode ? sortedRows.length > 0 : pageRows.length > 0;
 
   return (
     <div className="space-y-4">
       {/* Table */}
       <div className="rounded-md border">
-        <Table>
-          <TableHeader>
+        <Table
+          containerProps={isScrollMode
+            ? { ref: scrollRef, onScroll: handleScroll, className: 'max-h-[640px] overflow-y-auto' }
+            : undefined}
+        >
+          <TableHeader className={isScrollMode ? 'sticky top-0 z-10 bg-white shadow-[0_1px_0_rgb(229_231_235)]' : undefined}>
             {table.getHeaderGroups().map((headerGroup) => (
               <TableRow key={headerGroup.id}>
                 {headerGroup.headers.map((header) => (
@@ -226,20 +445,18 @@ const CandidatesDataTable = ({
             ))}
           </TableHeader>
           <TableBody>
-            {table.getRowModel().rows?.length ? (
-              table.getRowModel().rows.map((row) => (
-                <TableRow key={row.id}>
-                  {row.getVisibleCells().map((cell) => (
-                    <TableCell key={cell.id}>
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              ))
-            ) : (
+            {hasRows && isScrollMode && renderScrollRows()}
+            {hasRows && !isScrollMode && pageRows.map((row) => (
+              <TableRow key={row.id}>
+                {renderCells(row)}
+              </TableRow>
+            ))}
+            {!hasRows && (
               <TableRow>
                 <TableCell colSpan={columns.length} className="h-24 text-center">
-                  No candidates found matching your criteria. Change your filters and try again.
+                  {isLoading
+                    ? 'Scoring candidates...'
+                    : 'No candidates found matching your criteria. Change your filters and try again.'}
                 </TableCell>
               </TableRow>
             )}
@@ -247,57 +464,84 @@ const CandidatesDataTable = ({
         </Table>
       </div>
 
-      {/* Pagination Controls */}
+      {/* Display mode and pagination controls */}
       <div className="flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-600">Rows per page:</span>
-          <Select
-            value={`${table.getState().pagination.pageSize}`}
-            onValueChange={(value: string) => {
-              table.setPageSize(Number(value));
-            }}
-          >
-            <SelectTrigger className="h-8 w-[70px]">
-              <SelectValue placeholder={table.getState().pagination.pageSize} />
-            </SelectTrigger>
-            <SelectContent side="top">
-              {pageSizeOptions.map((pageSize) => (
-                <SelectItem key={pageSize} value={`${pageSize}`}>
-                  {pageSize}
-                </SelectItem>
-              ))}
-            </SelectContent>
-          </Select>
-        </div>
-
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-600">
-            Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
-          </span>
-          <div className="flex gap-1">
+        <div className="flex items-center gap-4">
+          <div className="flex gap-1" role="group" aria-label="Table display mode">
             <Button
-              variant="outline"
+              variant={isScrollMode ? 'default' : 'outline'}
               size="sm"
-              onClick={() => table.previousPage()}
-              disabled={!table.getCanPreviousPage()}
+              aria-pressed={isScrollMode}
+              onClick={() => handleModeChange('scroll')}
             >
-              Previous
+              Scroll
             </Button>
             <Button
-              variant="outline"
+              variant={isScrollMode ? 'outline' : 'default'}
               size="sm"
-              onClick={() => table.nextPage()}
-              disabled={!table.getCanNextPage()}
+              aria-pressed={!isScrollMode}
+              onClick={() => handleModeChange('pages')}
             >
-              Next
+              Pages
             </Button>
           </div>
+
+          {!isScrollMode && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-600">Rows per page:</span>
+              <Select
+                value={`${table.getState().pagination.pageSize}`}
+                onValueChange={(value: string) => {
+                  table.setPageSize(Number(value));
+                }}
+              >
+                <SelectTrigger className="h-8 w-[70px]">
+                  <SelectValue placeholder={table.getState().pagination.pageSize} />
+                </SelectTrigger>
+                <SelectContent side="top">
+                  {CANDIDATE_PAGE_SIZE_OPTIONS.map((pageSize) => (
+                    <SelectItem key={pageSize} value={`${pageSize}`}>
+                      {pageSize}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
+
+        {!isScrollMode && (
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">
+              Page {table.getState().pagination.pageIndex + 1} of {Math.max(1, table.getPageCount())}
+            </span>
+            <div className="flex gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => table.previousPage()}
+                disabled={!table.getCanPreviousPage()}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => table.nextPage()}
+                disabled={!table.getCanNextPage()}
+              >
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Status info */}
       <div className="text-sm text-gray-500 text-center">
-        Showing {table.getRowModel().rows.length} of {candidates.length} candidates
+        {isScrollMode
+          ? `${candidates.length} candidates${loadedRows.length < sortedRows.length ? ' · scroll for more' : ''}`
+          : `Showing ${pageRows.length} of ${candidates.length} candidates`}
       </div>
     </div>
   );
@@ -0,0 +1,150 @@
+import { useCallback, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAppContext } from "@/hooks/useAppContext";
+
+interface I_DataQualityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const MAX_QUARANTINED_ROWS = 50;
+
+/**
+ * Data quality modal component
+ * Shows how many bundled records passed validation, what was wrong with the rest
+ * and lets the user include normalized partial records in the candidate pool
+ */
+const DataQualityModal = ({ isOpen, onClose }: I_DataQualityModalProps) => {
+  const { dataQualityReport, partialRecordsReleased, releasePartialRecords } = useAppContext();
+  const [isReleasing, setIsReleasing] = useState(false);
+
+  const handleRelease = useCallback(async () => {
+    setIsReleasing(true);
+    try {
+      await releasePartialRecords();
+    } finally {
+      setIsReleasing(false);
+    }
+  }, [releasePartialRecords]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Data Quality</DialogTitle>
+          <DialogDescription>
+            Every candidate record is checked before it enters the pool. Invalid records are left out;
+            partial records were usable after fixing a field and are held back until you include them.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!dataQualityReport ? (
+          <p className="text-sm text-gray-500">No data quality report is available yet.</p>
+        ) : (
+          <div className="space-y-6">
+            {/* Summary counts */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              <div className="rounded border p-3">
+                <div className="text-xs text-gray-500">Records</div>
+                <div className="text-xl font-semibold text-gray-900">{dataQualityReport.totalRecords}</div>
+              </div>
+              <div className="rounded border p-3">
+                <div className="text-xs text-gray-500">Valid</div>
+                <div className="text-xl font-semibold text-green-700">{dataQualityReport.validCount}</div>
+              </div>
+              <div className="rounded border p-3">
+                <div className="text-xs text-gray-500">Partial</div>
+                <div className="text-xl font-semibold text-yellow-700">{dataQualityReport.partialCount}</div>
+              </div>
+              <div className="rounded border p-3">
+                <div className="text-xs text-gray-500">Invalid</div>
+                <div className="text-xl font-semibold text-red-700">{dataQualityReport.invalidCount}</div>
+              </div>
+            </div>
+
+            {/* Issues by type */}
+            <div>
+              <h3 className="font-semibold text-gray-900 mb-3">Problems Found</h3>
+              {dataQualityReport.issues.length === 0 ? (
+                <p className="text-sm text-gray-500">Every record passed validation.</p>
+              ) : (
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Problem</TableHead>
+                        <TableHead>Severity</TableHead>
+                        <TableHead>Records</TableHead>
+                        <TableHead>Examples</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {dataQualityReport.issues.map(issue => (
+                        <TableRow key={issue.code}>
+                          <TableCell className="font-medium">{issue.label}</TableCell>
+                          <TableCell>
+                            <Badge className={issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}>
+                              {issue.severity}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{issue.count}</TableCell>
+                          <TableCell className="text-xs text-gray-600 whitespace-normal">
+                            {issue.examples.map(example => (
+                              <div key={example.index}>
+                                {example.label}: {example.message}
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+
+            {/* Quarantined records */}
+            {dataQualityReport.quarantined.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">Quarantined Records</h3>
+                <ul className="max-h-48 overflow-y-auto text-sm border rounded p-3 space-y-1">
+                  {dataQualityReport.quarantined.slice(0, MAX_QUARANTINED_ROWS).map(record => (
+                    <li key={record.index} className="flex items-start gap-2">
+                      <Badge variant="outline" className="shrink-0">{record.status}</Badge>
+                      <span className="text-gray-700">
+                        {record.label}: {record.issues.map(issue => issue.message).join('; ')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {dataQualityReport.quarantined.length > MAX_QUARANTINED_ROWS && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Showing {MAX_QUARANTINED_ROWS} of {dataQualityReport.quarantined.length} quarantined records.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {dataQualityReport && dataQualityReport.partialCount > 0 && (
+            <Button type="button" disabled={partialRecordsReleased || isReleasing} onClick={handleRelease}>
+              {partialRecordsReleased
+                ? 'Partial records included'
+                : `Include ${dataQualityReport.partialCount} partial records`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DataQualityModal;
@@ -0,0 +1,148 @@
+import { useCallback, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useAppContext } from "@/hooks/useAppContext";
+import type { T_DuplicateDecision } from "@/utils/dedupe";
+
+interface I_DuplicateReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SIGNAL_LABELS = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name: 'Similar name',
+} as const;
+
+/**
+ * Duplicate review modal component
+ * Lists groups of records that may be the same person and lets the user
+ * merge them or keep them apart; confirmed duplicates are merged automatically
+ */
+const DuplicateReviewModal = ({ isOpen, onClose }: I_DuplicateReviewModalProps) => {
+  const { duplicateGroups, duplicateDecisions, resolveDuplicateGroup } = useAppContext();
+  const [resolvingGroupId, setResolvingGroupId] = useState<string | null>(null);
+
+  const confirmedGroups = useMemo(
+    () => duplicateGroups.filter(group => group.confidence === 'confirmed'),
+    [duplicateGroups]
+  );
+
+  // Groups still waiting for a decision are listed first
+  const ambiguousGroups = useMemo(
+    () => duplicateGroups
+      .filter(group => group.confidence === 'ambiguous')
+      .sort((a, b) => Number(!!duplicateDecisions[a.id]) - Number(!!duplicateDecisions[b.id])),
+    [duplicateGroups, duplicateDecisions]
+  );
+
+  const pendingCount = ambiguousGroups.filter(group => !duplicateDecisions[group.id]).length;
+
+  const handleDecision = useCallback(async (groupId: string, decision: T_DuplicateDecision) => {
+    setResolvingGroupId(groupId);
+    try {
+      await resolveDuplicateGroup(groupId, decision);
+    } finally {
+      setResolvingGroupId(null);
+    }
+  }, [resolveDuplicateGroup]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate Candidates</DialogTitle>
+          <DialogDescription>
+            {confirmedGroups.length} groups sharing an email or phone and a matching name were merged automatically.
+            The groups below might be the same person; nothing is merged until you decide.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Badge variant="secondary">{pendingCount} to review</Badge>
+          <Badge variant="outline">{ambiguousGroups.length - pendingCount} reviewed</Badge>
+        </div>
+
+        {ambiguousGroups.length === 0 ? (
+          <p className="text-sm text-gray-500">No ambiguous duplicates were found.</p>
+        ) : (
+          <div className="space-y-4">
+            {ambiguousGroups.map(group => {
+              const decision = duplicateDecisions[group.id];
+              const isResolving = resolvingGroupId === group.id;
+
+              return (
+                <div key={group.id} className="border rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2 gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {group.signals.map(signal => (
+                        <Badge key={signal} className="bg-blue-100 text-blue-800">{SIGNAL_LABELS[signal]}</Badge>
+                      ))}
+                      {decision && (
+                        <Badge variant="outline">{decision === 'merge' ? 'Merged' : 'Kept separate'}</Badge>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={isResolving || decision === 'keep'}
+                        onClick={() => handleDecision(group.id, 'keep')}
+                      >
+                        Keep separate
+                      </Button>
+                      <Button
+                        size="sm"
+                        disabled={isResolving || decision === 'merge'}
+                        onClick={() => handleDecision(group.id, 'merge')}
+                      >
+                        Merge
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="rounded-md border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Name</TableHead>
+                          <TableHead>Email</TableHead>
+                          <TableHead>Phone</TableHead>
+                          <TableHead>Location</TableHead>
+                          <TableHead>Submitted</TableHead>
+                          <TableHead>Skills</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.members.map(member => (
+                          <TableRow key={member.id}>
+                            <TableCell className="font-medium">{member.name}</TableCell>
+                            <TableCell>{member.email}</TableCell>
+                            <TableCell>{member.phone || '—'}</TableCell>
+                            <TableCell>{member.location || '—'}</TableCell>
+                            <TableCell>{member.submitted_at.split(' ')[0]}</TableCell>
+                            <TableCell>{member.skills.length}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReviewModal;
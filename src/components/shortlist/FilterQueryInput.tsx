@@ -0,0 +1,82 @@
+import { memo, useCallback, useMemo, useState, type ChangeEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { parseFilterQuery } from "@/utils/filterQuery";
+
+interface I_FilterQueryInputProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+}
+
+const QUERY_EXAMPLE = 'skills:(React AND TypeScript) AND NOT role:intern AND (edu:"Computer Science" OR edu:Engineering) AND salary:<120000';
+
+/**
+ * Boolean filter query box
+ * The query is applied whenever it parses; while it doesn't, the last valid query stays applied
+ * and the error is shown under the part of the query it is about
+ */
+const FilterQueryInput = memo(({ query, onQueryChange }: I_FilterQueryInputProps) => {
+  const [draft, setDraft] = useState<string>(query);
+  const [appliedQuery, setAppliedQuery] = useState<string>(query);
+
+  // The applied query changed from outside (another role, Clear All): show it instead of the draft
+  if (query !== appliedQuery) {
+    setAppliedQuery(query);
+    setDraft(query);
+  }
+
+  const { error } = useMemo(() => parseFilterQuery(draft), [draft]);
+
+  const handleChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setDraft(value);
+    if (!parseFilterQuery(value).error) {
+      setAppliedQuery(value);
+      onQueryChange(value);
+    }
+  }, [onQueryChange]);
+
+  return (
+    <div className="w-full mb-4">
+      <label htmlFor="filter-query-input" className="block text-sm font-medium text-gray-700 mb-2">
+        Advanced query
+      </label>
+      <Input
+        id="filter-query-input"
+        type="text"
+        value={draft}
+        onChange={handleChange}
+        placeholder='e.g. skills:(React AND TypeScript) AND NOT role:intern'
+        className="w-full font-mono text-xs"
+        spellCheck={false}
+        aria-invalid={!!error}
+        aria-describedby="filter-query-help"
+      />
+
+      {/* Inline syntax error */}
+      {error && (
+        <div className="mt-2 rounded border border-red-200 bg-red-50 px-2 py-1.5" role="alert">
+          <div className="font-mono text-xs whitespace-pre-wrap break-all text-gray-700">
+            {draft.slice(0, error.start)}
+            <span className="bg-red-200 text-red-900 underline decoration-wavy decoration-red-500">
+              {draft.slice(error.start, Math.max(error.end, error.start + 1)) || ' '}
+            </span>
+            {draft.slice(Math.max(error.end, error.start + 1))}
+          </div>
+          <div className="text-xs text-red-700 mt-1">
+            {error.message}. The last valid query is still applied.
+          </div>
+        </div>
+      )}
+
+      <div id="filter-query-help" className="text-xs text-gray-500 mt-2">
+        Combine terms with AND, OR, NOT and parentheses, alongside the filters above. Fields: skills, role, edu,
+        salary, gpa, jobs, level, location, availability; a word without a field is looked for in all keywords.
+        Example: <code className="break-all">{QUERY_EXAMPLE}</code>
+      </div>
+    </div>
+  );
+});
+
+FilterQueryInput.displayName = 'FilterQueryInput';
+
+export default FilterQueryInput
@@ -0,0 +1,32 @@
+import { Fragment } from "react";
+import { splitHighlightSegments } from "@/utils/candidateSearch";
+
+interface I_HighlightedTextProps {
+  text: string;
+  highlightWords?: ReadonlySet<string>;
+}
+
+/**
+ * Text with the words matched by a search marked
+ */
+const HighlightedText = ({ text, highlightWords }: I_HighlightedTextProps) => {
+  if (!highlightWords || highlightWords.size === 0) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {splitHighlightSegments(text, highlightWords).map((segment, index) =>
+        segment.highlighted ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">
+            {segment.text}
+          </mark>
+        ) : (
+          <Fragment key={index}>{segment.text}</Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+export default HighlightedText
@@ -1,56 +1,142 @@
-import { memo, useCallback, useState, type ChangeEvent, type KeyboardEvent } from "react";
+import { memo, useCallback, useDeferredValue, useId, useMemo, useState, type ChangeEvent, type KeyboardEvent } from "react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { XIcon } from "lucide-react";
+import type { I_FilterKeyword, T_KeywordMatchMode, T_KeywordTier } from "@/types";
+import { createFilterKeyword } from "@/utils/keywordMatching";
+import type { I_KeywordSuggestion } from "@/utils/keywordSuggestions";
 
 interface I_KeywordInputProps {
   label: string;
-  keywords: string[];
-  onKeywordsChange: (keywords: string[]) => void;
+  keywords: I_FilterKeyword[];
+  onKeywordsChange: (keywords: I_FilterKeyword[]) => void;
   placeholder: string;
+  defaultMatchMode: T_KeywordMatchMode; // Mode of keywords that don't set one
   inputClassName?: string;
+  getSuggestions?: (query: string) => I_KeywordSuggestion[]; // Pool values matching what was typed
 }
 
+// Badge styling and the tier a click on the tier label switches to
+const TIER_DISPLAY: Record<T_KeywordTier, { label: string; className: string; next: T_KeywordTier }> = {
+  must: { label: 'Must', className: 'bg-blue-100 text-blue-800', next: 'nice' },
+  nice: { label: 'Nice', className: 'bg-gray-100 text-gray-700', next: 'exclude' },
+  exclude: { label: 'Exclude', className: 'bg-red-100 text-red-800', next: 'must' },
+};
+
+// Short label, explanation and the mode a click on the mode label switches to
+const MATCH_MODE_DISPLAY: Record<T_KeywordMatchMode, { label: string; title: string; next: T_KeywordMatchMode }> = {
+  word: { label: 'Word', title: 'Whole words and known synonyms', next: 'exact' },
+  exact: { label: 'Exact', title: 'The same skill or full value only', next: 'contains' },
+  contains: { label: 'Any', title: 'Anywhere in the text', next: 'word' },
+};
+
 /**
  * Reusable keyword input component
  * Allows adding and removing keywords with visual feedback
+ * New keywords are must-have; clicking a keyword's tier cycles must → nice → exclude
+ * and clicking its match mode cycles word → exact → contains
+ * Suggestions from the candidate pool, with the candidates each would leave, are listed while typing
+ * and can be picked with the arrow keys and Enter
  */
 const KeywordInput = memo(({ 
   label, 
   keywords, 
   onKeywordsChange, 
   placeholder,
-  inputClassName = ""
+  defaultMatchMode,
+  inputClassName = "",
+  getSuggestions
 }: I_KeywordInputProps) => {
   const [inputValue, setInputValue] = useState<string>('');
+  const [isSuggestionListOpen, setIsSuggestionListOpen] = useState<boolean>(false);
+  const [highlightedIndex, setHighlightedIndex] = useState<number>(-1);
+  const listId = useId();
+
+  // Counting is deferred so typing stays responsive on large pools
+  const deferredInputValue = useDeferredValue(inputValue);
+  const suggestions = useMemo(
+    () => (getSuggestions ? getSuggestions(deferredInputValue) : []),
+    [getSuggestions, deferredInputValue]
+  );
+  const showSuggestions = isSuggestionListOpen && suggestions.length > 0;
 
   // Add new keyword
   const addKeyword = useCallback((keyword: string) => {
     const trimmedKeyword = keyword.trim();
-    if (trimmedKeyword && !keywords.includes(trimmedKeyword)) {
-      const updatedKeywords = [...keywords, trimmedKeyword];
+    const exists = keywords.some(existing => existing.value.toLowerCase() === trimmedKeyword.toLowerCase());
+    if (trimmedKeyword && !exists) {
+      const updatedKeywords = [...keywords, createFilterKeyword(trimmedKeyword)];
       onKeywordsChange(updatedKeywords);
     }
   }, [keywords, onKeywordsChange]);
 
   // Remove keyword
   const removeKeyword = useCallback((keywordToRemove: string) => {
-    const updatedKeywords = keywords.filter(keyword => keyword !== keywordToRemove);
+    const updatedKeywords = keywords.filter(keyword => keyword.value !== keywordToRemove);
+    onKeywordsChange(updatedKeywords);
+  }, [keywords, onKeywordsChange]);
+
+  // Switch a keyword to the next tier
+  const cycleKeywordTier = useCallback((keywordToChange: string) => {
+    const updatedKeywords = keywords.map(keyword =>
+      keyword.value === keywordToChange
+        ? { ...keyword, tier: TIER_DISPLAY[keyword.tier].next }
+        : keyword
+    );
     onKeywordsChange(updatedKeywords);
   }, [keywords, onKeywordsChange]);
 
-  // Handle Enter key press
+  // Switch a keyword to the next match mode
+  const cycleKeywordMatchMode = useCallback((keywordToChange: string) => {
+    const updatedKeywords = keywords.map(keyword =>
+      keyword.value === keywordToChange
+        ? { ...keyword, matchMode: MATCH_MODE_DISPLAY[keyword.matchMode ?? defaultMatchMode].next }
+        : keyword
+    );
+    onKeywordsChange(updatedKeywords);
+  }, [keywords, defaultMatchMode, onKeywordsChange]);
+
+  const commitKeyword = useCallback((keyword: string) => {
+    addKeyword(keyword);
+    setInputValue('');
+    setHighlightedIndex(-1);
+    setIsSuggestionListOpen(false);
+  }, [addKeyword]);
+
+  // Arrow keys move through the suggestions; Enter adds the highlighted one, or the typed text
   const handleKeyDown = useCallback((e: KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter' && inputValue.trim()) {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (suggestions.length === 0) return;
       e.preventDefault();
-      addKeyword(inputValue);
-      setInputValue('');
+      setIsSuggestionListOpen(true);
+      // -1 is the typed text; moving past either end wraps around through it
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setHighlightedIndex(index => ((index + 1 + step + suggestions.length + 1) % (suggestions.length + 1)) - 1);
+      return;
     }
-  }, [inputValue, addKeyword]);
+    if (e.key === 'Escape' && showSuggestions) {
+      e.preventDefault();
+      setIsSuggestionListOpen(false);
+      setHighlightedIndex(-1);
+      return;
+    }
+    if (e.key === 'Enter') {
+      const highlighted = showSuggestions ? suggestions[highlightedIndex] : undefined;
+      if (highlighted) {
+        e.preventDefault();
+        commitKeyword(highlighted.value);
+      } else if (inputValue.trim()) {
+        e.preventDefault();
+        commitKeyword(inputValue);
+      }
+    }
+  }, [suggestions, showSuggestions, highlightedIndex, inputValue, commitKeyword]);
 
   // Handle input blur
   const handleBlur = useCallback(() => {
+    setIsSuggestionListOpen(false);
+    setHighlightedIndex(-1);
     if (inputValue.trim()) {
       addKeyword(inputValue);
       setInputValue('');
@@ -60,6 +146,8 @@ const KeywordInput = memo(({
   // Handle input change
   const handleInputChange = useCallback((e: ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
+    setHighlightedIndex(-1);
+    setIsSuggestionListOpen(true);
   }, []);
 
   return (
@@ -70,32 +158,91 @@ const KeywordInput = memo(({
       </label>
       
       {/* Input Field */}
-      <Input
-        type="text"
-        value={inputValue}
-        onChange={handleInputChange}
-        onKeyDown={handleKeyDown}
-        onBlur={handleBlur}
-        placeholder={placeholder}
-        className={`w-full ${inputClassName}`}
-      />
+      <div className="relative">
+        <Input
+          type="text"
+          value={inputValue}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          placeholder={placeholder}
+          className={`w-full ${inputClassName}`}
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={showSuggestions}
+          aria-controls={listId}
+          aria-activedescendant={showSuggestions && highlightedIndex >= 0 ? `${listId}-${highlightedIndex}` : undefined}
+        />
+
+        {/* Suggestions from the candidate pool */}
+        {showSuggestions && (
+          <ul
+            id={listId}
+            role="listbox"
+            aria-label={`${label} suggestions`}
+            className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-white py-1 shadow-md"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.value}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === highlightedIndex}
+                // Keep focus in the input so its blur doesn't add the partly typed text
+                onMouseDown={e => e.preventDefault()}
+                onClick={() => commitKeyword(suggestion.value)}
+                onMouseEnter={() => setHighlightedIndex(index)}
+                className={`flex cursor-pointer items-center justify-between gap-2 px-3 py-1.5 text-sm ${
+                  index === highlightedIndex ? 'bg-blue-50 text-blue-900' : 'text-gray-700'
+                }`}
+              >
+                <span className="truncate">{suggestion.value}</span>
+                <span
+                  className={`text-xs ${suggestion.count > 0 ? 'text-gray-500' : 'text-red-500'}`}
+                  title="Candidates left with this keyword as must-have"
+                >
+                  {suggestion.count}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
       
       {/* Keywords/Badges */}
       {keywords.length > 0 && (
         <div className="flex flex-wrap gap-2 mt-3">
           {keywords.map((keyword, index) => (
             <Badge 
-              key={`${keyword}-${index}`} 
+              key={`${keyword.value}-${index}`} 
               variant="secondary" 
-              className="flex items-center gap-1"
+              className={`flex items-center gap-1 ${TIER_DISPLAY[keyword.tier].className}`}
             >
-              <span>{keyword}</span>
+              <button
+                type="button"
+                className="text-[10px] font-semibold uppercase tracking-wide opacity-80 hover:opacity-100"
+                onClick={() => cycleKeywordTier(keyword.value)}
+                title="Change tier"
+                aria-label={`${keyword.value}: ${TIER_DISPLAY[keyword.tier].label}. Change tier`}
+              >
+                {TIER_DISPLAY[keyword.tier].label}
+              </button>
+              <span className={keyword.tier === 'exclude' ? 'line-through' : undefined}>{keyword.value}</span>
+              <button
+                type="button"
+                className="text-[10px] uppercase tracking-wide opacity-60 hover:opacity-100"
+                onClick={() => cycleKeywordMatchMode(keyword.value)}
+                title={`${MATCH_MODE_DISPLAY[keyword.matchMode ?? defaultMatchMode].title}. Change match mode`}
+                aria-label={`${keyword.value}: match ${MATCH_MODE_DISPLAY[keyword.matchMode ?? defaultMatchMode].label}. Change match mode`}
+              >
+                {MATCH_MODE_DISPLAY[keyword.matchMode ?? defaultMatchMode].label}
+              </button>
               <Button
                 type="button"
                 variant="ghost"
                 size="sm"
                 className="h-4 w-4 p-0 hover:bg-red-100"
-                onClick={() => removeKeyword(keyword)}
+                onClick={() => removeKeyword(keyword.value)}
               >
                 <XIcon className="h-3 w-3 text-gray-500 hover:text-red-500" />
               </Button>
@@ -109,7 +256,7 @@ const KeywordInput = memo(({
         id={`${label.toLowerCase()}-help`}
         className="text-xs text-gray-500 mt-2"
       >
-        Type and press Enter or click outside to add keywords
+        Type and press Enter or click outside to add keywords, or pick a suggestion from the candidate pool (the number is how many candidates would be left). Click a keyword's tier to make it must-have, nice-to-have or excluded, and its match mode to match whole words, exact values or any text
       </div>
     </div>
   );
@@ -0,0 +1,179 @@
+import { memo, useCallback, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
+import { useAppContext } from "@/hooks/useAppContext";
+import type { I_LocationFilters, T_PreferenceMode, T_WorkAvailability } from "@/types";
+import { WORK_AVAILABILITY_LABELS } from "@/constants";
+import { getLocationFacets, WORK_AVAILABILITIES } from "@/utils/candidateLocation";
+
+interface I_LocationFilterInputsProps {
+  locationFilters: I_LocationFilters;
+  onLocationFiltersChange: (locationFilters: I_LocationFilters) => void;
+}
+
+// Label and explanation of a mode, and the mode a click switches to
+const MODE_DISPLAY: Record<T_PreferenceMode, { label: string; title: string; next: T_PreferenceMode }> = {
+  require: { label: 'Required', title: 'Candidates not matching are filtered out', next: 'prefer' },
+  prefer: { label: 'Preferred', title: 'Candidates matching get bonus points', next: 'require' },
+};
+
+const chipClassName = (selected: boolean) =>
+  `inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs transition-colors ${
+    selected ? 'border-blue-500 bg-blue-50 text-blue-800' : 'border-gray-200 text-gray-700 hover:bg-gray-50'
+  }`;
+
+const ModeToggle = ({ mode = 'require', onChange }: { mode?: T_PreferenceMode; onChange: (mode: T_PreferenceMode) => void }) => (
+  <button
+    type="button"
+    onClick={() => onChange(MODE_DISPLAY[mode].next)}
+    title={`${MODE_DISPLAY[mode].title}. Click to switch`}
+    className="text-xs font-medium text-blue-600 hover:underline"
+  >
+    {MODE_DISPLAY[mode].label}
+  </button>
+);
+
+/**
+ * Location facet grouped by region and country, and a full-time / part-time toggle
+ * Counts are for the whole candidate pool; each choice is required (filters) or preferred (adds points)
+ */
+const LocationFilterInputs = memo(({ locationFilters, onLocationFiltersChange }: I_LocationFilterInputsProps) => {
+  const { candidates } = useAppContext();
+  const facets = useMemo(() => getLocationFacets(candidates), [candidates]);
+  const [expandedRegions, setExpandedRegions] = useState<Set<string>>(() => new Set());
+
+  const { regions = [], countries = [] } = locationFilters;
+
+  const updateFilters = useCallback((changes: Partial<I_LocationFilters>) => {
+    onLocationFiltersChange({ ...locationFilters, ...changes });
+  }, [locationFilters, onLocationFiltersChange]);
+
+  const toggleRegion = useCallback((region: string) => {
+    const countriesInRegion = facets.regions.find(facet => facet.region === region)?.countries.map(({ country }) => country) ?? [];
+    updateFilters(regions.includes(region)
+      ? { regions: regions.filter(selected => selected !== region) }
+      // A selected region covers its countries, so they don't need to stay selected on their own
+      : { regions: [...regions, region], countries: countries.filter(country => !countriesInRegion.includes(country)) });
+  }, [facets, regions, countries, updateFilters]);
+
+  const toggleCountry = useCallback((country: string) => {
+    updateFilters({
+      countries: countries.includes(country) ? countries.filter(selected => selected !== country) : [...countries, country],
+    });
+  }, [countries, updateFilters]);
+
+  const toggleExpanded = useCallback((region: string) => {
+    setExpandedRegions(previous => {
+      const next = new Set(previous);
+      if (!next.delete(region)) next.add(region);
+      return next;
+    });
+  }, []);
+
+  const setWorkAvailability = useCallback((workAvailability: T_WorkAvailability | undefined) => {
+    updateFilters({ workAvailability });
+  }, [updateFilters]);
+
+  return (
+    <div className="w-full mb-4 space-y-4">
+      {/* Location facet */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-gray-700">Location</span>
+          <ModeToggle mode={locationFilters.locationMode} onChange={locationMode => updateFilters({ locationMode })} />
+        </div>
+        <div className="space-y-1 max-h-64 overflow-y-auto pr-1">
+          {facets.regions.map(({ region, count, countries: countryFacets }) => {
+            const isExpanded = expandedRegions.has(region);
+            const isRegionSelected = regions.includes(region);
+            return (
+              <div key={region}>
+                <div className="flex items-center gap-1">
+                  <button
+                    type="button"
+                    onClick={() => toggleExpanded(region)}
+                    className="text-gray-400 hover:text-gray-700"
+                    aria-label={`${isExpanded ? 'Hide' : 'Show'} countries in ${region}`}
+                    aria-expanded={isExpanded}
+                  >
+                    {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => toggleRegion(region)}
+                    className={chipClassName(isRegionSelected)}
+                    aria-pressed={isRegionSelected}
+                  >
+                    {region}
+                    <span className="text-gray-500">{count}</span>
+                  </button>
+                </div>
+                {isExpanded && (
+                  <div className="flex flex-wrap gap-1 pl-5 pt-1">
+                    {countryFacets.map(({ country, count: countryCount }) => {
+                      const isSelected = isRegionSelected || countries.includes(country);
+                      return (
+                        <button
+                          key={country}
+                          type="button"
+                          onClick={() => toggleCountry(country)}
+                          disabled={isRegionSelected}
+                          className={chipClassName(isSelected)}
+                          aria-pressed={isSelected}
+                        >
+                          {country}
+                          <span className="text-gray-500">{countryCount}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {facets.unknownCount > 0 && (
+          <div className="text-xs text-gray-500 mt-2">
+            {facets.unknownCount} candidates have a location we couldn't place; they never match a location
+          </div>
+        )}
+      </div>
+
+      {/* Work availability */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-gray-700">Work availability</span>
+          <ModeToggle
+            mode={locationFilters.workAvailabilityMode}
+            onChange={workAvailabilityMode => updateFilters({ workAvailabilityMode })}
+          />
+        </div>
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Work availability">
+          <button
+            type="button"
+            onClick={() => setWorkAvailability(undefined)}
+            className={chipClassName(!locationFilters.workAvailability)}
+            aria-pressed={!locationFilters.workAvailability}
+          >
+            Any
+          </button>
+          {WORK_AVAILABILITIES.map(availability => (
+            <button
+              key={availability}
+              type="button"
+              onClick={() => setWorkAvailability(availability)}
+              className={chipClassName(locationFilters.workAvailability === availability)}
+              aria-pressed={locationFilters.workAvailability === availability}
+            >
+              {WORK_AVAILABILITY_LABELS[availability]}
+              <span className="text-gray-500">{facets.workAvailabilityCounts[availability]}</span>
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+});
+
+LocationFilterInputs.displayName = 'LocationFilterInputs';
+
+export default LocationFilterInputs
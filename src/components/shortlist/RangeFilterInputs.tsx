@@ -0,0 +1,134 @@
+import { memo, useCallback, type ChangeEvent } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { I_RangeFilters, T_EducationLevel } from "@/types";
+import { EDUCATION_LEVEL_LABELS, MIN_GPA_OPTIONS } from "@/constants";
+import { EDUCATION_LEVELS } from "@/utils/candidateAttributes";
+import { useAppContext } from "@/hooks/useAppContext";
+
+interface I_RangeFilterInputsProps {
+  ranges: I_RangeFilters;
+  onRangesChange: (ranges: I_RangeFilters) => void;
+}
+
+// Select value for "no minimum"; Radix selects can't hold an empty value
+const ANY = 'any';
+
+// Empty inputs clear the bound
+const readNumber = (value: string): number | undefined => {
+  const number = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(number) || number < 0 ? undefined : number;
+};
+
+/**
+ * Salary, GPA, experience count and degree level controls for a role
+ * Candidates outside any set bound, or without the value, are filtered out
+ */
+const RangeFilterInputs = memo(({ ranges, onRangesChange }: I_RangeFilterInputsProps) => {
+  const { currencySettings } = useAppContext();
+  const updateRange = useCallback(<K extends keyof I_RangeFilters>(key: K, value: I_RangeFilters[K]) => {
+    const updated = { ...ranges, [key]: value };
+    if (value === undefined) delete updated[key];
+    onRangesChange(updated);
+  }, [ranges, onRangesChange]);
+
+  const handleNumberChange = useCallback((key: 'minSalary' | 'maxSalary' | 'minExperienceCount') =>
+    (e: ChangeEvent<HTMLInputElement>) => updateRange(key, readNumber(e.target.value)), [updateRange]);
+
+  const salaryRangeInvalid = ranges.minSalary !== undefined && ranges.maxSalary !== undefined && ranges.minSalary > ranges.maxSalary;
+
+  return (
+    <div className="w-full mb-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+      {/* Salary expectation */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Salary expectation ({currencySettings.reportingCurrency})</label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step={1000}
+            value={ranges.minSalary ?? ''}
+            onChange={handleNumberChange('minSalary')}
+            placeholder="Min"
+            aria-label="Minimum salary expectation"
+            aria-invalid={salaryRangeInvalid}
+          />
+          <span className="text-gray-400">–</span>
+          <Input
+            type="number"
+            min={0}
+            step={1000}
+            value={ranges.maxSalary ?? ''}
+            onChange={handleNumberChange('maxSalary')}
+            placeholder="Max"
+            aria-label="Maximum salary expectation"
+            aria-invalid={salaryRangeInvalid}
+          />
+        </div>
+        {salaryRangeInvalid && (
+          <div className="text-xs text-red-600 mt-1">The minimum is above the maximum, so no candidate matches</div>
+        )}
+      </div>
+
+      {/* Work experience count */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Minimum work experiences</label>
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          value={ranges.minExperienceCount ?? ''}
+          onChange={handleNumberChange('minExperienceCount')}
+          placeholder="Any"
+          aria-label="Minimum number of work experiences"
+        />
+      </div>
+
+      {/* GPA band */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Minimum GPA</label>
+        <Select
+          value={ranges.minGpa !== undefined ? String(ranges.minGpa) : ANY}
+          onValueChange={(value: string) => updateRange('minGpa', value === ANY ? undefined : Number(value))}
+        >
+          <SelectTrigger className="w-full" aria-label="Minimum GPA">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {MIN_GPA_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={String(option.value)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Degree level */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Minimum degree</label>
+        <Select
+          value={ranges.minEducationLevel ?? ANY}
+          onValueChange={(value: string) => updateRange('minEducationLevel', value === ANY ? undefined : value as T_EducationLevel)}
+        >
+          <SelectTrigger className="w-full" aria-label="Minimum degree">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any</SelectItem>
+            {EDUCATION_LEVELS.map(level => (
+              <SelectItem key={level} value={level}>
+                {EDUCATION_LEVEL_LABELS[level]} or higher
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+});
+
+RangeFilterInputs.displayName = 'RangeFilterInputs';
+
+export default RangeFilterInputs
@@ -1,19 +1,56 @@
 import { useAppContext } from "@/hooks/useAppContext";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { RotateCcw } from "lucide-react";
+import { Ban, Check, Lock, LockOpen, RotateCcw, X } from "lucide-react";
+import type { I_AssignmentProposal } from "@/utils/teamAssignment";
+import { formatBudgetAmount, getTeamBudgetSummary, parseBudget, type I_RoleBudgetLine } from "@/utils/teamBudget";
 
 interface I_RoleSlotPanelProps {
   activeRoleIndex: number;
   onRoleSelect: (index: number) => void;
+  proposals?: I_AssignmentProposal[];
+  onAcceptProposal?: (index: number) => void;
+  onRejectProposal?: (index: number) => void;
+  onExcludeCandidate?: (candidateId: string) => void;
 }
 
 // Role state types for better type safety
 type T_RoleState = 'empty' | 'filled' | 'active' | 'replacing';
 
-const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps) => {
-  const { shortlistedTeam, teamSize } = useAppContext();
+// Selected candidate's salary against the slot's budget
+const RoleBudgetLine = ({ line }: { line: I_RoleBudgetLine }) => {
+  if (line.salary === null) {
+    return line.budget !== undefined
+      ? <div className="text-xs text-gray-500">Budget {formatBudgetAmount(line.budget)}</div>
+      : null;
+  }
+
+  return (
+    <div className="text-xs text-gray-600">
+      Expects {formatBudgetAmount(line.salary)}
+      {line.difference !== null && (
+        <span className={line.difference < 0 ? 'text-red-600 font-medium' : 'text-green-700'}>
+          {' · '}{formatBudgetAmount(Math.abs(line.difference))} {line.difference < 0 ? 'over' : 'under'} budget
+        </span>
+      )}
+    </div>
+  );
+};
+
+const RoleSlotPanel = ({
+  activeRoleIndex,
+  onRoleSelect,
+  proposals = [],
+  onAcceptProposal,
+  onRejectProposal,
+  onExcludeCandidate
+}: I_RoleSlotPanelProps) => {
+  const { shortlistedTeam, teamSize, teamRoles, updateTeamRole, activeTeam, setTeamBudget, currencySettings } = useAppContext();
+  // Not memoized: salaries are read at the current exchange rates, and the team only has a few roles
+  const budgetSummary = getTeamBudgetSummary(activeTeam);
+  const isOverBudget = budgetSummary.remaining !== null && budgetSummary.remaining < 0;
 
   // Determine role state and styling
   const getRoleState = (index: number): T_RoleState => {
@@ -59,6 +96,18 @@ const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps)
   const handleRoleClick = (index: number) => {
     onRoleSelect(index);
   };
+
+  // Locked slots are left alone by auto-fill
+  const handleToggleLock = (e: React.MouseEvent, index: number) => {
+    e.stopPropagation();
+    updateTeamRole(index, { locked: !teamRoles[index]?.locked });
+  };
+
+  // Proposal buttons sit inside the clickable card, so keep clicks from selecting the role
+  const handleProposalAction = (e: React.MouseEvent, action: () => void) => {
+    e.stopPropagation();
+    action();
+  };
   
   return (
     <div className="space-y-2">
@@ -70,6 +119,36 @@ const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps)
         </Badge>
       </div>
       
+      {/* Salary budget: running total of the selected candidates' expectations */}
+      <div className={`rounded border p-2 mb-2 ${isOverBudget ? 'border-red-200 bg-red-50' : 'border-gray-200'}`}>
+        <div className="flex items-center justify-between gap-2">
+          <label htmlFor="team-budget" className="text-xs font-medium text-gray-700">Team budget ({currencySettings.reportingCurrency})</label>
+          <Input
+            id="team-budget"
+            type="number"
+            min={0}
+            step={1000}
+            value={budgetSummary.totalBudget ?? ''}
+            onChange={(e) => setTeamBudget(parseBudget(e.target.value))}
+            placeholder="No budget"
+            className="h-7 w-32 text-xs"
+          />
+        </div>
+        <div className="text-xs text-gray-600 mt-1">
+          Salaries: {formatBudgetAmount(budgetSummary.committed)}
+          {budgetSummary.remaining !== null && (
+            <span className={isOverBudget ? 'text-red-600 font-medium' : 'text-green-700'}>
+              {' · '}{formatBudgetAmount(Math.abs(budgetSummary.remaining))} {isOverBudget ? 'over budget' : 'left'}
+            </span>
+          )}
+        </div>
+        {budgetSummary.unknownSalaryCount > 0 && (
+          <div className="text-xs text-gray-500 mt-1">
+            {budgetSummary.unknownSalaryCount} selected candidate{budgetSummary.unknownSalaryCount !== 1 ? 's have' : ' has'} no readable salary expectation
+          </div>
+        )}
+      </div>
+
       {/* Role slots */}
       <div className="space-y-2">
         {Array.from({ length: teamSize }).map((_, index) => {
@@ -77,6 +156,11 @@ const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps)
           const styling = getRoleStyling(roleState);
           const isFilled = roleState === 'filled' || roleState === 'replacing';
           const candidate = shortlistedTeam[index];
+          const role = teamRoles[index];
+          const requirementsCount = role
+            ? role.requiredSkills.length + role.experienceRequirements.length + role.educationRequirements.length
+            : 0;
+          const proposal = proposals.find(item => item.roleIndex === index);
           
           return (
             <Card 
@@ -86,13 +170,33 @@ const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps)
             >
               <CardContent>
                 <div className="flex justify-between items-center">
-                  <span className="font-medium text-gray-900">Role {index + 1}</span>
-                  {styling.badgeText && (
-                    <Badge className={`text-xs ${styling.badgeClass}`}>
-                      {styling.badgeText}
-                    </Badge>
-                  )}
+                  <span className="font-medium text-gray-900 truncate">{role?.title || `Role ${index + 1}`}</span>
+                  <div className="flex items-center gap-1">
+                    {styling.badgeText && (
+                      <Badge className={`text-xs ${styling.badgeClass}`}>
+                        {styling.badgeText}
+                      </Badge>
+                    )}
+                    <button
+                      type="button"
+                      onClick={(e) => handleToggleLock(e, index)}
+                      className="p-1 rounded hover:bg-white/70"
+                      title={role?.locked ? 'Locked: auto-fill keeps this slot. Click to unlock' : 'Lock this slot for auto-fill'}
+                      aria-label={role?.locked ? 'Unlock slot' : 'Lock slot'}
+                      aria-pressed={!!role?.locked}
+                    >
+                      {role?.locked
+                        ? <Lock className="h-3 w-3 text-gray-700" />
+                        : <LockOpen className="h-3 w-3 text-gray-400" />}
+                    </button>
+                  </div>
                 </div>
+                {requirementsCount > 0 && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {requirementsCount} requirement{requirementsCount !== 1 ? 's' : ''}
+                  </div>
+                )}
+                {budgetSummary.roles[index] && <RoleBudgetLine line={budgetSummary.roles[index]} />}
                 
                 {/* Show candidate info if role is filled */}
                 {isFilled && (
@@ -118,6 +222,57 @@ const RoleSlotPanel = ({ activeRoleIndex, onRoleSelect }: I_RoleSlotPanelProps)
                     </div>
                   </div>
                 )}
+
+                {/* Auto-fill proposal for this slot */}
+                {proposal && (
+                  <div className="mt-2 rounded border border-dashed border-purple-300 bg-purple-50 p-2">
+                    <div className="flex justify-between items-center gap-2">
+                      <div className="min-w-0">
+                        <div className="text-xs text-purple-700">Proposed</div>
+                        <div className="text-sm font-medium text-gray-900 truncate">{proposal.candidate.name}</div>
+                      </div>
+                      <span className="text-sm font-semibold text-purple-800">
+                        {proposal.candidate.score?.toFixed(1)}
+                      </span>
+                    </div>
+                    <div className="flex gap-1 mt-2">
+                      {onAcceptProposal && (
+                        <Button
+                          size="sm"
+                          className="h-6 px-2 text-xs flex-1"
+                          onClick={(e) => handleProposalAction(e, () => onAcceptProposal(index))}
+                        >
+                          <Check className="h-3 w-3 mr-1" />
+                          Accept
+                        </Button>
+                      )}
+                      {onRejectProposal && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2 text-xs"
+                          onClick={(e) => handleProposalAction(e, () => onRejectProposal(index))}
+                          aria-label="Dismiss proposal"
+                          title="Dismiss proposal"
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                      {onExcludeCandidate && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2 text-xs"
+                          onClick={(e) => handleProposalAction(e, () => onExcludeCandidate(proposal.candidate.id))}
+                          aria-label={`Exclude ${proposal.candidate.name} from auto-fill`}
+                          title="Exclude from auto-fill and re-run"
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           );
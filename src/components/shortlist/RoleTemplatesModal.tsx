@@ -0,0 +1,190 @@
+import { useCallback, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Download, FileUp, Trash2 } from "lucide-react";
+import { useAppContext } from "@/hooks/useAppContext";
+import type { I_RoleTemplate } from "@/types";
+import { countRangeFilters } from "@/utils/candidateAttributes";
+import { countLocationFilters } from "@/utils/candidateLocation";
+import { downloadTextFile } from "@/utils/download";
+import { exportRoleTemplatesJson, parseRoleTemplatesJson } from "@/utils/roleTemplates";
+
+interface I_RoleTemplatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  roleIndex: number;
+  roleTitle: string;
+}
+
+const toPercent = (weight: number) => Math.round(weight * 100);
+
+// Short description of what a template sets, e.g. "5 skills, 2 experience, 1 range · Scoring 50/40/10"
+const describeTemplate = ({ filters, scoring }: I_RoleTemplate): string => {
+  const parts = [
+    filters.skills.length > 0 && `${filters.skills.length} skills`,
+    filters.experience.length > 0 && `${filters.experience.length} experience`,
+    filters.education.length > 0 && `${filters.education.length} education`,
+    countRangeFilters(filters.ranges) > 0 && `${countRangeFilters(filters.ranges)} range`,
+    countLocationFilters(filters.location) > 0 && 'location',
+    filters.query && 'query',
+  ].filter(Boolean);
+  const description = parts.length > 0 ? parts.join(', ') : 'No filters';
+  return scoring
+    ? `${description} · Scoring ${[scoring.weights.skills, scoring.weights.experience, scoring.weights.education].map(toPercent).join('/')}`
+    : description;
+};
+
+/**
+ * Role templates modal component
+ * Applies a saved template to the active role, saves the role as a template,
+ * and imports or exports the template library as JSON
+ */
+const RoleTemplatesModal = ({ isOpen, onClose, roleIndex, roleTitle }: I_RoleTemplatesModalProps) => {
+  const { roleTemplates, saveRoleTemplate, applyRoleTemplate, importRoleTemplates, deleteRoleTemplate } = useAppContext();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [templateName, setTemplateName] = useState<string>('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const handleClose = useCallback(() => {
+    setTemplateName('');
+    setMessage(null);
+    setImportError(null);
+    onClose();
+  }, [onClose]);
+
+  const handleApply = useCallback((template: I_RoleTemplate) => {
+    applyRoleTemplate(roleIndex, template.id);
+    handleClose();
+  }, [applyRoleTemplate, roleIndex, handleClose]);
+
+  const handleSave = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const name = templateName.trim();
+    if (!name) return;
+
+    const replacesExisting = roleTemplates.some(template => template.name.toLowerCase() === name.toLowerCase());
+    if (saveRoleTemplate(roleIndex, name)) {
+      setMessage(`${roleTitle} ${replacesExisting ? 'updated' : 'saved as'} template "${name}".`);
+      setTemplateName('');
+    }
+  }, [templateName, roleTemplates, saveRoleTemplate, roleIndex, roleTitle]);
+
+  const handleExport = useCallback(() => {
+    downloadTextFile('role-templates.json', exportRoleTemplatesJson(roleTemplates), 'application/json');
+  }, [roleTemplates]);
+
+  const handleFileInputChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow choosing the same file again
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    setImportError(null);
+    try {
+      const { templates, skippedCount } = parseRoleTemplatesJson(await file.text());
+      importRoleTemplates(templates);
+      setMessage(`${templates.length} template${templates.length !== 1 ? 's' : ''} imported`
+        + (skippedCount > 0 ? `, ${skippedCount} skipped for having no name.` : '.'));
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to read file');
+    }
+  }, [importRoleTemplates]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Role Templates</DialogTitle>
+          <DialogDescription>
+            Apply a template's title, filters and scoring weights to {roleTitle}, or save {roleTitle} as a template for other roles.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Save the active role */}
+        <form onSubmit={handleSave} className="flex items-end gap-2">
+          <div className="flex-1">
+            <label htmlFor="role-template-name" className="block text-sm font-medium text-gray-700 mb-1">
+              Save {roleTitle} as template
+            </label>
+            <Input
+              id="role-template-name"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="e.g. Senior Full-Stack"
+            />
+          </div>
+          <Button type="submit" disabled={!templateName.trim()}>
+            Save
+          </Button>
+        </form>
+
+        {message && (
+          <div className="text-sm text-green-700 bg-green-50 border border-green-200 rounded p-3">{message}</div>
+        )}
+        {importError && (
+          <div className="text-sm text-red-600 bg-red-50 border border-red-200 rounded p-3">{importError}</div>
+        )}
+
+        {/* Library */}
+        <ul className="divide-y rounded-md border">
+          {roleTemplates.map(template => (
+            <li key={template.id} className="flex items-center justify-between gap-3 p-3">
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{template.name}</div>
+                <div className="text-xs text-gray-500 truncate">
+                  {template.title !== template.name && `${template.title} · `}{describeTemplate(template)}
+                </div>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <Button size="sm" variant="outline" onClick={() => handleApply(template)}>
+                  Apply
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => deleteRoleTemplate(template.id)}
+                  aria-label={`Delete template ${template.name}`}
+                >
+                  <Trash2 className="h-4 w-4 text-gray-500" />
+                </Button>
+              </div>
+            </li>
+          ))}
+          {roleTemplates.length === 0 && (
+            <li className="p-3 text-sm text-center text-gray-500">No templates yet. Save a role or import a file.</li>
+          )}
+        </ul>
+
+        <DialogFooter className="sm:justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-3 w-3 mr-1" />
+              Import JSON
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={handleExport} disabled={roleTemplates.length === 0}>
+              <Download className="h-3 w-3 mr-1" />
+              Export JSON
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileInputChange}
+              data-testid="role-template-file-input"
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={handleClose}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoleTemplatesModal;
@@ -0,0 +1,125 @@
+import type { I_CategoryScoreExplanation, I_ScoreExplanation, T_EducationTier } from "@/types/Candidate";
+import { Check, X } from "lucide-react";
+
+interface I_ScoreExplanationProps {
+  explanation: I_ScoreExplanation;
+  compact?: boolean;
+}
+
+const CATEGORIES = [
+  { key: 'skills', label: 'Skills', valuesLabel: 'Matched skills' },
+  { key: 'experience', label: 'Experience', valuesLabel: 'Matched roles' },
+  { key: 'education', label: 'Education', valuesLabel: 'Matched degrees' },
+] as const;
+
+const EDUCATION_TIER_LABELS: Record<T_EducationTier, string> = {
+  top25: 'Top 25 school',
+  top50: 'Top 50 school',
+  standard: 'No Top 50 school',
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 10) / 10}%`;
+
+/**
+ * Matched and missed keywords, weights and points for one category
+ */
+const CategoryRow = ({ label, valuesLabel, category, compact }: {
+  label: string;
+  valuesLabel: string;
+  category: I_CategoryScoreExplanation;
+  compact: boolean;
+}) => {
+  if (!category.active) {
+    return (
+      <div className="text-gray-500">
+        <span className="font-medium">{label}:</span> no keywords, weight moved to the other categories
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+        <span className="font-medium text-gray-900">{label}</span>
+        <span className="text-gray-600">
+          {formatPercent(category.matchPercentage)} matched × {formatPercent(category.effectiveWeight * 100)} weight = {category.points.toFixed(1)} pts
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {category.matchedKeywords.map(keyword => (
+          <span key={`hit-${keyword}`} className="inline-flex items-center gap-0.5 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-800">
+            <Check className="h-3 w-3" />
+            {keyword}
+          </span>
+        ))}
+        {category.missedKeywords.map(keyword => (
+          <span key={`miss-${keyword}`} className="inline-flex items-center gap-0.5 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-500">
+            <X className="h-3 w-3" />
+            {keyword}
+          </span>
+        ))}
+      </div>
+      {!compact && category.matchedValues.length > 0 && (
+        <div className="text-xs text-gray-500 mt-1">
+          {valuesLabel}: {category.matchedValues.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Breakdown of how a candidate's score was reached
+ * Shown in the candidate modal and, compacted, in the results table tooltip
+ */
+const ScoreExplanation = ({ explanation, compact = false }: I_ScoreExplanationProps) => {
+  const { educationTier, educationTierBonus, education, preferences } = explanation;
+
+  return (
+    <div className={`space-y-2 ${compact ? 'text-xs' : 'text-sm'}`}>
+      {CATEGORIES.map(({ key, label, valuesLabel }) => (
+        <CategoryRow
+          key={key}
+          label={label}
+          valuesLabel={valuesLabel}
+          category={explanation[key]}
+          compact={compact}
+        />
+      ))}
+      {preferences && (
+        <div>
+          <div className="flex flex-wrap items-baseline justify-between gap-x-3">
+            <span className="font-medium text-gray-900">Preferences</span>
+            <span className="text-gray-600">+{preferences.points.toFixed(1)} pts</span>
+          </div>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {preferences.matched.map(preference => (
+              <span key={`hit-${preference}`} className="inline-flex items-center gap-0.5 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-800">
+                <Check className="h-3 w-3" />
+                {preference}
+              </span>
+            ))}
+            {preferences.missed.map(preference => (
+              <span key={`miss-${preference}`} className="inline-flex items-center gap-0.5 rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-500">
+                <X className="h-3 w-3" />
+                {preference}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="text-xs text-gray-500 border-t pt-2">
+        Scored with "{explanation.scoringProfileName}".
+        {education.active && (
+          <>
+            {' '}Education weight {education.baseWeight} ({EDUCATION_TIER_LABELS[educationTier]}
+            {educationTierBonus !== 0 && `, ${educationTierBonus > 0 ? '+' : ''}${educationTierBonus} tier bonus`}).
+          </>
+        )}
+        {!education.active && educationTier !== 'standard' && ` ${EDUCATION_TIER_LABELS[educationTier]} bonus applies once education keywords are added.`}
+      </div>
+    </div>
+  );
+};
+
+export default ScoreExplanation;
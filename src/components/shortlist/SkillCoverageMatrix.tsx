@@ -0,0 +1,103 @@
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Check } from "lucide-react";
+import type { I_SkillCoverage, I_TeamSkillCoverage, T_SkillCoverageStatus } from "@/utils/skillCoverage";
+
+interface I_SkillCoverageMatrixProps {
+  coverage: I_TeamSkillCoverage;
+}
+
+const STATUS_BADGES: Record<T_SkillCoverageStatus, { label: string; className: string }> = {
+  gap: { label: 'Gap', className: 'bg-red-100 text-red-800 border-red-200' },
+  single: { label: 'Single point', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  covered: { label: 'Covered', className: 'bg-green-100 text-green-800 border-green-200' },
+};
+
+// e.g. "Ada Lovelace (+ Kafka, Go)" when the candidate would also close other at-risk skills
+const SuggestionList = ({ skill }: { skill: I_SkillCoverage }) => {
+  if (skill.status === 'covered') return null;
+  if (skill.suggestions.length === 0) {
+    return <span className="text-xs text-gray-400">No one in the pool</span>;
+  }
+  return (
+    <ul className="space-y-0.5">
+      {skill.suggestions.map(({ candidate, closes }) => (
+        <li key={candidate.id} className="text-xs text-gray-700">
+          <span className="font-medium">{candidate.name}</span>
+          {closes.length > 1 && (
+            <span className="text-gray-500"> (+ {closes.slice(1).join(', ')})</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+/**
+ * Skill coverage matrix component
+ * Rows are the skills the roles ask for and columns the team members; gaps and single points
+ * of failure come first, each with pool candidates who would close it
+ */
+const SkillCoverageMatrix = ({ coverage }: I_SkillCoverageMatrixProps) => {
+  const { members, skills, gapCount, singlePointCount } = coverage;
+
+  if (skills.length === 0) {
+    return <p className="text-sm text-gray-500">No role has skill keywords yet, so there is nothing to check coverage against.</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-sm text-gray-600 mb-3">
+        {skills.length - gapCount} of {skills.length} required skills covered
+        {gapCount > 0 && <span className="text-red-600 font-medium"> · {gapCount} covered by nobody</span>}
+        {singlePointCount > 0 && <span className="text-amber-700 font-medium"> · {singlePointCount} covered by only one person</span>}
+      </p>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Skill</TableHead>
+              {members.map(member => (
+                <TableHead key={member.roleIndex} className="text-center">
+                  <div className="text-xs text-gray-500 font-normal">{member.roleTitle}</div>
+                  <div>{member.candidate.name}</div>
+                </TableHead>
+              ))}
+              <TableHead>Coverage</TableHead>
+              <TableHead>Would close it</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {skills.map(skill => (
+              <TableRow key={skill.key}>
+                <TableCell>
+                  <div className="font-medium text-gray-900">{skill.keyword.value}</div>
+                  <div className="text-xs text-gray-500">{skill.isMustHave ? 'Must-have' : 'Nice-to-have'}</div>
+                </TableCell>
+                {members.map(member => (
+                  <TableCell key={member.roleIndex} className="text-center">
+                    {skill.coveredByRoleIndexes.includes(member.roleIndex) ? (
+                      <Check className="h-4 w-4 text-green-600 inline" aria-label={`${member.candidate.name} has ${skill.keyword.value}`} />
+                    ) : (
+                      <span className="text-gray-300" aria-hidden="true">–</span>
+                    )}
+                  </TableCell>
+                ))}
+                <TableCell>
+                  <Badge variant="outline" className={STATUS_BADGES[skill.status].className}>
+                    {skill.status === 'covered' ? `${STATUS_BADGES.covered.label} ×${skill.coveredByRoleIndexes.length}` : STATUS_BADGES[skill.status].label}
+                  </Badge>
+                </TableCell>
+                <TableCell>
+                  <SuggestionList skill={skill} />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default SkillCoverageMatrix;
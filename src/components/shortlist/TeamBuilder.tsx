@@ -1,17 +1,47 @@
 import { useAppContext } from "@/hooks/useAppContext";
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import RoleSlotPanel from "./RoleSlotPanel";
-import CandidateFilters, { type I_RoleFilters } from "./CandidateFilters";
+import CandidateFilters from "./CandidateFilters";
 import CandidateSelectionArea from "./CandidateSelectionArea";
-import type { I_CandidateWithScore } from "@/types/Candidate";
+import type { I_CandidateViewState, I_CandidateWithScore, I_RoleFilters, I_TeamRole } from "@/types/Candidate";
+import { DEFAULT_CANDIDATE_VIEW_STATE } from "@/constants";
 import TeamSizeModal from "./TeamSizeModal";
+import CandidateImportModal from "./CandidateImportModal";
+import DataQualityModal from "./DataQualityModal";
+import DuplicateReviewModal from "./DuplicateReviewModal";
+import RoleTemplatesModal from "./RoleTemplatesModal";
+import BudgetWarningModal from "./BudgetWarningModal";
+import { Copy, LayoutTemplate, ShieldAlert, Upload, Wand2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { getRoleFilters, roleFiltersToRequirements } from "@/utils/teamRoles";
+import { proposeTeamAssignment, type I_AssignmentProposal, type I_TeamAssignmentProposal } from "@/utils/teamAssignment";
+import { getAssignmentBudgetWarnings, getBudgetWarnings, parseBudget } from "@/utils/teamBudget";
 
 interface I_TeamBuilderProps {
-  onCandidateViewDetails: (candidate: I_CandidateWithScore) => void;
+  onCandidateViewDetails: (candidate: I_CandidateWithScore, searchQuery?: string) => void;
   onReviewTeam?: () => void;
 }
 
+const ALL_CANDIDATES_VIEW_KEY = 'all-candidates';
+
+// A selection waiting for the user to accept going over budget
+interface I_BudgetCheck {
+  source: 'list' | 'proposal' | 'allProposals'; // Picked from the list, or accepting one or every auto-fill proposal
+  assignments: I_AssignmentProposal[];
+  warnings: string[];
+}
+
+// e.g. "Selecting Ada Lovelace for Frontend" or "Accepting all 3 proposals"
+const describeBudgetCheck = ({ source, assignments }: I_BudgetCheck, roles: I_TeamRole[]): string => {
+  if (source === 'allProposals') return `Accepting all ${assignments.length} proposals`;
+
+  const [{ roleIndex, candidate }] = assignments;
+  return `Selecting ${candidate.name} for ${roles[roleIndex]?.title || `Role ${roleIndex + 1}`}`;
+};
+
 /**
  * Main team building component
  * Manages role selection, candidate filtering, and team assembly
@@ -20,26 +50,56 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
   const { 
     shortlistedTeam,
     teamSize,
+    teamRoles,
     setShortlistedTeam,
     replaceInShortlist,
-    setTeamSize
+    setTeamSize,
+    updateTeamRole,
+    dataQualityReport,
+    duplicateGroups,
+    duplicateDecisions,
+    scoringProfiles,
+    getScoringProfile,
+    candidates,
+    activeTeam,
+    setExcludedCandidateIds,
+    currencySettings
   } = useAppContext();
   
   const [activeRoleIndex, setActiveRoleIndex] = useState<number>(-1);
   const [showChangeTeamSizeModal, setShowChangeTeamSizeModal] = useState<boolean>(false);
+  const [showImportModal, setShowImportModal] = useState<boolean>(false);
+  const [showDataQualityModal, setShowDataQualityModal] = useState<boolean>(false);
+  const [showDuplicateModal, setShowDuplicateModal] = useState<boolean>(false);
+  const [showTemplatesModal, setShowTemplatesModal] = useState<boolean>(false);
   const [shouldAutoProgress, setShouldAutoProgress] = useState(false);
   const [lastSelectedCandidate, setLastSelectedCandidate] = useState<I_CandidateWithScore | null>(null);
-  const [roleFilters, setRoleFilters] = useState<I_RoleFilters>({
-    skills: [],
-    education: [],
-    experience: []
-  });
+  const [proposal, setProposal] = useState<I_TeamAssignmentProposal | null>(null);
+  // Search text, sort order and list position of each role's candidates, keyed by role ID
+  const [candidateViewStates, setCandidateViewStates] = useState<Record<string, I_CandidateViewState>>({});
+  const [budgetCheck, setBudgetCheck] = useState<I_BudgetCheck | null>(null);
+
+  // Filters are stored on each role, so switching roles restores that role's keywords
+  const activeRole = activeRoleIndex >= 0 ? teamRoles[activeRoleIndex] : undefined;
+  const activeRoleTitle = activeRole?.title || `Role ${activeRoleIndex + 1}`;
+  const roleFilters = useMemo(() => getRoleFilters(activeRole), [activeRole]);
+  const scoringProfile = getScoringProfile(activeRole?.scoringProfileId);
+  // With every role filled the whole pool is listed, with a list state of its own
+  const viewStateKey = activeRole?.id ?? ALL_CANDIDATES_VIEW_KEY;
+  const candidateViewState = candidateViewStates[viewStateKey] ?? DEFAULT_CANDIDATE_VIEW_STATE;
+
+  const pendingDuplicateCount = useMemo(
+    () => duplicateGroups.filter(group => group.confidence === 'ambiguous' && !duplicateDecisions[group.id]).length,
+    [duplicateGroups, duplicateDecisions]
+  );
 
-  // Initialize active role index
+  const excludedCandidateIds = useMemo(() => activeTeam?.excludedCandidateIds ?? [], [activeTeam]);
+  const activeTeamId = activeTeam?.id;
+
+  // A proposal belongs to the team it was made for
   useEffect(() => {
-    const firstEmptyRoleIndex = shortlistedTeam.length < teamSize ? shortlistedTeam.length : -1;
-    setActiveRoleIndex(firstEmptyRoleIndex);
-  }, [shortlistedTeam.length, teamSize]);
+    setProposal(null);
+  }, [activeTeamId]);
 
   const findNextEmptyRoleIndex = useCallback((team: I_CandidateWithScore[]) => {
     for (let i = 0; i < teamSize; i++) {
@@ -50,8 +110,14 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
     return -1; // No empty roles found
   }, [teamSize]);
 
+  // Initialize active role index; accepted proposals can leave gaps before the last filled role
+  const firstEmptyRoleIndex = findNextEmptyRoleIndex(shortlistedTeam);
+  useEffect(() => {
+    setActiveRoleIndex(firstEmptyRoleIndex);
+  }, [firstEmptyRoleIndex]);
+
   // Event handlers
-  const handleCandidateSelect = useCallback((candidate: I_CandidateWithScore) => {
+  const handleCandidateSelect = useCallback((candidate: I_CandidateWithScore, budgetConfirmed: boolean = false) => {
     if (activeRoleIndex < 0) return;
   
     // Check if candidate is already selected for another role
@@ -61,6 +127,13 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
     
     if (isAlreadySelected) return;
 
+    // Going over the role's or the team's budget needs a confirmation
+    const budgetWarnings = budgetConfirmed ? [] : getBudgetWarnings(activeTeam, activeRoleIndex, candidate);
+    if (budgetWarnings.length > 0) {
+      setBudgetCheck({ source: 'list', assignments: [{ roleIndex: activeRoleIndex, candidate }], warnings: budgetWarnings });
+      return;
+    }
+
     const isReplacing = activeRoleIndex < shortlistedTeam.length && shortlistedTeam[activeRoleIndex] !== null;
     
     if (isReplacing) {
@@ -77,7 +150,7 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
     // trigger auto-progression to next role
     setShouldAutoProgress(true);
     setLastSelectedCandidate(candidate);
-  }, [activeRoleIndex, shortlistedTeam, replaceInShortlist, setShortlistedTeam]);
+  }, [activeRoleIndex, shortlistedTeam, activeTeam, replaceInShortlist, setShortlistedTeam]);
 
   // Auto-progress effect
   useEffect(() => {
@@ -92,9 +165,30 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
     }
   }, [shouldAutoProgress, lastSelectedCandidate, shortlistedTeam, activeRoleIndex, findNextEmptyRoleIndex]);
 
+  const handleViewStateChange = useCallback((updates: Partial<I_CandidateViewState>) => {
+    setCandidateViewStates(prev => {
+      const current = prev[viewStateKey] ?? DEFAULT_CANDIDATE_VIEW_STATE;
+      const isChanged = (Object.keys(updates) as (keyof I_CandidateViewState)[]).some(key => updates[key] !== current[key]);
+      return isChanged ? { ...prev, [viewStateKey]: { ...current, ...updates } } : prev;
+    });
+  }, [viewStateKey]);
+
   const handleFilterChange = useCallback((filters: I_RoleFilters) => {
-    setRoleFilters(filters);
-  }, []);
+    updateTeamRole(activeRoleIndex, roleFiltersToRequirements(filters));
+    handleViewStateChange({ pageIndex: 0 });
+  }, [activeRoleIndex, updateTeamRole, handleViewStateChange]);
+
+  const handleRoleTitleChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    updateTeamRole(activeRoleIndex, { title: e.target.value });
+  }, [activeRoleIndex, updateTeamRole]);
+
+  const handleRoleBudgetChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    updateTeamRole(activeRoleIndex, { salaryBudget: parseBudget(e.target.value) });
+  }, [activeRoleIndex, updateTeamRole]);
+
+  const handleScoringProfileChange = useCallback((profileId: string) => {
+    updateTeamRole(activeRoleIndex, { scoringProfileId: profileId });
+  }, [activeRoleIndex, updateTeamRole]);
 
   const handleRoleSelect = useCallback((roleIndex: number) => {
     if (roleIndex < 0 || roleIndex >= teamSize) return;
@@ -102,6 +196,83 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
     setActiveRoleIndex(roleIndex);
   }, [teamSize]);
 
+  // Solve the whole team at once instead of picking the best candidate role by role
+  const handleAutoFill = useCallback((excludedIds: string[] = excludedCandidateIds) => {
+    setProposal(proposeTeamAssignment(teamRoles, candidates, { excludedCandidateIds: excludedIds, getScoringProfile }));
+  }, [teamRoles, candidates, excludedCandidateIds, getScoringProfile]);
+
+  const removeFromProposal = useCallback((roleIndex: number) => {
+    setProposal(prev => prev && {
+      ...prev,
+      assignments: prev.assignments.filter(assignment => assignment.roleIndex !== roleIndex),
+    });
+  }, []);
+
+  // Accepting moves the candidate into the slot, clearing any other slot they held
+  const handleAcceptProposal = useCallback((roleIndex: number, budgetConfirmed: boolean = false) => {
+    const proposed = proposal?.assignments.find(assignment => assignment.roleIndex === roleIndex);
+    if (!proposed) return;
+
+    const budgetWarnings = budgetConfirmed ? [] : getBudgetWarnings(activeTeam, roleIndex, proposed.candidate);
+    if (budgetWarnings.length > 0) {
+      setBudgetCheck({ source: 'proposal', assignments: [proposed], warnings: budgetWarnings });
+      return;
+    }
+
+    const newTeam = Array.from({ length: teamSize }, (_, index) =>
+      shortlistedTeam[index]?.id === proposed.candidate.id ? null : shortlistedTeam[index] ?? null
+    ) as I_CandidateWithScore[];
+    newTeam[roleIndex] = proposed.candidate;
+    setShortlistedTeam(newTeam);
+    removeFromProposal(roleIndex);
+  }, [proposal, activeTeam, teamSize, shortlistedTeam, setShortlistedTeam, removeFromProposal]);
+
+  // Accepting every proposal at once needs the same confirmation when the new team goes over budget
+  const handleAcceptAllProposals = useCallback((budgetConfirmed: boolean = false) => {
+    if (!proposal) return;
+
+    const budgetWarnings = budgetConfirmed ? [] : getAssignmentBudgetWarnings(activeTeam, proposal.assignments);
+    if (budgetWarnings.length > 0) {
+      setBudgetCheck({ source: 'allProposals', assignments: proposal.assignments, warnings: budgetWarnings });
+      return;
+    }
+
+    const proposedIds = new Set(proposal.assignments.map(assignment => assignment.candidate.id));
+    const newTeam = Array.from({ length: teamSize }, (_, index) =>
+      proposedIds.has(shortlistedTeam[index]?.id) ? null : shortlistedTeam[index] ?? null
+    ) as I_CandidateWithScore[];
+    proposal.assignments.forEach(({ roleIndex, candidate }) => {
+      newTeam[roleIndex] = candidate;
+    });
+    setShortlistedTeam(newTeam);
+    setProposal(null);
+  }, [proposal, activeTeam, teamSize, shortlistedTeam, setShortlistedTeam]);
+
+  const handleBudgetConfirm = useCallback(() => {
+    if (!budgetCheck) return;
+
+    setBudgetCheck(null);
+    const [{ roleIndex, candidate }] = budgetCheck.assignments;
+    switch (budgetCheck.source) {
+      case 'list':
+        handleCandidateSelect(candidate, true);
+        break;
+      case 'proposal':
+        handleAcceptProposal(roleIndex, true);
+        break;
+      case 'allProposals':
+        handleAcceptAllProposals(true);
+        break;
+    }
+  }, [budgetCheck, handleAcceptProposal, handleCandidateSelect, handleAcceptAllProposals]);
+
+  // Excluding a proposed candidate re-solves the team without them
+  const handleExcludeCandidate = useCallback((candidateId: string) => {
+    const updatedExcludedIds = [...excludedCandidateIds, candidateId];
+    setExcludedCandidateIds(updatedExcludedIds);
+    handleAutoFill(updatedExcludedIds);
+  }, [excludedCandidateIds, setExcludedCandidateIds, handleAutoFill]);
+
   const handleChangeTeamSize = () => {
     setShowChangeTeamSizeModal(true);
   };
@@ -148,20 +319,105 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
                 <RoleSlotPanel 
                   activeRoleIndex={activeRoleIndex}
                   onRoleSelect={handleRoleSelect}
+                  proposals={proposal?.assignments}
+                  onAcceptProposal={handleAcceptProposal}
+                  onRejectProposal={removeFromProposal}
+                  onExcludeCandidate={handleExcludeCandidate}
                 />
               </div>
+
+              {/* Auto-fill */}
+              <div className="p-4 border-t space-y-2">
+                <Button variant="outline" size="sm" className="w-full" onClick={() => handleAutoFill()} disabled={teamSize === 0}>
+                  <Wand2 className="h-3 w-3 mr-1" />
+                  Auto-fill team
+                </Button>
+                {proposal && (
+                  <div className="text-xs text-gray-600 space-y-1">
+                    <p>
+                      {proposal.assignments.length > 0
+                        ? `${proposal.assignments.length} proposed, total score ${proposal.totalScore.toFixed(1)}. Accept slots one by one or all at once.`
+                        : 'No changes proposed.'}
+                    </p>
+                    {proposal.unfilledRoleIndexes.length > 0 && (
+                      <p>No eligible candidate left for {proposal.unfilledRoleIndexes.map(index => teamRoles[index]?.title || `Role ${index + 1}`).join(', ')}.</p>
+                    )}
+                    {proposal.skippedRoleIndexes.length > 0 && (
+                      <p>Skipped roles without keywords: {proposal.skippedRoleIndexes.map(index => teamRoles[index]?.title || `Role ${index + 1}`).join(', ')}.</p>
+                    )}
+                    <div className="flex gap-2">
+                      {proposal.assignments.length > 0 && (
+                        <Button size="sm" className="h-7 text-xs" onClick={() => handleAcceptAllProposals()}>
+                          Accept all
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => setProposal(null)}>
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                {excludedCandidateIds.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {excludedCandidateIds.length} candidate{excludedCandidateIds.length !== 1 ? 's' : ''} excluded from auto-fill.{' '}
+                    <button className="text-blue-600 hover:underline" onClick={() => setExcludedCandidateIds([])}>
+                      Clear
+                    </button>
+                  </p>
+                )}
+              </div>
             </div>
 
             {/* Filters Section */}
             {showFilters && (
               <div className="bg-white rounded-lg border shadow-sm w-full">
                 <div className="p-4 border-b">
-                  <h3 className="text-md font-medium text-gray-900">
-                    Filters for: Role {activeRoleIndex + 1}
-                  </h3>
-                  <p className="text-sm text-gray-600">
-                    Role {activeRoleIndex + 1}
-                  </p>
+                  <div className="flex items-center justify-between gap-2">
+                    <h3 className="text-md font-medium text-gray-900">
+                      Filters for: {activeRoleTitle}
+                    </h3>
+                    <Button variant="outline" size="sm" onClick={() => setShowTemplatesModal(true)}>
+                      <LayoutTemplate className="h-3 w-3 mr-1" />
+                      Templates
+                    </Button>
+                  </div>
+                  <label htmlFor="role-title-input" className="block text-sm text-gray-600 mt-2 mb-1">
+                    Role title
+                  </label>
+                  <Input
+                    id="role-title-input"
+                    value={activeRole?.title ?? ''}
+                    onChange={handleRoleTitleChange}
+                    placeholder={`Role ${activeRoleIndex + 1}`}
+                  />
+                  <label htmlFor="role-budget-input" className="block text-sm text-gray-600 mt-2 mb-1">
+                    Role salary budget ({currencySettings.reportingCurrency})
+                  </label>
+                  <Input
+                    id="role-budget-input"
+                    type="number"
+                    min={0}
+                    step={1000}
+                    value={activeRole?.salaryBudget ?? ''}
+                    onChange={handleRoleBudgetChange}
+                    placeholder="No budget"
+                  />
+                  <div className="flex items-center justify-between mt-2 mb-1">
+                    <span className="text-sm text-gray-600">Scoring profile</span>
+                    <Link to="/settings" className="text-xs text-blue-600 hover:underline">
+                      Edit profiles
+                    </Link>
+                  </div>
+                  <Select value={scoringProfile.id} onValueChange={handleScoringProfileChange}>
+                    <SelectTrigger className="w-full" aria-label="Scoring profile">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {scoringProfiles.map(profile => (
+                        <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div className="p-4">
@@ -213,22 +469,42 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
                   <div>
                     <h2 className="text-lg font-semibold text-gray-900">
                       {activeRoleIndex >= 0 
-                        ? `Candidates for Role ${activeRoleIndex + 1}`
+                        ? `Candidates for ${activeRoleTitle}`
                         : 'All Candidates'
                       }
                     </h2>
                     <p className="text-sm text-gray-600">
                       {activeRoleIndex >= 0 
                         ? (activeRoleIndex < validSelectedCandidates.length 
-                            ? `Replacing candidate for Role ${activeRoleIndex + 1}` 
-                            : `Selecting candidate for Role ${activeRoleIndex + 1}`
+                            ? `Replacing candidate for ${activeRoleTitle}` 
+                            : `Selecting candidate for ${activeRoleTitle}`
                           )
                         : 'All roles have been filled. You can review your team or make changes.'
                       }
                     </p>
                   </div>
-                  <div className="text-sm text-gray-500">
-                    Click "Select" to add a candidate to your team
+                  <div className="flex items-center gap-3">
+                    <div className="text-sm text-gray-500">
+                      Click "Select" to add a candidate to your team
+                    </div>
+                    <Button variant="outline" size="sm" onClick={() => setShowImportModal(true)}>
+                      <Upload className="h-3 w-3 mr-1" />
+                      Import
+                    </Button>
+                    {dataQualityReport && (
+                      <Button variant="outline" size="sm" onClick={() => setShowDataQualityModal(true)}>
+                        <ShieldAlert className="h-3 w-3 mr-1" />
+                        Data quality
+                        {dataQualityReport.quarantined.length > 0 && ` (${dataQualityReport.quarantined.length})`}
+                      </Button>
+                    )}
+                    {duplicateGroups.length > 0 && (
+                      <Button variant="outline" size="sm" onClick={() => setShowDuplicateModal(true)}>
+                        <Copy className="h-3 w-3 mr-1" />
+                        Duplicates
+                        {pendingDuplicateCount > 0 && ` (${pendingDuplicateCount})`}
+                      </Button>
+                    )}
                   </div>
                 </div>
               </div>
@@ -236,11 +512,15 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
               <div className="p-4">
                 <CandidateSelectionArea
                   roleFilters={roleFilters}
+                  scoringProfile={scoringProfile}
                   onCandidateSelect={handleCandidateSelect}
                   onCandidateViewDetails={onCandidateViewDetails}
                   showSelectButtons={showSelectButtons}
                   selectedCandidates={shortlistedTeam}
                   activeRoleIndex={activeRoleIndex}
+                  viewStateKey={viewStateKey}
+                  viewState={candidateViewState}
+                  onViewStateChange={handleViewStateChange}
                 />
               </div>
             </div>
@@ -254,6 +534,41 @@ const TeamBuilder = ({ onCandidateViewDetails, onReviewTeam }: I_TeamBuilderProp
           onConfirm={handleTeamSizeConfirm}
           currentTeamSize={teamSize}
         />
+
+        {/* Candidate Import Modal */}
+        <CandidateImportModal
+          isOpen={showImportModal}
+          onClose={() => setShowImportModal(false)}
+        />
+
+        {/* Data Quality Modal */}
+        <DataQualityModal
+          isOpen={showDataQualityModal}
+          onClose={() => setShowDataQualityModal(false)}
+        />
+
+        {/* Budget Warning Modal */}
+        <BudgetWarningModal
+          isOpen={budgetCheck !== null}
+          action={budgetCheck ? describeBudgetCheck(budgetCheck, teamRoles) : ''}
+          warnings={budgetCheck?.warnings ?? []}
+          onConfirm={handleBudgetConfirm}
+          onCancel={() => setBudgetCheck(null)}
+        />
+
+        {/* Role Templates Modal */}
+        <RoleTemplatesModal
+          isOpen={showTemplatesModal}
+          onClose={() => setShowTemplatesModal(false)}
+          roleIndex={activeRoleIndex}
+          roleTitle={activeRoleTitle}
+        />
+
+        {/* Duplicate Review Modal */}
+        <DuplicateReviewModal
+          isOpen={showDuplicateModal}
+          onClose={() => setShowDuplicateModal(false)}
+        />
       </div>
     </div>
   );
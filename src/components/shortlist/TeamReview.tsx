@@ -3,8 +3,14 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableHeader, TableBody, TableRow, TableCell, TableHead } from "@/components/ui/table";
-import { useMemo } from "react";
+import { useCallback, useMemo } from "react";
+import { Download, Printer } from "lucide-react";
 import type { I_CandidateWithScore } from "@/types/Candidate";
+import { formatBudgetAmount, getTeamBudgetSummary } from "@/utils/teamBudget";
+import { getTeamSkillCoverage } from "@/utils/skillCoverage";
+import { downloadTextFile, openPrintWindow } from "@/utils/download";
+import { exportTeamCsv, exportTeamHtml, exportTeamJson, exportTeamMarkdown, getTeamExportFileName } from "@/utils/teamExport";
+import SkillCoverageMatrix from "./SkillCoverageMatrix";
 
 interface I_TeamReviewProps {
   onBackToBuilding: () => void;
@@ -12,7 +18,10 @@ interface I_TeamReviewProps {
 }
 
 const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
-  const { shortlistedTeam, teamSize } = useAppContext();
+  const { shortlistedTeam, teamSize, teamRoles, activeTeam, candidates } = useAppContext();
+  // Not memoized: salaries are read at the current exchange rates, and the team only has a few roles
+  const budgetSummary = getTeamBudgetSummary(activeTeam);
+  const isOverBudget = budgetSummary.remaining !== null && budgetSummary.remaining < 0;
 
   const teamMetrics = useMemo(() => {
     const teamScore = shortlistedTeam.length > 0 
@@ -31,6 +40,31 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
     };
   }, [shortlistedTeam, teamSize]);
 
+  const skillCoverage = useMemo(() => getTeamSkillCoverage(activeTeam, {
+    pool: candidates,
+    excludedCandidateIds: activeTeam?.excludedCandidateIds,
+  }), [activeTeam, candidates]);
+
+  const handleExportCsv = useCallback(() => {
+    downloadTextFile(getTeamExportFileName(activeTeam, 'csv'), exportTeamCsv(activeTeam), 'text/csv');
+  }, [activeTeam]);
+
+  const handleExportJson = useCallback(() => {
+    downloadTextFile(getTeamExportFileName(activeTeam, 'json'), exportTeamJson(activeTeam), 'application/json');
+  }, [activeTeam]);
+
+  const handleExportMarkdown = useCallback(() => {
+    downloadTextFile(getTeamExportFileName(activeTeam, 'md'), exportTeamMarkdown(activeTeam), 'text/markdown');
+  }, [activeTeam]);
+
+  // Blocked popups get the page as a file instead, which can be opened and printed from there
+  const handlePrint = useCallback(() => {
+    const html = exportTeamHtml(activeTeam);
+    if (!openPrintWindow(html)) {
+      downloadTextFile(getTeamExportFileName(activeTeam, 'html'), html, 'text/html');
+    }
+  }, [activeTeam]);
+
   const getScoreBackgroundColor = (score: number): string => {
     const intensity = Math.min((score || 0) / 100, 1);
     return `rgba(59, 130, 246, ${intensity})`;
@@ -55,7 +89,7 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
   return (
     <div className="max-w-6xl mx-auto">
       {/* Header */}
-      <div className="flex justify-between items-center mb-6">
+      <div className="flex justify-between items-center mb-3">
         <h2 className="text-2xl font-bold text-gray-900">Team Review</h2>
         <div className="flex gap-3">
           <Button
@@ -68,13 +102,34 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
             variant="outline"
             onClick={onStartOver}
           >
-            Start Over
+            Start New Team
           </Button>
         </div>
       </div>
 
+      {/* Export */}
+      <div className="flex flex-wrap items-center justify-end gap-2 mb-6">
+        <span className="text-sm text-gray-500 mr-1">Export team:</span>
+        <Button size="sm" variant="outline" onClick={handleExportCsv} disabled={shortlistedTeam.length === 0}>
+          <Download className="h-3 w-3 mr-1" />
+          CSV
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleExportJson} disabled={shortlistedTeam.length === 0}>
+          <Download className="h-3 w-3 mr-1" />
+          JSON
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleExportMarkdown} disabled={shortlistedTeam.length === 0}>
+          <Download className="h-3 w-3 mr-1" />
+          Markdown
+        </Button>
+        <Button size="sm" variant="outline" onClick={handlePrint} disabled={shortlistedTeam.length === 0}>
+          <Printer className="h-3 w-3 mr-1" />
+          Print / PDF
+        </Button>
+      </div>
+
       {/* Team Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
         <Card>
           <CardContent className="pt-6">
             <div className="text-center">
@@ -113,8 +168,39 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
             </div>
           </CardContent>
         </Card>
+
+        <Card className={isOverBudget ? 'border-red-300' : undefined}>
+          <CardContent className="pt-6">
+            <div className="text-center">
+              <div className={`text-3xl font-bold ${isOverBudget ? 'text-red-600' : 'text-amber-600'}`}>
+                {formatBudgetAmount(budgetSummary.committed)}
+              </div>
+              <div className="text-sm text-gray-500">
+                Total Salaries
+              </div>
+              {budgetSummary.totalBudget !== undefined && budgetSummary.remaining !== null && (
+                <div className={`text-xs mt-1 ${isOverBudget ? 'text-red-600 font-medium' : 'text-green-700'}`}>
+                  {formatBudgetAmount(Math.abs(budgetSummary.remaining))} {isOverBudget ? 'over' : 'under'} the {formatBudgetAmount(budgetSummary.totalBudget)} budget
+                </div>
+              )}
+              {budgetSummary.unknownSalaryCount > 0 && (
+                <div className="text-xs text-gray-500 mt-1">
+                  {budgetSummary.unknownSalaryCount} without a readable expectation
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Skill coverage: members × the skills the roles ask for */}
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <h3 className="font-bold text-gray-900 mb-4">Skill Coverage</h3>
+          <SkillCoverageMatrix coverage={skillCoverage} />
+        </CardContent>
+      </Card>
+
       {/* Team Skills Overview */}
       <Card className="mb-6">
         <CardContent className="pt-6">
@@ -147,17 +233,19 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
                 <TableHead>Top Skills</TableHead>
                 <TableHead>Education</TableHead>
                 <TableHead>Experience</TableHead>
+                <TableHead>Salary</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
               {shortlistedTeam.map((candidate, index) => {
                 const education = formatEducation(candidate);
                 const experience = formatExperience(candidate);
+                const budgetLine = budgetSummary.roles[index];
                 
                 return (
                   <TableRow key={candidate.id}>
                     <TableCell>
-                      <Badge variant="outline">Role {index + 1}</Badge>
+                      <Badge variant="outline">{teamRoles[index]?.title || `Role ${index + 1}`}</Badge>
                     </TableCell>
                     <TableCell>
                       <div className="font-medium text-gray-900">{candidate.name}</div>
@@ -194,6 +282,16 @@ const TeamReview = ({ onBackToBuilding, onStartOver }: I_TeamReviewProps) => {
                       <div className="text-sm text-gray-900">{experience.role}</div>
                       <div className="text-xs text-gray-500">{experience.company}</div>
                     </TableCell>
+                    <TableCell>
+                      <div className="text-sm text-gray-900">
+                        {budgetLine && budgetLine.salary !== null ? formatBudgetAmount(budgetLine.salary) : 'N/A'}
+                      </div>
+                      {budgetLine && budgetLine.difference !== null && (
+                        <div className={`text-xs ${budgetLine.difference < 0 ? 'text-red-600 font-medium' : 'text-green-700'}`}>
+                          {formatBudgetAmount(Math.abs(budgetLine.difference))} {budgetLine.difference < 0 ? 'over' : 'under'} budget
+                        </div>
+                      )}
+                    </TableCell>
                   </TableRow>
                 );
               })}
@@ -3,6 +3,7 @@ import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { TEAM_SIZE_CONSTRAINTS } from "@/constants";
+import { parseBudget } from "@/utils/teamBudget";
 
 interface I_TeamSizeSetupProps {
   onSubmit: () => void;
@@ -14,8 +15,10 @@ interface I_TeamSizeSetupProps {
  * Allows users to define the number of team members needed
  */
 const TeamSizeSetup = ({ onSubmit, onBack }: I_TeamSizeSetupProps) => {
-  const { teamSize, setTeamSize } = useAppContext();
+  const { teamSize, setTeamSize, activeTeam, renameTeam, setTeamBudget, currencySettings } = useAppContext();
   const [inputValue, setInputValue] = useState('');
+  const [teamName, setTeamName] = useState(activeTeam?.name ?? '');
+  const [budgetValue, setBudgetValue] = useState(activeTeam?.budget?.toString() ?? '');
 
   // Initialize input with existing team size
   useEffect(() => {
@@ -33,6 +36,10 @@ const TeamSizeSetup = ({ onSubmit, onBack }: I_TeamSizeSetupProps) => {
       return;
     }
 
+    if (activeTeam && teamName.trim()) {
+      renameTeam(activeTeam.id, teamName);
+    }
+    setTeamBudget(parseBudget(budgetValue));
     setTeamSize(size);
     onSubmit();
   };
@@ -54,6 +61,23 @@ const TeamSizeSetup = ({ onSubmit, onBack }: I_TeamSizeSetupProps) => {
       </h2>
       
       <form onSubmit={handleSubmit}>
+        <div className="mb-6">
+          <label 
+            htmlFor="team-name-input"
+            className="block text-sm font-medium mb-2"
+          >
+            What is this hiring project called?
+          </label>
+          
+          <Input
+            id="team-name-input"
+            type="text"
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+            placeholder="e.g., Platform Team Q3"
+          />
+        </div>
+
         <div className="mb-6">
           <label 
             htmlFor="team-size-input"
@@ -75,6 +99,28 @@ const TeamSizeSetup = ({ onSubmit, onBack }: I_TeamSizeSetupProps) => {
           />
         </div>
 
+        <div className="mb-6">
+          <label
+            htmlFor="team-budget-input"
+            className="block text-sm font-medium mb-2"
+          >
+            Total annual salary budget in {currencySettings.reportingCurrency} (optional)
+          </label>
+
+          <Input
+            id="team-budget-input"
+            type="number"
+            min={0}
+            step={1000}
+            value={budgetValue}
+            onChange={(e) => setBudgetValue(e.target.value)}
+            placeholder="e.g., 600000"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Selected candidates' salary expectations are tracked against it. Per-role budgets can be set while building.
+          </p>
+        </div>
+
         <div className="flex gap-3">
           <Button
             type="button"
@@ -1,5 +1,69 @@
+import type { I_CandidateViewState, I_ScoringProfile, T_CandidateTableMode, T_EducationLevel, T_WorkAvailability } from '../types';
+
 // Team size constraints
 export const TEAM_SIZE_CONSTRAINTS = {
   MIN: 1,
   MAX: 15,
-} as const;
\ No newline at end of file
+} as const;
+
+// Scoring profile used by roles without one; it cannot be deleted
+export const DEFAULT_SCORING_PROFILE_ID = 'balanced';
+
+// Profiles available before the user creates their own
+export const DEFAULT_SCORING_PROFILES: I_ScoringProfile[] = [
+  {
+    id: DEFAULT_SCORING_PROFILE_ID,
+    name: 'Balanced',
+    weights: { skills: 0.5, experience: 0.3, education: 0.1 },
+    prestigeEducationWeights: { top50: 0.15, top25: 0.2 },
+  },
+  {
+    id: 'skills-first',
+    name: 'Skills first',
+    weights: { skills: 0.7, experience: 0.2, education: 0.1 },
+    prestigeEducationWeights: { top50: 0.1, top25: 0.1 },
+  },
+  {
+    id: 'experience-first',
+    name: 'Experience first',
+    weights: { skills: 0.3, experience: 0.6, education: 0.1 },
+    prestigeEducationWeights: { top50: 0.15, top25: 0.2 },
+  },
+];
+
+// Candidate table
+export const DEFAULT_CANDIDATE_TABLE_MODE: T_CandidateTableMode = 'scroll';
+export const CANDIDATE_SCROLL_BATCH_SIZE = 50; // Rows added each time the infinite scroll nears the end
+export const CANDIDATE_PAGE_SIZE_OPTIONS = [10, 15, 20];
+export const DEFAULT_CANDIDATE_SORTING: I_CandidateViewState['sorting'] = [{ id: 'score', desc: true }];
+export const DEFAULT_CANDIDATE_VIEW_STATE: I_CandidateViewState = {
+  searchQuery: '',
+  sorting: DEFAULT_CANDIDATE_SORTING,
+  pageIndex: 0,
+};
+
+// Range filter choices
+export const EDUCATION_LEVEL_LABELS: Record<T_EducationLevel, string> = {
+  'high-school': 'High School',
+  associate: "Associate's",
+  bachelor: "Bachelor's",
+  master: "Master's",
+  doctorate: 'Doctorate / J.D.',
+};
+
+export const MIN_GPA_OPTIONS: { value: number; label: string }[] = [
+  { value: 3.0, label: '3.0+' },
+  { value: 3.5, label: '3.5+ (Cum Laude)' },
+  { value: 3.7, label: '3.7+ (Magna Cum Laude)' },
+  { value: 3.9, label: '3.9+ (Summa Cum Laude)' },
+  { value: 4.0, label: '4.0' },
+];
+
+// Location and availability filters
+export const WORK_AVAILABILITY_LABELS: Record<T_WorkAvailability, string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+};
+
+// Points a met location or availability preference adds to the score (which stays capped at 100)
+export const PREFERENCE_BONUS_POINTS = 10;
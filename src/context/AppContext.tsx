@@ -1,7 +1,17 @@
-import React, { createContext, useEffect, useState, useCallback } from 'react';
-import type { I_CandidateWithScore } from '@/types';
+import React, { createContext, useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import type { I_Candidate, I_CandidateWithScore, I_RoleTemplate, I_ScoringProfile, I_Team, I_TeamRole } from '@/types';
+import { DEFAULT_SCORING_PROFILE_ID, DEFAULT_SCORING_PROFILES } from '@/constants';
 import { candidateCache } from '@/utils/api';
-import { clearShortlistedTeam, clearTeamSize, isStorageAvailable, loadShortlistedTeam, loadTeamSize, saveShortlistedTeamAsync, saveTeamSizeAsync } from '@/utils/storage';
+import type { T_ImportMode } from '@/utils/candidateImport';
+import type { I_DataQualityReport } from '@/utils/candidateValidation';
+import type { I_DuplicateGroup, T_DuplicateDecision } from '@/utils/dedupe';
+import { DEFAULT_SKILL_TAXONOMY, skillTaxonomy, type I_SkillTaxonomyEntry } from '@/utils/skillTaxonomy';
+import { currencyConverter, DEFAULT_CURRENCY_SETTINGS, type I_CurrencySettings } from '@/utils/currency';
+import { clearCurrencySettings, clearSkillTaxonomy, isStorageAvailable, loadActiveTeamId, loadCurrencySettings, loadDuplicateDecisions, loadRoleTemplates, loadScoringProfiles, loadSkillTaxonomy, loadTeams, migrateLegacyTeam, saveActiveTeamIdAsync, saveCurrencySettingsAsync, saveDuplicateDecisionsAsync, saveRoleTemplatesAsync, saveScoringProfilesAsync, saveSkillTaxonomyAsync, saveTeamAsync, saveTeamIdsAsync } from '@/utils/storage';
+import { createScoringProfile as createProfile, getScoringProfile as findScoringProfile } from '@/utils/scoringProfiles';
+import { convertRoleTemplateCurrency, createRoleTemplate, findMatchingScoringProfile, getRoleTemplateUpdates, mergeRoleTemplates, STARTER_ROLE_TEMPLATES } from '@/utils/roleTemplates';
+import { createCandidateMatcher, createTeam as createEmptyTeam, duplicateTeam as copyTeam, getTeamShortlist, relinkTeamCandidates, resizeTeam, setTeamShortlist } from '@/utils/teams';
+import { convertTeamCurrency } from '@/utils/teamBudget';
 
 // Context interface
 interface AppContextType {
@@ -9,10 +19,26 @@ interface AppContextType {
   candidates: I_CandidateWithScore[];
   loading: boolean;
   error: string | null;
+  importCandidates: (candidates: I_Candidate[], mode: T_ImportMode) => Promise<number>;
+
+  // Data quality of the bundled candidate records
+  dataQualityReport: I_DataQualityReport | null;
+  partialRecordsReleased: boolean;
+  releasePartialRecords: () => Promise<void>;
+
+  // Duplicate records found in the pool
+  duplicateGroups: I_DuplicateGroup[];
+  duplicateDecisions: Record<string, T_DuplicateDecision>;
+  resolveDuplicateGroup: (groupId: string, decision: T_DuplicateDecision) => Promise<void>;
   
-  // Shortlist management
+  // Teams / hiring projects
+  teams: I_Team[];
+  activeTeam: I_Team | undefined;
+
+  // Shortlist management (scoped to the active team)
   shortlistedTeam: I_CandidateWithScore[];
   teamSize: number;
+  teamRoles: I_TeamRole[];
   
   // Actions
   setTeamSize: (size: number) => void;
@@ -20,6 +46,40 @@ interface AppContextType {
   replaceInShortlist: (candidate: I_CandidateWithScore, roleIndex: number) => void;
   clearShortlist: () => void;
   setShortlistedTeam: (team: I_CandidateWithScore[]) => void;
+  updateTeamRole: (roleIndex: number, updates: Partial<Omit<I_TeamRole, 'id'>>) => void;
+  setExcludedCandidateIds: (candidateIds: string[]) => void;
+  setTeamBudget: (budget: number | undefined) => void;
+
+  // Team actions
+  createTeam: (name?: string) => string;
+  renameTeam: (teamId: string, name: string) => void;
+  duplicateTeam: (teamId: string) => string | null;
+  setTeamArchived: (teamId: string, archived: boolean) => void;
+  switchTeam: (teamId: string) => void;
+
+  // Scoring profiles
+  scoringProfiles: I_ScoringProfile[];
+  getScoringProfile: (profileId?: string) => I_ScoringProfile;
+  createScoringProfile: (baseProfileId?: string) => string;
+  updateScoringProfile: (profileId: string, updates: Partial<Omit<I_ScoringProfile, 'id'>>) => void;
+  deleteScoringProfile: (profileId: string) => void;
+
+  // Role templates that can be applied to any role of any team
+  roleTemplates: I_RoleTemplate[];
+  saveRoleTemplate: (roleIndex: number, name: string) => string | null;
+  applyRoleTemplate: (roleIndex: number, templateId: string) => void;
+  importRoleTemplates: (templates: I_RoleTemplate[]) => void;
+  deleteRoleTemplate: (templateId: string) => void;
+
+  // Skill synonyms and hierarchy used for skill matching
+  skillTaxonomyEntries: I_SkillTaxonomyEntry[];
+  updateSkillTaxonomy: (entries: I_SkillTaxonomyEntry[]) => void;
+  resetSkillTaxonomy: () => void;
+
+  // Reporting currency and exchange rates salaries are normalized with
+  currencySettings: I_CurrencySettings;
+  updateCurrencySettings: (settings: I_CurrencySettings) => void;
+  resetCurrencySettings: () => void;
 
   // Storage availability
   storageAvailable: boolean;
@@ -38,8 +98,22 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const [candidates, setCandidates] = useState<I_CandidateWithScore[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
-  const [shortlistedTeam, setShortlistedTeam] = useState<I_CandidateWithScore[]>([]);
-  const [teamSize, setTeamSizeState] = useState<number>(0);
+  const [dataQualityReport, setDataQualityReport] = useState<I_DataQualityReport | null>(null);
+  const [partialRecordsReleased, setPartialRecordsReleased] = useState<boolean>(false);
+  const [duplicateGroups, setDuplicateGroups] = useState<I_DuplicateGroup[]>([]);
+  const [duplicateDecisions, setDuplicateDecisions] = useState<Record<string, T_DuplicateDecision>>({});
+  const [teams, setTeams] = useState<I_Team[]>([]);
+  const [activeTeamId, setActiveTeamId] = useState<string | null>(null);
+  const [teamsLoaded, setTeamsLoaded] = useState<boolean>(false);
+  const [scoringProfiles, setScoringProfiles] = useState<I_ScoringProfile[]>(DEFAULT_SCORING_PROFILES);
+  const [scoringProfilesLoaded, setScoringProfilesLoaded] = useState<boolean>(false);
+  const [roleTemplates, setRoleTemplates] = useState<I_RoleTemplate[]>(STARTER_ROLE_TEMPLATES);
+  const [roleTemplatesLoaded, setRoleTemplatesLoaded] = useState<boolean>(false);
+  const [skillTaxonomyEntries, setSkillTaxonomyEntries] = useState<I_SkillTaxonomyEntry[]>(() => skillTaxonomy.getEntries());
+  const [currencySettings, setCurrencySettings] = useState<I_CurrencySettings>(() => currencyConverter.getSettings());
+
+  // Tracks the last saved version of each team so unchanged teams are not rewritten
+  const savedTeamVersions = useRef(new Map<string, I_Team>());
 
   // Check storage availability
   const storageAvailable = isStorageAvailable();
@@ -58,6 +132,9 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       } else if (result.data) {
         setCandidates(result.data);
       }
+      setDataQualityReport(candidateCache.getDataQualityReport());
+      setPartialRecordsReleased(candidateCache.arePartialRecordsReleased());
+      setDuplicateGroups(candidateCache.getDuplicateGroups());
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load candidates');
       setCandidates([]);
@@ -66,105 +143,439 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   }, []);
 
-  // Load data on mount
+  // Load data on mount, restoring earlier duplicate review decisions first
   useEffect(() => {
+    if (storageAvailable) {
+      const savedDecisions = loadDuplicateDecisions();
+      candidateCache.setDuplicateDecisions(savedDecisions);
+      setDuplicateDecisions(savedDecisions);
+    }
     loadCandidates();
+  }, [loadCandidates, storageAvailable]);
+
+  // Add uploaded candidates to the pool and reload it
+  const importCandidates = useCallback(async (importedCandidates: I_Candidate[], mode: T_ImportMode) => {
+    const importedCount = candidateCache.importCandidates(importedCandidates, mode);
+    await loadCandidates();
+    return importedCount;
   }, [loadCandidates]);
 
-  // Load shortlisted team from localStorage on mount
+  // Let quarantined partial records into the pool and reload it
+  const releasePartialRecords = useCallback(async () => {
+    candidateCache.releasePartialRecords();
+    await loadCandidates();
+  }, [loadCandidates]);
+
+  // Merge or keep apart an ambiguous duplicate group and reload the pool
+  const resolveDuplicateGroup = useCallback(async (groupId: string, decision: T_DuplicateDecision) => {
+    const decisions = candidateCache.resolveDuplicateGroup(groupId, decision);
+    setDuplicateDecisions(decisions);
+    if (storageAvailable) {
+      saveDuplicateDecisionsAsync(decisions).catch(error => {
+        console.error('Failed to save duplicate decisions:', error);
+      });
+    }
+    await loadCandidates();
+  }, [loadCandidates, storageAvailable]);
+
+  // Load teams from localStorage on mount
   useEffect(() => {
     if (storageAvailable) {
-      const savedTeam = loadShortlistedTeam();
-      const savedTeamSize = loadTeamSize();
-      
-      if (savedTeam.length > 0) {
-        setShortlistedTeam(savedTeam);
+      // The single shortlist of earlier versions is saved as a team first, so it loads like any other
+      migrateLegacyTeam();
+      const allTeams = loadTeams();
+      const savedActiveTeamId = loadActiveTeamId();
+
+      setTeams(allTeams);
+      if (savedActiveTeamId && allTeams.some(team => team.id === savedActiveTeamId)) {
+        setActiveTeamId(savedActiveTeamId);
       }
-      
-      if (savedTeamSize > 0) {
-        setTeamSizeState(savedTeamSize);
+    }
+    setTeamsLoaded(true);
+  }, [storageAvailable]);
+
+  // Load scoring profiles from localStorage on mount
+  useEffect(() => {
+    if (storageAvailable) {
+      const savedProfiles = loadScoringProfiles();
+      if (savedProfiles && savedProfiles.length > 0) {
+        setScoringProfiles(savedProfiles);
       }
     }
+    setScoringProfilesLoaded(true);
   }, [storageAvailable]);
 
-  // Save shortlisted team to localStorage when it changes
+  // Load the role template library on mount
   useEffect(() => {
     if (storageAvailable) {
-      saveShortlistedTeamAsync(shortlistedTeam).catch(error => {
-        console.error('Failed to save shortlisted team:', error);
-      });
+      const savedTemplates = loadRoleTemplates();
+      if (savedTemplates) {
+        setRoleTemplates(savedTemplates);
+      }
+    }
+    setRoleTemplatesLoaded(true);
+  }, [storageAvailable]);
+
+  // Load the edited skill taxonomy on mount
+  useEffect(() => {
+    if (storageAvailable) {
+      const savedTaxonomy = loadSkillTaxonomy();
+      if (savedTaxonomy) {
+        skillTaxonomy.setEntries(savedTaxonomy);
+        setSkillTaxonomyEntries(savedTaxonomy);
+      }
     }
-  }, [shortlistedTeam, storageAvailable]);
+  }, [storageAvailable]);
 
-  // Save team size to localStorage when it changes
+  // Load the edited reporting currency and exchange rates on mount
   useEffect(() => {
     if (storageAvailable) {
-      saveTeamSizeAsync(teamSize).catch(error => {
-        console.error('Failed to save team size:', error);
+      const savedCurrencySettings = loadCurrencySettings();
+      if (savedCurrencySettings) {
+        currencyConverter.setSettings(savedCurrencySettings);
+        setCurrencySettings(savedCurrencySettings);
+      }
+    }
+  }, [storageAvailable]);
+
+  // Save scoring profiles to localStorage when they change
+  useEffect(() => {
+    if (storageAvailable && scoringProfilesLoaded) {
+      saveScoringProfilesAsync(scoringProfiles).catch(error => {
+        console.error('Failed to save scoring profiles:', error);
+      });
+    }
+  }, [scoringProfiles, scoringProfilesLoaded, storageAvailable]);
+
+  // Save role templates to localStorage when they change
+  useEffect(() => {
+    if (storageAvailable && roleTemplatesLoaded) {
+      saveRoleTemplatesAsync(roleTemplates).catch(error => {
+        console.error('Failed to save role templates:', error);
+      });
+    }
+  }, [roleTemplates, roleTemplatesLoaded, storageAvailable]);
+
+  // Re-link stored shortlist entries to the freshly loaded candidate records
+  useEffect(() => {
+    if (!teamsLoaded || candidates.length === 0) {
+      return;
+    }
+
+    const findCandidate = createCandidateMatcher(candidates);
+    setTeams(prev => {
+      const relinked = prev.map(team => relinkTeamCandidates(team, findCandidate));
+      return relinked.some((team, index) => team !== prev[index]) ? relinked : prev;
+    });
+  }, [candidates, teamsLoaded]);
+
+  // Save teams to localStorage when they change
+  useEffect(() => {
+    if (!storageAvailable || !teamsLoaded) {
+      return;
+    }
+
+    teams.forEach(team => {
+      if (savedTeamVersions.current.get(team.id) === team) {
+        return;
+      }
+      savedTeamVersions.current.set(team.id, team);
+      saveTeamAsync(team).catch(error => {
+        console.error(`Failed to save team ${team.id}:`, error);
+      });
+    });
+
+    saveTeamIdsAsync(teams.map(team => team.id)).catch(error => {
+      console.error('Failed to save team list:', error);
+    });
+  }, [teams, teamsLoaded, storageAvailable]);
+
+  // Save active team selection to localStorage when it changes
+  useEffect(() => {
+    if (storageAvailable && teamsLoaded) {
+      saveActiveTeamIdAsync(activeTeamId).catch(error => {
+        console.error('Failed to save active team:', error);
       });
     }
-  }, [teamSize, storageAvailable]);
+  }, [activeTeamId, teamsLoaded, storageAvailable]);
+
+  // Derived state for the active team
+  const activeTeam = useMemo(() => teams.find(team => team.id === activeTeamId), [teams, activeTeamId]);
+  const shortlistedTeam = useMemo(() => getTeamShortlist(activeTeam), [activeTeam]);
+  const teamSize = activeTeam?.size ?? 0;
+  const teamRoles = useMemo(() => activeTeam?.roles ?? [], [activeTeam]);
+
+  // Apply an update to a single team and bump its updatedAt timestamp
+  const updateTeam = useCallback((teamId: string | null, updater: (team: I_Team) => I_Team) => {
+    if (!teamId) return;
+
+    setTeams(prev => prev.map(team =>
+      team.id === teamId
+        ? { ...updater(team), updatedAt: new Date().toISOString() }
+        : team
+    ));
+  }, []);
 
   // Actions
   const setTeamSize = useCallback((size: number) => {
-    setTeamSizeState(size);
-    
-    // If new team size is smaller than current shortlisted team, trim the excess candidates
-    if (size < shortlistedTeam.length) {
-      const trimmedTeam = shortlistedTeam.slice(0, size);
-      setShortlistedTeam(trimmedTeam);
-    }
-  }, [shortlistedTeam]);
+    // Roles beyond the new size are trimmed along with their selected candidates
+    updateTeam(activeTeamId, team => resizeTeam(team, size));
+  }, [activeTeamId, updateTeam]);
+
+  const setShortlistedTeam = useCallback((shortlist: I_CandidateWithScore[]) => {
+    updateTeam(activeTeamId, team => setTeamShortlist(team, shortlist));
+  }, [activeTeamId, updateTeam]);
 
   const addToShortlist = useCallback((candidate: I_CandidateWithScore) => {
-    setShortlistedTeam(prev => {
+    updateTeam(activeTeamId, team => {
       // Check if candidate is already in the shortlist
-      const exists = prev.some(c => c.id === candidate.id);
-      if (exists) {
-        return prev;
+      const exists = team.roles.some(role => role.candidate?.id === candidate.id);
+      const emptyRoleIndex = team.roles.findIndex(role => !role.candidate);
+      if (exists || emptyRoleIndex < 0) {
+        return team;
       }
-      const newTeam = [...prev, candidate];
-      return newTeam;
+
+      const newRoles = [...team.roles];
+      newRoles[emptyRoleIndex] = { ...newRoles[emptyRoleIndex], candidate };
+      return { ...team, roles: newRoles };
     });
-  }, []);
+  }, [activeTeamId, updateTeam]);
 
   const replaceInShortlist = useCallback((candidate: I_CandidateWithScore, roleIndex: number) => {
-    setShortlistedTeam(prev => {
+    updateTeam(activeTeamId, team => {
       // Validation: Check if roleIndex is valid
-      if (roleIndex < 0 || roleIndex >= prev.length) {
-        return prev;
+      if (roleIndex < 0 || roleIndex >= team.roles.length) {
+        return team;
       }
-      
-      // Create new array with replacement at specific index
-      const newTeam = [...prev];
-      newTeam[roleIndex] = candidate;
-      
-      return newTeam;
+
+      // Create new roles array with replacement at specific index
+      const newRoles = [...team.roles];
+      newRoles[roleIndex] = { ...newRoles[roleIndex], candidate };
+
+      return { ...team, roles: newRoles };
     });
-  }, []);
+  }, [activeTeamId, updateTeam]);
+
+  const updateTeamRole = useCallback((roleIndex: number, updates: Partial<Omit<I_TeamRole, 'id'>>) => {
+    updateTeam(activeTeamId, team => {
+      if (roleIndex < 0 || roleIndex >= team.roles.length) {
+        return team;
+      }
+
+      const newRoles = [...team.roles];
+      newRoles[roleIndex] = { ...newRoles[roleIndex], ...updates };
+      return { ...team, roles: newRoles };
+    });
+  }, [activeTeamId, updateTeam]);
+
+  const setExcludedCandidateIds = useCallback((candidateIds: string[]) => {
+    updateTeam(activeTeamId, team => ({ ...team, excludedCandidateIds: [...new Set(candidateIds)] }));
+  }, [activeTeamId, updateTeam]);
+
+  const setTeamBudget = useCallback((budget: number | undefined) => {
+    updateTeam(activeTeamId, team => ({ ...team, budget }));
+  }, [activeTeamId, updateTeam]);
 
   const clearShortlist = useCallback(() => {
-    setShortlistedTeam([]);
-    setTeamSizeState(0);
-    
+    updateTeam(activeTeamId, team => resizeTeam({ ...team, roles: [] }, 0));
+  }, [activeTeamId, updateTeam]);
+
+  // Team actions
+  const createTeam = useCallback((name?: string) => {
+    const team = createEmptyTeam(name?.trim() || `Team ${teams.length + 1}`);
+    setTeams(prev => [...prev, team]);
+    setActiveTeamId(team.id);
+    return team.id;
+  }, [teams.length]);
+
+  const renameTeam = useCallback((teamId: string, name: string) => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    updateTeam(teamId, team => ({ ...team, name: trimmedName }));
+  }, [updateTeam]);
+
+  const duplicateTeam = useCallback((teamId: string) => {
+    const source = teams.find(team => team.id === teamId);
+    if (!source) return null;
+
+    const copy = copyTeam(source, `${source.name} (copy)`);
+    setTeams(prev => [...prev, copy]);
+    return copy.id;
+  }, [teams]);
+
+  const setTeamArchived = useCallback((teamId: string, archived: boolean) => {
+    updateTeam(teamId, team => ({ ...team, archived }));
+
+    // An archived team can no longer be the one being built
+    if (archived && teamId === activeTeamId) {
+      setActiveTeamId(null);
+    }
+  }, [activeTeamId, updateTeam]);
+
+  const switchTeam = useCallback((teamId: string) => {
+    if (teams.some(team => team.id === teamId)) {
+      setActiveTeamId(teamId);
+    }
+  }, [teams]);
+
+  // Scoring profile actions
+  const getScoringProfile = useCallback((profileId?: string) => {
+    return findScoringProfile(scoringProfiles, profileId);
+  }, [scoringProfiles]);
+
+  const createScoringProfile = useCallback((baseProfileId?: string) => {
+    const base = findScoringProfile(scoringProfiles, baseProfileId);
+    const profile = createProfile(baseProfileId ? `${base.name} (copy)` : `Profile ${scoringProfiles.length + 1}`, base);
+    setScoringProfiles(prev => [...prev, profile]);
+    return profile.id;
+  }, [scoringProfiles]);
+
+  const updateScoringProfile = useCallback((profileId: string, updates: Partial<Omit<I_ScoringProfile, 'id'>>) => {
+    setScoringProfiles(prev => prev.map(profile =>
+      profile.id === profileId ? { ...profile, ...updates } : profile
+    ));
+  }, []);
+
+  // Roles using a deleted profile fall back to the default one
+  const deleteScoringProfile = useCallback((profileId: string) => {
+    if (profileId === DEFAULT_SCORING_PROFILE_ID) return;
+    setScoringProfiles(prev => prev.filter(profile => profile.id !== profileId));
+  }, []);
+
+  // Role template actions
+  // Saving under an existing name overwrites that template
+  const saveRoleTemplate = useCallback((roleIndex: number, name: string) => {
+    const role = teamRoles[roleIndex];
+    if (!role || !name.trim()) return null;
+
+    const template = createRoleTemplate(name, role, findScoringProfile(scoringProfiles, role.scoringProfileId));
+    const merged = mergeRoleTemplates(roleTemplates, [template]);
+    setRoleTemplates(merged);
+    return merged.find(saved => saved.name.toLowerCase() === template.name.toLowerCase())?.id ?? null;
+  }, [teamRoles, scoringProfiles, roleTemplates]);
+
+  // The role is scored with a profile having the template's weights, created when none has them yet
+  const applyRoleTemplate = useCallback((roleIndex: number, templateId: string) => {
+    const template = roleTemplates.find(saved => saved.id === templateId);
+    if (!template) return;
+
+    let scoringProfileId: string | undefined;
+    if (template.scoring) {
+      const profile = findMatchingScoringProfile(scoringProfiles, template.scoring) ?? createProfile(template.name, template.scoring);
+      if (!scoringProfiles.includes(profile)) {
+        setScoringProfiles(prev => [...prev, profile]);
+      }
+      scoringProfileId = profile.id;
+    }
+    updateTeamRole(roleIndex, getRoleTemplateUpdates(template, scoringProfileId));
+  }, [roleTemplates, scoringProfiles, updateTeamRole]);
+
+  const importRoleTemplates = useCallback((templates: I_RoleTemplate[]) => {
+    setRoleTemplates(prev => mergeRoleTemplates(prev, templates));
+  }, []);
+
+  const deleteRoleTemplate = useCallback((templateId: string) => {
+    setRoleTemplates(prev => prev.filter(template => template.id !== templateId));
+  }, []);
+
+  // Skill taxonomy actions
+  // The shared lookup is updated before state so the re-render scores with the new rules
+  const updateSkillTaxonomy = useCallback((entries: I_SkillTaxonomyEntry[]) => {
+    skillTaxonomy.setEntries(entries);
+    setSkillTaxonomyEntries(entries);
     if (storageAvailable) {
-      clearShortlistedTeam();
-      clearTeamSize();
+      saveSkillTaxonomyAsync(entries).catch(error => {
+        console.error('Failed to save skill taxonomy:', error);
+      });
     }
   }, [storageAvailable]);
 
+  const resetSkillTaxonomy = useCallback(() => {
+    skillTaxonomy.setEntries(DEFAULT_SKILL_TAXONOMY);
+    setSkillTaxonomyEntries(DEFAULT_SKILL_TAXONOMY);
+    if (storageAvailable) {
+      clearSkillTaxonomy();
+    }
+  }, [storageAvailable]);
+
+  // Currency actions
+  // The shared converter is updated before state so the re-render reads salaries at the new rates
+  // Budgets and salary filters are entered in the reporting currency, so they move with it when it changes
+  const applyCurrencySettings = useCallback((settings: I_CurrencySettings) => {
+    const previousCurrency = currencyConverter.getReportingCurrency();
+    currencyConverter.setSettings(settings);
+    setCurrencySettings(settings);
+
+    const { reportingCurrency } = settings;
+    if (reportingCurrency !== previousCurrency) {
+      setTeams(prev => prev.map(team => convertTeamCurrency(team, previousCurrency, reportingCurrency)));
+      setRoleTemplates(prev => prev.map(template => convertRoleTemplateCurrency(template, previousCurrency, reportingCurrency)));
+    }
+  }, []);
+
+  const updateCurrencySettings = useCallback((settings: I_CurrencySettings) => {
+    applyCurrencySettings(settings);
+    if (storageAvailable) {
+      saveCurrencySettingsAsync(settings).catch(error => {
+        console.error('Failed to save currency settings:', error);
+      });
+    }
+  }, [applyCurrencySettings, storageAvailable]);
+
+  const resetCurrencySettings = useCallback(() => {
+    applyCurrencySettings(DEFAULT_CURRENCY_SETTINGS);
+    if (storageAvailable) {
+      clearCurrencySettings();
+    }
+  }, [applyCurrencySettings, storageAvailable]);
+
   // Context value
   const contextValue: AppContextType = {
     candidates,
     loading,
     error,
+    importCandidates,
+    dataQualityReport,
+    partialRecordsReleased,
+    releasePartialRecords,
+    duplicateGroups,
+    duplicateDecisions,
+    resolveDuplicateGroup,
+    teams,
+    activeTeam,
     shortlistedTeam,
     teamSize,
+    teamRoles,
     setTeamSize,
     addToShortlist,
     replaceInShortlist,
     setShortlistedTeam,
+    updateTeamRole,
+    setExcludedCandidateIds,
+    setTeamBudget,
     clearShortlist,
+    createTeam,
+    renameTeam,
+    duplicateTeam,
+    setTeamArchived,
+    switchTeam,
+    scoringProfiles,
+    getScoringProfile,
+    createScoringProfile,
+    updateScoringProfile,
+    deleteScoringProfile,
+    roleTemplates,
+    saveRoleTemplate,
+    applyRoleTemplate,
+    importRoleTemplates,
+    deleteRoleTemplate,
+    skillTaxonomyEntries,
+    updateSkillTaxonomy,
+    resetSkillTaxonomy,
+    currencySettings,
+    updateCurrencySettings,
+    resetCurrencySettings,
     storageAvailable,
   };
 
@@ -176,4 +587,4 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
 };
 
 // Export the context for custom hook
-export { AppContext };
\ No newline at end of file
+export { AppContext };
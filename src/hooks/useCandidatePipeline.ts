@@ -0,0 +1,145 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { I_CandidateWithScore } from '../types';
+import type { I_CurrencySettings } from '../utils/currency';
+import { useAppContext } from './useAppContext';
+import {
+  isSameRanking,
+  runCandidatePipeline,
+  type I_CandidatePipelineRequest,
+  type T_CandidatePipelineMessage,
+  type T_CandidatePipelineResult,
+} from '../utils/candidatePipeline';
+import { ScoreCache } from '../utils/scoreCache';
+
+// Shared by every hook instance when scoring has to happen on the main thread.
+// Emptied whenever the pool changes, like the worker's, since an import can keep a candidate's ID.
+const mainThreadScoreCache = new ScoreCache();
+let mainThreadPool: I_CandidateWithScore[] | null = null;
+
+const DEFAULT_POOL_KEY = 'default';
+const NO_CANDIDATES: I_CandidateWithScore[] = [];
+
+// Latest ranking of one pool, and the candidate pool and exchange rates it was ranked with
+interface I_RankedPool {
+  source: I_CandidateWithScore[];
+  currencySettings: I_CurrencySettings;
+  ranked: I_CandidateWithScore[];
+}
+
+/**
+ * Filters, scores and sorts the candidate pool for a role in a Web Worker.
+ * Results of superseded requests are dropped, and the previous list stays visible until the
+ * new one is ready. Falls back to chunked main-thread processing where workers are unavailable.
+ *
+ * Each pool key (e.g. a role ID) keeps its own list, so switching back to a role shows that
+ * role's candidates right away instead of the previous role's.
+ *
+ * @param request Role filters, scoring profile and excluded candidates; keep it memoized
+ * @param poolKey Which list the request's results belong to
+ * @returns The ranked candidates and whether a newer result is being computed
+ */
+export function useCandidatePipeline(request: I_CandidatePipelineRequest, poolKey: string = DEFAULT_POOL_KEY) {
+  const { candidates, skillTaxonomyEntries, currencySettings } = useAppContext();
+  const workerRef = useRef<Worker | null>(null);
+  const requestIdRef = useRef(0);
+  // Pool key, candidate pool and exchange rates of the latest request, which results are stored under
+  const requestPoolRef = useRef({ poolKey, source: candidates, currencySettings });
+  const [workerFailed, setWorkerFailed] = useState(false);
+  const [rankedPools, setRankedPools] = useState<Record<string, I_RankedPool>>({});
+  const [isProcessing, setIsProcessing] = useState(true);
+
+  // An unchanged ranking keeps its array, so the table keeps its page and scroll position.
+  // New exchange rates always give a new array, so the table re-reads and re-sorts salaries.
+  const storeRanking = useCallback((ranked: I_CandidateWithScore[]) => {
+    const { poolKey: key, source, currencySettings: rates } = requestPoolRef.current;
+    setRankedPools(prev => {
+      const current = prev[key];
+      if (current && current.source === source && current.currencySettings === rates && isSameRanking(current.ranked, ranked)) {
+        return prev;
+      }
+      return { ...prev, [key]: { source, currencySettings: rates, ranked } };
+    });
+  }, []);
+
+  // 1. Start the worker (effects below run after this one, so it exists when they post)
+  useEffect(() => {
+    if (typeof Worker === 'undefined' || workerFailed) {
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/candidatePipeline.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (event: MessageEvent<T_CandidatePipelineResult>) => {
+      const result = event.data;
+      if (result.requestId !== requestIdRef.current) {
+        return; // Stale: a newer request was sent since
+      }
+      if (result.type === 'error') {
+        console.error('Candidate pipeline failed:', result.message);
+      } else {
+        storeRanking(result.candidates);
+      }
+      setIsProcessing(false);
+    });
+    worker.addEventListener('error', (event) => {
+      console.error('Candidate pipeline worker failed, scoring on the main thread instead:', event.message);
+      setWorkerFailed(true);
+    });
+
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [workerFailed, storeRanking]);
+
+  // 2. Keep the worker's copy of the pool, skill taxonomy and exchange rates in sync
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'setCandidates', candidates } satisfies T_CandidatePipelineMessage);
+  }, [candidates, workerFailed]);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'setSkillTaxonomy', entries: skillTaxonomyEntries } satisfies T_CandidatePipelineMessage);
+  }, [skillTaxonomyEntries, workerFailed]);
+
+  useEffect(() => {
+    workerRef.current?.postMessage({ type: 'setCurrencySettings', settings: currencySettings } satisfies T_CandidatePipelineMessage);
+  }, [currencySettings, workerFailed]);
+
+  // 3. Run the pipeline whenever the request, pool, taxonomy or exchange rates change
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    requestPoolRef.current = { poolKey, source: candidates, currencySettings };
+    setIsProcessing(true);
+
+    const worker = workerRef.current;
+    if (worker) {
+      worker.postMessage({ type: 'run', requestId, request } satisfies T_CandidatePipelineMessage);
+      return () => {
+        worker.postMessage({ type: 'cancel', requestId } satisfies T_CandidatePipelineMessage);
+      };
+    }
+
+    if (mainThreadPool !== candidates) {
+      mainThreadScoreCache.clear();
+      mainThreadPool = candidates;
+    }
+
+    let cancelled = false;
+    runCandidatePipeline(candidates, request, { cache: mainThreadScoreCache, isCancelled: () => cancelled })
+      .then(scored => {
+        if (scored && !cancelled) {
+          storeRanking(scored);
+          setIsProcessing(false);
+        }
+      })
+      .catch(error => {
+        console.error('Candidate pipeline failed:', error);
+        setIsProcessing(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [candidates, request, poolKey, skillTaxonomyEntries, currencySettings, workerFailed, storeRanking]);
+
+  return { candidates: rankedPools[poolKey]?.ranked ?? NO_CANDIDATES, isProcessing };
+}
@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import ScoringProfileCard from "@/components/settings/ScoringProfileCard";
+import SkillTaxonomyEditor from "@/components/settings/SkillTaxonomyEditor";
+import CurrencySettingsEditor from "@/components/settings/CurrencySettingsEditor";
+import { DEFAULT_SCORING_PROFILE_ID } from "@/constants";
+import { useAppContext } from "@/hooks/useAppContext";
+import { Plus } from "lucide-react";
+import { useMemo } from "react";
+
+/**
+ * Settings page
+ * Manages the scoring profiles that roles can be scored with, the skill taxonomy used for matching
+ * and the exchange rates salaries are compared with
+ */
+const SettingsPage = () => {
+  const {
+    teams,
+    scoringProfiles,
+    createScoringProfile,
+    updateScoringProfile,
+    deleteScoringProfile,
+    skillTaxonomyEntries,
+    updateSkillTaxonomy,
+    resetSkillTaxonomy,
+    currencySettings,
+    updateCurrencySettings,
+    resetCurrencySettings,
+  } = useAppContext();
+
+  // Count roles across all teams using each profile (roles without one use the default)
+  const usageCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    teams.forEach(team => {
+      team.roles.forEach(role => {
+        const profileId = scoringProfiles.some(profile => profile.id === role.scoringProfileId)
+          ? role.scoringProfileId as string
+          : DEFAULT_SCORING_PROFILE_ID;
+        counts.set(profileId, (counts.get(profileId) ?? 0) + 1);
+      });
+    });
+    return counts;
+  }, [teams, scoringProfiles]);
+
+  return (
+    <div className="py-6 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Scoring Profiles</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Choose how much skills, experience and education count towards a candidate's score. Assign a profile to each role in the team builder.
+          </p>
+        </div>
+        <Button onClick={() => createScoringProfile()}>
+          <Plus className="h-4 w-4 mr-1" />
+          New Profile
+        </Button>
+      </div>
+
+      <div className="space-y-4">
+        {scoringProfiles.map(profile => (
+          <ScoringProfileCard
+            key={profile.id}
+            profile={profile}
+            isDefault={profile.id === DEFAULT_SCORING_PROFILE_ID}
+            usageCount={usageCounts.get(profile.id) ?? 0}
+            onChange={(updates) => updateScoringProfile(profile.id, updates)}
+            onDuplicate={() => createScoringProfile(profile.id)}
+            onDelete={() => deleteScoringProfile(profile.id)}
+          />
+        ))}
+      </div>
+
+      {/* Skill taxonomy */}
+      <div className="mt-10 mb-4">
+        <h2 className="text-2xl font-bold">Skill Taxonomy</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Synonyms and parent skills used when matching skill keywords, so "Node JS" matches "Node.js" and "AWS" matches "Amazon Web Services".
+        </p>
+      </div>
+      <SkillTaxonomyEditor
+        entries={skillTaxonomyEntries}
+        onChange={updateSkillTaxonomy}
+        onReset={resetSkillTaxonomy}
+      />
+
+      {/* Currency */}
+      <div className="mt-10 mb-4">
+        <h2 className="text-2xl font-bold">Currency</h2>
+        <p className="text-sm text-gray-500 mt-1">
+          Salary expectations are converted to the reporting currency with these rates, so candidates asking in euros, pounds or rupees can be filtered, sorted and budgeted together.
+        </p>
+      </div>
+      <CurrencySettingsEditor
+        settings={currencySettings}
+        onChange={updateCurrencySettings}
+        onReset={resetCurrencySettings}
+      />
+    </div>
+  );
+};
+
+export default SettingsPage;
@@ -1,9 +1,12 @@
+import BudgetWarningModal from "@/components/shortlist/BudgetWarningModal";
 import CandidateModal from "@/components/shortlist/CandidateModal";
 import ProgressIndicator from "@/components/shortlist/ProgressIndicator";
 import { Button } from "@/components/ui/button";
 import { useAppContext } from "@/hooks/useAppContext";
 import type { I_CandidateWithScore } from "@/types/Candidate";
 import { lazy, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { getBudgetWarnings } from "@/utils/teamBudget";
 
 const TeamSizeSetup = lazy(() => import('@/components/shortlist/TeamSizeSetup'));
 const TeamBuilder = lazy(() => import('@/components/shortlist/TeamBuilder'));
@@ -20,6 +23,13 @@ const E_WorkflowStep = {
 
 type T_WorkflowStep = typeof E_WorkflowStep[keyof typeof E_WorkflowStep];
 
+// A candidate picked in the detail modal, waiting for the user to accept going over budget
+interface I_ModalBudgetCheck {
+  candidate: I_CandidateWithScore;
+  roleTitle: string;
+  warnings: string[];
+}
+
 
 /**
  * Main team building workflow page
@@ -30,18 +40,21 @@ const ShortlistPage = () => {
     shortlistedTeam, 
     teamSize,
     loading,
-    clearShortlist,
+    activeTeam,
+    createTeam,
     storageAvailable,
     addToShortlist,
   } = useAppContext();
   
   const [step, setStep] = useState<T_WorkflowStep | -1>(-1);
   const [selectedCandidateForModal, setSelectedCandidateForModal] = useState<I_CandidateWithScore | null>(null);
+  const [modalSearchQuery, setModalSearchQuery] = useState('');
   const [isInitializing, setIsInitializing] = useState(true);
+  const [budgetCheck, setBudgetCheck] = useState<I_ModalBudgetCheck | null>(null);
 
   // Initialize workflow step based on existing data
   useEffect(() => {
-    if (loading || storageAvailable === undefined) {
+    if (!isInitializing || loading || storageAvailable === undefined) {
       return;
     }
     
@@ -57,11 +70,15 @@ const ShortlistPage = () => {
     
     setStep(initialStep);
     setIsInitializing(false);
-  }, [loading, storageAvailable, teamSize, shortlistedTeam.length]);
+  }, [isInitializing, loading, storageAvailable, teamSize, shortlistedTeam.length]);
 
   // Workflow navigation handlers
   const handleStartBuilding = () => {
-    clearShortlist();
+    // Start a new team instead of wiping the current one; an untouched team is reused
+    const isActiveTeamEmpty = activeTeam !== undefined && activeTeam.size === 0;
+    if (!isActiveTeamEmpty) {
+      createTeam();
+    }
     setStep(E_WorkflowStep.TEAM_SETUP);
   };
 
@@ -82,18 +99,33 @@ const ShortlistPage = () => {
   };
 
   // Modal handlers
-  const handleCandidateViewDetails = (candidate: I_CandidateWithScore) => {
+  // The search the candidate was found with is highlighted in the modal too
+  const handleCandidateViewDetails = (candidate: I_CandidateWithScore, searchQuery: string = '') => {
     setSelectedCandidateForModal(candidate);
+    setModalSearchQuery(searchQuery);
   };
   
   const handleCloseModal = () => {
     setSelectedCandidateForModal(null);
   };
 
+  // The candidate goes into the first empty role, with the same budget check as picking from the list
   const handleCandidateSelectFromModal = (candidate: I_CandidateWithScore) => {
+    const roleIndex = activeTeam?.roles.findIndex(role => !role.candidate) ?? -1;
+    const isSelected = activeTeam?.roles.some(role => role.candidate?.id === candidate.id);
+    const warnings = roleIndex >= 0 && !isSelected ? getBudgetWarnings(activeTeam, roleIndex, candidate) : [];
+    if (warnings.length > 0) {
+      setBudgetCheck({ candidate, roleTitle: activeTeam?.roles[roleIndex].title || `Role ${roleIndex + 1}`, warnings });
+      return;
+    }
     addToShortlist(candidate);
   };
 
+  const handleBudgetConfirm = () => {
+    if (budgetCheck) addToShortlist(budgetCheck.candidate);
+    setBudgetCheck(null);
+  };
+
   // Render empty state (step 0)
   const renderEmptyState = () => (
     <div className="flex flex-col items-center justify-center h-64">
@@ -149,9 +181,19 @@ const ShortlistPage = () => {
   
   return (
     <div className="py-6">
-      <h1 className="text-3xl font-bold mb-4 text-center sm:text-left">
-        Team Builder
-      </h1>
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-end gap-2 mb-4">
+        <h1 className="text-3xl font-bold text-center sm:text-left">
+          Team Builder
+          {activeTeam && (
+            <span className="block text-base font-normal text-gray-500 mt-1">
+              {activeTeam.name}
+            </span>
+          )}
+        </h1>
+        <Link to="/teams" className="text-sm text-blue-600 hover:text-blue-700 font-medium text-center">
+          Switch team
+        </Link>
+      </div>
       {/* Show loading state during initialization */}
       {isInitializing || step === -1 ? (
         renderLoadingState()
@@ -172,9 +214,18 @@ const ShortlistPage = () => {
           isOpen={true}
           onClose={handleCloseModal}
           onSelect={handleCandidateSelectFromModal}
+          searchQuery={modalSearchQuery}
           showSelectButton={step === E_WorkflowStep.BUILDING && shortlistedTeam.length < teamSize}
         />
       )}
+
+      <BudgetWarningModal
+        isOpen={budgetCheck !== null}
+        action={budgetCheck ? `Selecting ${budgetCheck.candidate.name} for ${budgetCheck.roleTitle}` : ''}
+        warnings={budgetCheck?.warnings ?? []}
+        onConfirm={handleBudgetConfirm}
+        onCancel={() => setBudgetCheck(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,193 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAppContext } from "@/hooks/useAppContext";
+import type { I_Team } from "@/types/Candidate";
+import { Archive, ArchiveRestore, Copy, FolderOpen, Pencil, Plus } from "lucide-react";
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+
+/**
+ * Teams list page
+ * Lists every hiring project and lets the user create, rename, duplicate, archive and switch between them
+ */
+const TeamsPage = () => {
+  const {
+    teams,
+    activeTeam,
+    createTeam,
+    renameTeam,
+    duplicateTeam,
+    setTeamArchived,
+    switchTeam,
+  } = useAppContext();
+  const navigate = useNavigate();
+
+  const [showArchived, setShowArchived] = useState(false);
+  const [editingTeamId, setEditingTeamId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const visibleTeams = useMemo(() => {
+    return teams
+      .filter(team => showArchived || !team.archived)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }, [teams, showArchived]);
+
+  const archivedCount = teams.filter(team => team.archived).length;
+
+  // Action handlers
+  const handleOpenTeam = (team: I_Team) => {
+    if (team.archived) {
+      setTeamArchived(team.id, false);
+    }
+    switchTeam(team.id);
+    navigate('/shortlist');
+  };
+
+  const handleCreateTeam = () => {
+    createTeam();
+    navigate('/shortlist');
+  };
+
+  const handleStartRename = (team: I_Team) => {
+    setEditingTeamId(team.id);
+    setEditingName(team.name);
+  };
+
+  const handleRenameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingTeamId) {
+      renameTeam(editingTeamId, editingName);
+    }
+    setEditingTeamId(null);
+  };
+
+  const formatDate = (dateStr: string) => {
+    return new Date(dateStr).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const getFilledRolesCount = (team: I_Team) => team.roles.filter(role => role.candidate).length;
+
+  return (
+    <div className="py-6 max-w-6xl mx-auto">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-3 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold">Teams</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Run several hires in parallel. Each team keeps its own roles and shortlist.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          {archivedCount > 0 && (
+            <Button variant="outline" onClick={() => setShowArchived(prev => !prev)}>
+              {showArchived ? 'Hide archived' : `Show archived (${archivedCount})`}
+            </Button>
+          )}
+          <Button onClick={handleCreateTeam}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Team
+          </Button>
+        </div>
+      </div>
+
+      {visibleTeams.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            No teams yet. Create one to start building.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Roles filled</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last updated</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleTeams.map(team => {
+                  const isActive = team.id === activeTeam?.id;
+                  const isEditing = team.id === editingTeamId;
+
+                  return (
+                    <TableRow key={team.id}>
+                      <TableCell>
+                        {isEditing ? (
+                          <form onSubmit={handleRenameSubmit} className="flex gap-2">
+                            <Input
+                              value={editingName}
+                              onChange={(e) => setEditingName(e.target.value)}
+                              aria-label="Team name"
+                              autoFocus
+                            />
+                            <Button type="submit" size="sm">Save</Button>
+                            <Button type="button" size="sm" variant="outline" onClick={() => setEditingTeamId(null)}>
+                              Cancel
+                            </Button>
+                          </form>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium text-gray-900">{team.name}</span>
+                            {isActive && <Badge className="bg-blue-100 text-blue-800">Active</Badge>}
+                            {team.archived && <Badge variant="outline">Archived</Badge>}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {team.size > 0 ? `${getFilledRolesCount(team)} of ${team.size}` : 'Not set up'}
+                      </TableCell>
+                      <TableCell>{formatDate(team.createdAt)}</TableCell>
+                      <TableCell>{formatDate(team.updatedAt)}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-2">
+                          <Button size="sm" onClick={() => handleOpenTeam(team)}>
+                            <FolderOpen className="h-3 w-3 mr-1" />
+                            Open
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleStartRename(team)}>
+                            <Pencil className="h-3 w-3 mr-1" />
+                            Rename
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => duplicateTeam(team.id)}>
+                            <Copy className="h-3 w-3 mr-1" />
+                            Duplicate
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setTeamArchived(team.id, !team.archived)}
+                          >
+                            {team.archived ? (
+                              <ArchiveRestore className="h-3 w-3 mr-1" />
+                            ) : (
+                              <Archive className="h-3 w-3 mr-1" />
+                            )}
+                            {team.archived ? 'Restore' : 'Archive'}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TeamsPage;
@@ -0,0 +1,19 @@
+import type { I_CandidateWithScore } from './types';
+
+/**
+ * Candidate for tests, empty apart from its ID and what the test sets
+ */
+export const createCandidate = (id: string, overrides: Partial<I_CandidateWithScore> = {}): I_CandidateWithScore => ({
+  id,
+  name: id,
+  email: `${id}@example.com`,
+  phone: '',
+  location: '',
+  submitted_at: '',
+  work_availability: [],
+  annual_salary_expectation: {},
+  work_experiences: [],
+  education: { highest_level: '', degrees: [] },
+  skills: [],
+  ...overrides,
+});
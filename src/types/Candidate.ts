@@ -56,6 +56,21 @@ export interface I_PaginationState {
   totalItems: number;
 }
 
+/**
+ * How the candidate table shows long lists: one virtualized, infinitely scrolling list or pages
+ */
+export type T_CandidateTableMode = 'scroll' | 'pages';
+
+/**
+ * How a role's candidate list was left, restored when the role is selected again
+ */
+export interface I_CandidateViewState {
+  searchQuery: string;
+  sorting: { id: string; desc: boolean }[]; // Column sort order; empty keeps search relevance order
+  pageIndex: number; // Page shown in pages mode
+  scrollAnchor?: { rowId: string; offset: number }; // Top row of the scroll viewport in scroll mode
+}
+
 /**
  * Enhanced candidate with calculated fields and scoring
  */
@@ -70,17 +85,177 @@ export interface I_CandidateWithScore extends I_Candidate {
   currentRole?: string; // Most recent role
   currentCompany?: string; // Most recent company
   highestEducation?: string; // Highest degree
+  mergedIds?: string[]; // IDs of the duplicate records combined into this one
+  scoreExplanation?: I_ScoreExplanation; // How the score was reached
+}
+
+/**
+ * Education prestige tier that decided the education weight
+ */
+export type T_EducationTier = 'top25' | 'top50' | 'standard';
+
+/**
+ * How one category (skills, experience or education) contributed to a score
+ */
+export interface I_CategoryScoreExplanation {
+  active: boolean; // Whether the category had any scoring keywords
+  matchedKeywords: string[];
+  missedKeywords: string[];
+  matchedValues: string[]; // Candidate's skills, roles/companies or degrees/subjects that matched
+  matchPercentage: number;
+  baseWeight: number; // Weight from the scoring profile
+  effectiveWeight: number; // Share of the score after weights of inactive categories were redistributed (0-1)
+  points: number; // Points this category added to the score
+}
+
+/**
+ * Location and availability preferences a candidate met or missed
+ */
+export interface I_PreferenceScoreExplanation {
+  matched: string[]; // e.g. "South America", "Full-time"
+  missed: string[];
+  points: number; // Bonus points added on top of the keyword score
+}
+
+/**
+ * Structured breakdown of a candidate's score
+ */
+export interface I_ScoreExplanation {
+  scoringProfileName: string;
+  skills: I_CategoryScoreExplanation;
+  experience: I_CategoryScoreExplanation;
+  education: I_CategoryScoreExplanation;
+  educationTier: T_EducationTier;
+  educationTierBonus: number; // Extra base education weight from a Top 25/Top 50 degree
+  preferences?: I_PreferenceScoreExplanation; // Only when the role prefers a location or availability
+}
+
+/**
+ * How a keyword affects candidates
+ * - must: candidates missing it are filtered out
+ * - nice: only adds to the score
+ * - exclude: candidates matching it are filtered out (e.g. "Intern")
+ */
+export type T_KeywordTier = 'must' | 'nice' | 'exclude';
+
+/**
+ * How strictly a keyword has to match
+ * - contains: anywhere in the text ("Java" matches "JavaScript")
+ * - word: as a whole word, or a synonym / narrower skill from the skill taxonomy
+ * - exact: the whole value, or a synonym from the skill taxonomy
+ */
+export type T_KeywordMatchMode = 'contains' | 'word' | 'exact';
+
+/**
+ * Keyword with its tier
+ */
+export interface I_FilterKeyword {
+  value: string;
+  tier: T_KeywordTier;
+  matchMode?: T_KeywordMatchMode; // Defaults to 'word' for skills and 'contains' for experience and education
+}
+
+/**
+ * Degree levels, lowest first; a minimum level also admits every higher one
+ * Doctorates and law degrees (J.D.) share the top level
+ */
+export type T_EducationLevel = 'high-school' | 'associate' | 'bachelor' | 'master' | 'doctorate';
+
+/**
+ * Numeric and categorical filters for a role
+ * Unset bounds don't filter; candidates missing a value don't pass a filter on it
+ */
+export interface I_RangeFilters {
+  minSalary?: number; // Annual salary expectation, in the reporting currency
+  maxSalary?: number;
+  minGpa?: number; // Bands and Latin honors are read as their lower bound, e.g. "GPA 3.5-3.9" is 3.5
+  minExperienceCount?: number; // Number of work experiences
+  minEducationLevel?: T_EducationLevel;
+}
+
+/**
+ * Whether a location or availability choice filters candidates or only adds to their score
+ * - require: candidates not matching it are filtered out
+ * - prefer: candidates matching it get bonus points
+ */
+export type T_PreferenceMode = 'require' | 'prefer';
+
+/**
+ * Where and how a role's candidates should be able to work
+ * Regions and countries come from the bundled location lookup; a candidate in any of them matches
+ */
+export interface I_LocationFilters {
+  regions?: string[];
+  countries?: string[];
+  locationMode?: T_PreferenceMode; // Defaults to 'require'
+  workAvailability?: T_WorkAvailability;
+  workAvailabilityMode?: T_PreferenceMode; // Defaults to 'require'
+}
+
+/**
+ * Keyword, range, location and query filters applied to the candidate pool for a role
+ */
+export interface I_RoleFilters {
+  skills: I_FilterKeyword[];
+  education: I_FilterKeyword[];
+  experience: I_FilterKeyword[];
+  ranges?: I_RangeFilters;
+  location?: I_LocationFilters;
+  query?: string; // Boolean filter query, e.g. skills:(React AND TypeScript) AND NOT role:intern
+}
+
+/**
+ * Relative weight of each scoring category
+ * Weights of categories without keywords are redistributed to the active ones
+ */
+export interface I_ScoringWeights {
+  skills: number;
+  experience: number;
+  education: number;
+}
+
+/**
+ * Named set of scoring weights that can be assigned to a role
+ */
+export interface I_ScoringProfile {
+  id: string;
+  name: string;
+  weights: I_ScoringWeights;
+  // Education weight used instead of weights.education for degrees from Top 50 / Top 25 schools
+  prestigeEducationWeights: {
+    top50: number;
+    top25: number;
+  };
+}
+
+/**
+ * Reusable role definition that can be applied to any role, e.g. "Senior Full-Stack"
+ */
+export interface I_RoleTemplate {
+  id: string;
+  name: string;
+  title: string; // Role title set when the template is applied
+  filters: I_RoleFilters;
+  // Weights the role is scored with; templates without them leave the role's profile alone
+  scoring?: Pick<I_ScoringProfile, 'weights' | 'prestigeEducationWeights'>;
 }
 
 /**
  * Team role definition
+ * Each slot in the team keeps its own title and keyword requirements
  */
 export interface I_TeamRole {
   id: string;
   title: string;
-  requiredSkills: string[];
-  salaryBudget?: number;
-  educationRequirements: string[];
+  requiredSkills: I_FilterKeyword[];
+  experienceRequirements: I_FilterKeyword[];
+  salaryBudget?: number; // Annual salary budget for this role, in the reporting currency
+  educationRequirements: I_FilterKeyword[];
+  rangeFilters?: I_RangeFilters;
+  locationFilters?: I_LocationFilters;
+  filterQuery?: string;
+  scoringProfileId?: string;
+  locked?: boolean; // Auto-fill keeps this slot as it is
   candidate?: I_CandidateWithScore;
 }
 
@@ -94,6 +269,9 @@ export interface I_Team {
   roles: I_TeamRole[];
   createdAt: string;
   updatedAt: string;
+  archived?: boolean;
+  excludedCandidateIds?: string[]; // Candidates auto-fill must not propose for this team
+  budget?: number; // Total annual salary budget for the team, in the reporting currency
 }
 
 // Utility types for better type safety
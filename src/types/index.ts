@@ -9,9 +9,31 @@ export type {
   I_Education,
   
   // Application state interfaces
+  I_CandidateViewState,
   I_PaginationState,
   
   // Team building interfaces
+  I_FilterKeyword,
+  I_LocationFilters,
+  I_RangeFilters,
+  I_RoleFilters,
+  I_RoleTemplate,
   I_Team,
   I_TeamRole,
+
+  // Scoring interfaces
+  I_CategoryScoreExplanation,
+  I_PreferenceScoreExplanation,
+  I_ScoreExplanation,
+  I_ScoringProfile,
+  I_ScoringWeights,
+
+  // Utility types
+  T_CandidateTableMode,
+  T_EducationLevel,
+  T_EducationTier,
+  T_KeywordMatchMode,
+  T_KeywordTier,
+  T_PreferenceMode,
+  T_WorkAvailability,
 } from './Candidate';
\ No newline at end of file
@@ -1,4 +1,7 @@
 import type { I_Candidate, I_CandidateWithScore } from "@/types";
+import type { T_ImportMode } from "./candidateImport";
+import { validateCandidateRecords, type I_DataQualityReport } from "./candidateValidation";
+import { applyDuplicateDecisions, findDuplicateGroups, normalizeEmail, normalizeName, type I_DuplicateGroup, type T_DuplicateDecision } from "./dedupe";
 
 // API response interface
 interface ApiResponse<T> {
@@ -7,21 +10,49 @@ interface ApiResponse<T> {
   loading: boolean;
 }
 
+// Result of loading the bundled data: usable candidates plus what was quarantined
+interface I_CandidateLoadResult {
+  candidates: I_CandidateWithScore[];
+  partialCandidates: I_CandidateWithScore[];
+  report: I_DataQualityReport;
+}
+
+/**
+ * 53-bit string hash (cyrb53), good enough to tell a few thousand records apart
+ */
+const hashString = (value: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
 /**
  * Generate unique ID for candidates (since the JSON doesn't have IDs)
- * Uses email and index to create a deterministic unique identifier
+ * Hashes the application's identity (email, name and submission time) rather than its
+ * position, so the same record keeps its ID when the file is reordered or re-imported
  */
-const generateCandidateId = (candidate: I_Candidate, index: number): string => {
-  // Create a unique ID based on email and index
-  return `${candidate.email.replace('@', '-').replace('.', '-')}-${index}`;
+const generateCandidateId = (candidate: I_Candidate): string => {
+  const identity = [
+    normalizeEmail(candidate.email),
+    normalizeName(candidate.name),
+    candidate.submitted_at.trim(),
+  ].join('|');
+  return `cand-${hashString(identity)}`;
 };
 
 /**
  * Transform raw candidate data to include calculated fields
  * Enhances the base Candidate type with computed properties
  */
-const transformCandidate = (candidate: I_Candidate, index: number): I_CandidateWithScore => {
-  const id = generateCandidateId(candidate, index);
+const transformCandidate = (candidate: I_Candidate): I_CandidateWithScore => {
+  const id = generateCandidateId(candidate);
   
   // Get current (most recent) role and company from work experience
   const currentRole = candidate.work_experiences.length > 0 
@@ -47,26 +78,34 @@ const transformCandidate = (candidate: I_Candidate, index: number): I_CandidateW
 /**
  * Fetch candidates data from the JSON file
  * Handles HTTP requests, data validation, and transformation
+ * Every record is validated against the I_Candidate shape; invalid and partial
+ * records are quarantined and described in the data quality report
  */
-const fetchCandidates = async (): Promise<ApiResponse<I_CandidateWithScore[]>> => {
+const fetchCandidates = async (): Promise<ApiResponse<I_CandidateLoadResult>> => {
   try {
     const module = await import('../../resources/candidatesData.json');
-    const rawData: I_Candidate[] = module.default as I_Candidate[];
+    const rawData: unknown = module.default;
     
     // Validate that we received an array
     if (!Array.isArray(rawData)) {
       throw new Error('Invalid data format: expected an array of candidates');
     }
     
-    // Transform candidates to include calculated fields
-    // Also filter out candidates that don't have a name
-    const filteredData = rawData.filter(candidate => candidate.name && candidate.name !== '');
-    const transformedData = filteredData.map((candidate, index) => 
-      transformCandidate(candidate, index)
+    // Validate each record, then transform usable ones to include calculated fields
+    const { validCandidates, report } = validateCandidateRecords(rawData);
+    const transformedData = validCandidates.map(({ candidate }) => 
+      transformCandidate(candidate)
     );
+    const partialCandidates = report.quarantined
+      .filter(record => record.status === 'partial' && record.candidate)
+      .map(record => transformCandidate(record.candidate as I_Candidate));
     
     return {
-      data: transformedData,
+      data: {
+        candidates: transformedData,
+        partialCandidates,
+        report,
+      },
       error: null,
       loading: false,
     };
@@ -86,21 +125,68 @@ const fetchCandidates = async (): Promise<ApiResponse<I_CandidateWithScore[]>> =
  * Uses singleton pattern for global cache management
  */
 class CandidateCache {
-  private cache: I_CandidateWithScore[] | null = null;
+  private cache: I_CandidateLoadResult | null = null;
   private lastFetch: number = 0;
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
+  // Candidates uploaded by the user; kept separately so a refetch of the bundled data doesn't drop them
+  private importedCandidates: I_CandidateWithScore[] = [];
+  private bundledReplaced: boolean = false;
+
+  // Partial records stay quarantined until the user releases them from the data quality panel
+  private partialRecordsReleased: boolean = false;
+
+  // Duplicate groups found in the last pool and the user's decisions on ambiguous ones
+  private duplicateGroups: I_DuplicateGroup[] = [];
+  private duplicateDecisions: Record<string, T_DuplicateDecision> = {};
+
+  /**
+   * Combine the bundled data, released partial records and imported candidates into one pool
+   */
+  private buildPool(loadResult: I_CandidateLoadResult | null): I_CandidateWithScore[] {
+    const pool = loadResult && !this.bundledReplaced
+      ? [
+          ...loadResult.candidates,
+          ...(this.partialRecordsReleased ? loadResult.partialCandidates : []),
+          ...this.importedCandidates,
+        ]
+      : this.importedCandidates;
+
+    // Identical records share an ID; the later copy (e.g. a re-import) replaces the earlier one in place
+    const latestById = new Map(pool.map(candidate => [candidate.id, candidate]));
+    const uniquePool = [...latestById.values()];
+
+    return this.dedupe(uniquePool);
+  }
+
+  /**
+   * Dedupe stage: merge confirmed duplicates and any ambiguous groups the user chose to merge
+   */
+  private dedupe(pool: I_CandidateWithScore[]): I_CandidateWithScore[] {
+    this.duplicateGroups = findDuplicateGroups(pool);
+    return applyDuplicateDecisions(pool, this.duplicateGroups, this.duplicateDecisions);
+  }
+
   /**
    * Get candidates data with caching
    * Returns cached data if fresh, otherwise fetches new data
    */
   async getCandidates(): Promise<ApiResponse<I_CandidateWithScore[]>> {
     const now = Date.now();
+
+    // An import in "replace" mode means the bundled data is no longer part of the pool
+    if (this.bundledReplaced) {
+      return {
+        data: this.buildPool(null),
+        error: null,
+        loading: false,
+      };
+    }
     
     // Return cached data if it's still fresh
     if (this.cache && (now - this.lastFetch) < this.CACHE_DURATION) {
       return {
-        data: this.cache,
+        data: this.buildPool(this.cache),
         error: null,
         loading: false,
       };
@@ -112,9 +198,77 @@ class CandidateCache {
     if (result.data) {
       this.cache = result.data;
       this.lastFetch = now;
+
+      return {
+        ...result,
+        data: this.buildPool(result.data),
+      };
+    }
+
+    return {
+      ...result,
+      data: null,
+    };
+  }
+
+  /**
+   * Data quality report for the last load of the bundled data
+   */
+  getDataQualityReport(): I_DataQualityReport | null {
+    return this.cache?.report ?? null;
+  }
+
+  /**
+   * Let normalized partial records into the pool
+   */
+  releasePartialRecords(): void {
+    this.partialRecordsReleased = true;
+  }
+
+  /**
+   * Whether partial records have been released into the pool
+   */
+  arePartialRecordsReleased(): boolean {
+    return this.partialRecordsReleased;
+  }
+
+  /**
+   * Duplicate groups found in the current pool
+   */
+  getDuplicateGroups(): I_DuplicateGroup[] {
+    return this.duplicateGroups;
+  }
+
+  /**
+   * Restore review decisions for ambiguous duplicate groups (e.g. from localStorage)
+   */
+  setDuplicateDecisions(decisions: Record<string, T_DuplicateDecision>): void {
+    this.duplicateDecisions = { ...decisions };
+  }
+
+  /**
+   * Record whether an ambiguous duplicate group should be merged or kept apart
+   */
+  resolveDuplicateGroup(groupId: string, decision: T_DuplicateDecision): Record<string, T_DuplicateDecision> {
+    this.duplicateDecisions = { ...this.duplicateDecisions, [groupId]: decision };
+    return this.duplicateDecisions;
+  }
+
+  /**
+   * Add uploaded candidates to the pool
+   * "merge" appends them to the current pool, "replace" makes them the whole pool
+   */
+  importCandidates(candidates: I_Candidate[], mode: T_ImportMode): number {
+    const transformed = candidates.map(candidate => transformCandidate(candidate));
+
+    if (mode === 'replace') {
+      this.importedCandidates = transformed;
+      this.bundledReplaced = true;
+    } else {
+      this.importedCandidates = [...this.importedCandidates, ...transformed];
     }
 
-    return result;
+    return transformed.length;
   }
 
   /**
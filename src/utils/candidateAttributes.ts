@@ -0,0 +1,153 @@
+import type { I_CandidateWithScore, I_RangeFilters, T_EducationLevel } from '../types';
+import { BASE_CURRENCY, convertWholeAmount, currencyConverter, parseMoney } from './currency';
+
+// Lowest first; the position is what "minimum level" compares
+export const EDUCATION_LEVELS: T_EducationLevel[] = ['high-school', 'associate', 'bachelor', 'master', 'doctorate'];
+
+// Latin honors don't state a GPA; they count as the lower bound they usually stand for
+const HONORS_GPA: [RegExp, number][] = [
+  [/summa\s+cum\s+laude/i, 3.9],
+  [/magna\s+cum\s+laude/i, 3.7],
+  [/cum\s+laude/i, 3.5],
+];
+
+// Checked in order, so "Master of Business" is not read as a bachelor's
+const EDUCATION_LEVEL_PATTERNS: [RegExp, T_EducationLevel][] = [
+  [/doctor|ph\.?\s?d|juris|\bj\.?d\b|\bm\.?d\b/i, 'doctorate'],
+  [/master|\bmba\b|\bm\.?s\.?c?\b|\bm\.?a\b/i, 'master'],
+  [/bachelor|\bb\.?s\.?c?\b|\bb\.?a\b/i, 'bachelor'],
+  [/associate/i, 'associate'],
+  [/high\s*school|secondary|\bged\b/i, 'high-school'],
+];
+
+/**
+ * Values the range filters compare, parsed once per candidate
+ */
+export interface I_CandidateAttributes {
+  salaryExpectation: number | null; // In the reporting currency
+  gpa: number | null;
+  experienceCount: number;
+  educationLevel: T_EducationLevel | null;
+}
+
+/**
+ * Read an amount such as "$117548", "€117.548,00" or "120k" in the reporting currency
+ * Amounts naming no currency are read as the fallback currency; null when the currency has no rate
+ */
+export const parseSalaryAmount = (value: string, fallbackCurrency: string = BASE_CURRENCY): number | null => {
+  return currencyConverter.toReportingCurrency(parseMoney(value), fallbackCurrency);
+};
+
+/**
+ * Read a GPA: a band ("GPA 3.5-3.9") counts as its lower bound, honors ("Cum Laude") as theirs
+ */
+export const parseGpa = (value: string): number | null => {
+  const honors = HONORS_GPA.find(([pattern]) => pattern.test(value));
+  if (honors) return honors[1];
+
+  const match = value.match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+};
+
+/**
+ * Read a degree level from text such as "Master's Degree" or "Juris Doctor (J.D)"
+ */
+export const parseEducationLevel = (value: string): T_EducationLevel | null => {
+  return EDUCATION_LEVEL_PATTERNS.find(([pattern]) => pattern.test(value))?.[1] ?? null;
+};
+
+const maxBy = <T>(values: (T | null)[], rank: (value: T) => number): T | null =>
+  values.reduce<T | null>((best, value) => (value !== null && (best === null || rank(value) > rank(best)) ? value : best), null);
+
+// Candidates are immutable once loaded, so their attributes are only parsed once per set of exchange rates
+const attributesByCandidate = new WeakMap<I_CandidateWithScore, { currencyVersion: number; attributes: I_CandidateAttributes }>();
+
+/**
+ * Salary expectation, best GPA, number of work experiences and highest degree level of a candidate
+ * The full-time salary is used when there are several, converted to the reporting currency;
+ * the level falls back to the listed degrees
+ */
+export const getCandidateAttributes = (candidate: I_CandidateWithScore): I_CandidateAttributes => {
+  const currencyVersion = currencyConverter.getVersion();
+  const cached = attributesByCandidate.get(candidate);
+  if (cached && cached.currencyVersion === currencyVersion) return cached.attributes;
+
+  const salaries = candidate.annual_salary_expectation ?? {};
+  const salaryText = salaries['full-time'] ?? Object.values(salaries)[0];
+  const degrees = candidate.education?.degrees ?? [];
+
+  const attributes: I_CandidateAttributes = {
+    salaryExpectation: salaryText ? parseSalaryAmount(salaryText) : null,
+    gpa: maxBy(degrees.map(degree => (degree.gpa ? parseGpa(degree.gpa) : null)), gpa => gpa),
+    experienceCount: candidate.work_experiences?.length ?? 0,
+    educationLevel: maxBy(
+      [candidate.education?.highest_level ?? '', ...degrees.map(degree => degree.degree)].map(parseEducationLevel),
+      level => EDUCATION_LEVELS.indexOf(level)
+    ),
+  };
+  attributesByCandidate.set(candidate, { currencyVersion, attributes });
+  return attributes;
+};
+
+const readBound = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+
+/**
+ * Read range filters stored by any version of the app, keeping only valid bounds
+ */
+export const normalizeRangeFilters = (ranges: unknown): I_RangeFilters => {
+  if (!ranges || typeof ranges !== 'object') return {};
+
+  const stored = ranges as Record<string, unknown>;
+  const normalized: I_RangeFilters = {
+    minSalary: readBound(stored.minSalary),
+    maxSalary: readBound(stored.maxSalary),
+    minGpa: readBound(stored.minGpa),
+    minExperienceCount: readBound(stored.minExperienceCount),
+    minEducationLevel: EDUCATION_LEVELS.includes(stored.minEducationLevel as T_EducationLevel)
+      ? stored.minEducationLevel as T_EducationLevel
+      : undefined,
+  };
+
+  return Object.fromEntries(Object.entries(normalized).filter(([, value]) => value !== undefined)) as I_RangeFilters;
+};
+
+/**
+ * Range filters with their salary bounds moved from one reporting currency to another
+ */
+export const convertSalaryRanges = (ranges: I_RangeFilters, from: string, to: string): I_RangeFilters => {
+  if (ranges.minSalary === undefined && ranges.maxSalary === undefined) return ranges;
+
+  return normalizeRangeFilters({
+    ...ranges,
+    minSalary: convertWholeAmount(ranges.minSalary, from, to),
+    maxSalary: convertWholeAmount(ranges.maxSalary, from, to),
+  });
+};
+
+/**
+ * Number of range filters that are set
+ */
+export const countRangeFilters = (ranges: I_RangeFilters | undefined): number => {
+  return Object.values(normalizeRangeFilters(ranges)).length;
+};
+
+/**
+ * Check a candidate against a role's range filters
+ */
+export const passesRangeFilters = (candidate: I_CandidateWithScore, ranges: I_RangeFilters | undefined): boolean => {
+  if (!ranges) return true;
+
+  const { minSalary, maxSalary, minGpa, minExperienceCount, minEducationLevel } = ranges;
+  const { salaryExpectation, gpa, experienceCount, educationLevel } = getCandidateAttributes(candidate);
+
+  if (minSalary !== undefined && (salaryExpectation === null || salaryExpectation < minSalary)) return false;
+  if (maxSalary !== undefined && (salaryExpectation === null || salaryExpectation > maxSalary)) return false;
+  if (minGpa !== undefined && (gpa === null || gpa < minGpa)) return false;
+  if (minExperienceCount !== undefined && experienceCount < minExperienceCount) return false;
+  if (minEducationLevel !== undefined
+    && (educationLevel === null || EDUCATION_LEVELS.indexOf(educationLevel) < EDUCATION_LEVELS.indexOf(minEducationLevel))) {
+    return false;
+  }
+  return true;
+};
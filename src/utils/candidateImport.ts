@@ -0,0 +1,337 @@
+import type { I_Candidate, I_Degree, I_WorkExperience } from '../types';
+import { validateCandidateRecord } from './candidateValidation';
+
+/**
+ * Candidate fields that an uploaded column can be mapped to
+ */
+export type T_ImportField =
+  | 'name'
+  | 'email'
+  | 'phone'
+  | 'location'
+  | 'submitted_at'
+  | 'work_availability'
+  | 'annual_salary_expectation'
+  | 'skills'
+  | 'work_experiences'
+  | 'highest_level'
+  | 'degrees';
+
+export type T_ImportMode = 'merge' | 'replace';
+
+export type T_ColumnMapping = Partial<Record<T_ImportField, string>>;
+
+/**
+ * Parsed upload, before any mapping is applied
+ */
+export interface I_ImportSource {
+  fileName: string;
+  format: 'csv' | 'json';
+  columns: string[];
+  records: Record<string, unknown>[];
+}
+
+/**
+ * Problem found while mapping a single uploaded row
+ */
+export interface I_ImportRowError {
+  row: number;
+  message: string;
+}
+
+export interface I_ImportResult {
+  candidates: I_Candidate[];
+  errors: I_ImportRowError[];
+}
+
+/**
+ * Mappable fields with labels and the column names we recognise for them
+ * Text formats for nested fields:
+ * - lists: values separated by ";", "|" or ","
+ * - work_experiences: "Role @ Company" entries separated by ";"
+ * - degrees: "Degree in Subject @ School" entries separated by ";"
+ */
+export const IMPORT_FIELDS: { field: T_ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', required: true, aliases: ['name', 'full name', 'fullname', 'candidate', 'candidate name'] },
+  { field: 'email', label: 'Email', required: true, aliases: ['email', 'e-mail', 'email address', 'mail'] },
+  { field: 'phone', label: 'Phone', required: false, aliases: ['phone', 'phone number', 'mobile', 'telephone'] },
+  { field: 'location', label: 'Location', required: false, aliases: ['location', 'city', 'country', 'address'] },
+  { field: 'submitted_at', label: 'Submitted at', required: false, aliases: ['submitted_at', 'submitted at', 'applied', 'applied at', 'date', 'created_at'] },
+  { field: 'work_availability', label: 'Work availability', required: false, aliases: ['work_availability', 'availability', 'work availability'] },
+  { field: 'annual_salary_expectation', label: 'Salary expectation', required: false, aliases: ['annual_salary_expectation', 'salary', 'salary expectation', 'expected salary'] },
+  { field: 'skills', label: 'Skills', required: false, aliases: ['skills', 'skill', 'technologies', 'tech stack'] },
+  { field: 'work_experiences', label: 'Work experience', required: false, aliases: ['work_experiences', 'experience', 'work experience', 'roles', 'employment'] },
+  { field: 'highest_level', label: 'Highest education', required: false, aliases: ['highest_level', 'highest education', 'education level', 'degree level'] },
+  { field: 'degrees', label: 'Degrees', required: false, aliases: ['degrees', 'education', 'degree'] },
+];
+
+const LIST_SEPARATOR = /[;|,]/;
+const ENTRY_SEPARATOR = ';';
+
+/**
+ * Parse CSV text into rows of cells
+ * Supports quoted cells, escaped quotes ("") and CRLF line endings
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // Last row (files may not end with a newline)
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+};
+
+/**
+ * Parse an uploaded file's text into records keyed by column name
+ * Throws an Error when the file cannot be read as CSV or JSON
+ */
+export const parseImportFile = (fileName: string, text: string): I_ImportSource => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+
+  if (isJson) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}`);
+    }
+
+    // Accept either a bare array or an export wrapped as { candidates: [...] }
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { candidates?: unknown })?.candidates;
+
+    if (!Array.isArray(list)) {
+      throw new Error('Invalid JSON: expected an array of candidates');
+    }
+
+    const records = list.map(item =>
+      item !== null && typeof item === 'object' && !Array.isArray(item)
+        ? item as Record<string, unknown>
+        : {}
+    );
+    const columns = [...new Set(records.flatMap(record => Object.keys(record)))];
+
+    return { fileName, format: 'json', columns, records };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    throw new Error('CSV file must have a header row and at least one data row');
+  }
+
+  const [header, ...dataRows] = rows;
+  const columns = header.map(column => column.trim());
+  const records = dataRows.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  );
+
+  return { fileName, format: 'csv', columns, records };
+};
+
+const normalizeColumnName = (column: string): string => column.toLowerCase().replace(/[_-]+/g, ' ').trim();
+
+/**
+ * Suggest a mapping by matching column names against known aliases
+ */
+export const guessColumnMapping = (columns: string[]): T_ColumnMapping => {
+  const mapping: T_ColumnMapping = {};
+  const used = new Set<string>();
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const normalizedAliases = aliases.map(normalizeColumnName);
+    const match = columns.find(column =>
+      !used.has(column) && normalizedAliases.includes(normalizeColumnName(column))
+    );
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+};
+
+const toText = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return String(value).trim();
+};
+
+const toList = (value: unknown): string[] => {
+  if (Array.isArray(value)) {
+    return value.map(toText).filter(Boolean);
+  }
+  return toText(value).split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean);
+};
+
+const toWorkExperiences = (value: unknown): I_WorkExperience[] => {
+  if (Array.isArray(value)) {
+    return value.map(entry => {
+      const exp = (entry ?? {}) as Partial<I_WorkExperience>;
+      if (!toText(exp.roleName) && !toText(exp.company)) {
+        throw new Error('work experience entries need a roleName or company');
+      }
+      return { roleName: toText(exp.roleName), company: toText(exp.company) };
+    });
+  }
+
+  return toText(value).split(ENTRY_SEPARATOR).map(item => item.trim()).filter(Boolean).map(entry => {
+    const [roleName, company = ''] = entry.split('@').map(part => part.trim());
+    return { roleName, company };
+  });
+};
+
+const createDegree = (fields: Partial<I_Degree>): I_Degree => ({
+  degree: toText(fields.degree),
+  subject: toText(fields.subject),
+  school: toText(fields.school),
+  gpa: toText(fields.gpa),
+  startDate: toText(fields.startDate),
+  endDate: toText(fields.endDate),
+  originalSchool: toText(fields.originalSchool) || toText(fields.school),
+  isTop50: fields.isTop50 === true,
+  ...(fields.isTop25 !== undefined && { isTop25: fields.isTop25 === true }),
+});
+
+const toDegrees = (value: unknown): I_Degree[] => {
+  if (Array.isArray(value)) {
+    return value.map(entry => {
+      if (entry === null || typeof entry !== 'object') {
+        throw new Error('degree entries must be objects');
+      }
+      return createDegree(entry as Partial<I_Degree>);
+    });
+  }
+
+  // JSON exports may contain the full education object in a single column
+  if (value !== null && typeof value === 'object' && Array.isArray((value as { degrees?: unknown }).degrees)) {
+    return toDegrees((value as { degrees: unknown[] }).degrees);
+  }
+
+  return toText(value).split(ENTRY_SEPARATOR).map(item => item.trim()).filter(Boolean).map(entry => {
+    const [degreeAndSubject, school = ''] = entry.split('@').map(part => part.trim());
+    const [degree, subject = ''] = degreeAndSubject.split(/\s+in\s+/i).map(part => part.trim());
+    return createDegree({ degree, subject, school });
+  });
+};
+
+const toSalaryExpectation = (value: unknown): Record<string, string> => {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([type, amount]) => [type, toText(amount)])
+    );
+  }
+
+  const amount = toText(value);
+  if (!amount) return {};
+  return { 'full-time': /^\d/.test(amount) ? `$${amount}` : amount };
+};
+
+/**
+ * Convert uploaded records into candidates using the column mapping
+ * Rows that cannot be converted are skipped and reported with their row number
+ */
+export const mapImportRecords = (
+  records: Record<string, unknown>[],
+  mapping: T_ColumnMapping
+): I_ImportResult => {
+  const candidates: I_Candidate[] = [];
+  const errors: I_ImportRowError[] = [];
+
+  const getValue = (record: Record<string, unknown>, field: T_ImportField): unknown => {
+    const column = mapping[field];
+    return column ? record[column] : undefined;
+  };
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const rowErrors: string[] = [];
+
+    let workExperiences: I_WorkExperience[] = [];
+    let degrees: I_Degree[] = [];
+    try {
+      workExperiences = toWorkExperiences(getValue(record, 'work_experiences'));
+    } catch (error) {
+      rowErrors.push(error instanceof Error ? error.message : 'invalid work experience');
+    }
+    try {
+      degrees = toDegrees(getValue(record, 'degrees'));
+    } catch (error) {
+      rowErrors.push(error instanceof Error ? error.message : 'invalid degrees');
+    }
+
+    const mappedCandidate: I_Candidate = {
+      name: toText(getValue(record, 'name')),
+      email: toText(getValue(record, 'email')),
+      phone: toText(getValue(record, 'phone')),
+      location: toText(getValue(record, 'location')),
+      submitted_at: toText(getValue(record, 'submitted_at')),
+      work_availability: toList(getValue(record, 'work_availability')),
+      annual_salary_expectation: toSalaryExpectation(getValue(record, 'annual_salary_expectation')),
+      work_experiences: workExperiences,
+      education: {
+        highest_level: toText(getValue(record, 'highest_level'))
+          || toText((getValue(record, 'degrees') as { highest_level?: unknown } | undefined)?.highest_level)
+          || degrees[0]?.degree
+          || '',
+        degrees,
+      },
+      skills: toList(getValue(record, 'skills')),
+    };
+
+    // Run the same checks as the bundled data so both agree on what is usable
+    const validation = validateCandidateRecord(mappedCandidate);
+    validation.issues
+      .filter(issue => issue.severity === 'error')
+      .forEach(issue => rowErrors.push(issue.message));
+
+    if (rowErrors.length > 0 || !validation.candidate) {
+      rowErrors.forEach(message => errors.push({ row, message }));
+      return;
+    }
+
+    candidates.push(validation.candidate);
+  });
+
+  return { candidates, errors };
+};
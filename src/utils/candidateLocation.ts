@@ -0,0 +1,222 @@
+import bundledLocations from '../../resources/locationLookup.json';
+import type { I_CandidateWithScore, I_LocationFilters, T_PreferenceMode, T_WorkAvailability } from '../types';
+import { WORK_AVAILABILITY_LABELS } from '../constants';
+
+/**
+ * Country with its region and the other names and places that resolve to it
+ * e.g. { country: 'Brazil', region: 'South America', aliases: ['Brasil'], places: ['São Paulo'] }
+ */
+export interface I_LocationLookupEntry {
+  country: string;
+  region: string;
+  aliases: string[];
+  places: string[];
+}
+
+/**
+ * Country and region a free-text location resolved to
+ */
+export interface I_ResolvedLocation {
+  country: string;
+  region: string;
+}
+
+/**
+ * Number of candidates in a region, and in each of its countries, most candidates first
+ */
+export interface I_RegionFacet {
+  region: string;
+  count: number;
+  countries: { country: string; count: number }[];
+}
+
+/**
+ * Location facet of a candidate pool
+ */
+export interface I_LocationFacets {
+  regions: I_RegionFacet[];
+  unknownCount: number; // Candidates whose location is empty or not in the lookup
+  workAvailabilityCounts: Record<T_WorkAvailability, number>;
+}
+
+/**
+ * Location and availability preferences a candidate met or missed
+ */
+export interface I_PreferenceMatches {
+  matched: string[];
+  missed: string[];
+}
+
+export const LOCATION_LOOKUP: I_LocationLookupEntry[] = bundledLocations;
+
+export const WORK_AVAILABILITIES: T_WorkAvailability[] = ['full-time', 'part-time'];
+
+const PREFERENCE_MODES: T_PreferenceMode[] = ['require', 'prefer'];
+
+/**
+ * Reduce a location to a lookup key so "São Paulo", "Sao Paulo" and "sao-paulo" compare equal
+ */
+export const normalizeLocationKey = (location: string): string =>
+  location
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Earlier entries win when a place name is shared by several countries (e.g. Valencia)
+const locationsByKey = new Map<string, I_ResolvedLocation>();
+LOCATION_LOOKUP.forEach(({ country, region, aliases, places }) => {
+  [country, ...aliases, ...places].forEach(name => {
+    const key = normalizeLocationKey(name);
+    if (key && !locationsByKey.has(key)) locationsByKey.set(key, { country, region });
+  });
+});
+
+// Candidates share a small set of location strings, so lookups repeat a lot
+const resolvedLocations = new Map<string, I_ResolvedLocation | null>();
+
+/**
+ * Country and region of a free-text location such as "Toronto", "Brasil" or "Austin, TX"
+ * The whole text is looked up first, then its comma-separated parts from the last one
+ */
+export const resolveLocation = (location: string): I_ResolvedLocation | null => {
+  const cached = resolvedLocations.get(location);
+  if (cached !== undefined) return cached;
+
+  const candidates = [location, ...location.split(',').reverse()];
+  const key = candidates.map(normalizeLocationKey).find(part => part && locationsByKey.has(part));
+  const resolved = key ? locationsByKey.get(key)! : null;
+  resolvedLocations.set(location, resolved);
+  return resolved;
+};
+
+const facetsByPool = new WeakMap<I_CandidateWithScore[], I_LocationFacets>();
+
+/**
+ * Candidate counts per region, country and work availability
+ * Memoized per pool array; the pool is replaced, not mutated, when candidates change
+ */
+export const getLocationFacets = (candidates: I_CandidateWithScore[]): I_LocationFacets => {
+  let facets = facetsByPool.get(candidates);
+  if (facets) return facets;
+
+  const countsByRegion = new Map<string, Map<string, number>>();
+  const workAvailabilityCounts: Record<T_WorkAvailability, number> = { 'full-time': 0, 'part-time': 0 };
+  let unknownCount = 0;
+
+  candidates.forEach(candidate => {
+    WORK_AVAILABILITIES.forEach(availability => {
+      if (candidate.work_availability?.includes(availability)) workAvailabilityCounts[availability]++;
+    });
+
+    const resolved = resolveLocation(candidate.location ?? '');
+    if (!resolved) {
+      unknownCount++;
+      return;
+    }
+    const countries = countsByRegion.get(resolved.region) ?? new Map<string, number>();
+    countries.set(resolved.country, (countries.get(resolved.country) ?? 0) + 1);
+    countsByRegion.set(resolved.region, countries);
+  });
+
+  const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+  const regions = [...countsByRegion].map(([region, countries]) => {
+    const countryFacets = [...countries].map(([country, count]) => ({ country, count })).sort(byCount);
+    return { region, count: countryFacets.reduce((sum, { count }) => sum + count, 0), countries: countryFacets };
+  });
+
+  facets = { regions: regions.sort(byCount), unknownCount, workAvailabilityCounts };
+  facetsByPool.set(candidates, facets);
+  return facets;
+};
+
+const readNames = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const names = [...new Set(value.filter((name): name is string => typeof name === 'string' && name.trim() !== ''))];
+  return names.length > 0 ? names : undefined;
+};
+
+const readMode = (value: unknown): T_PreferenceMode | undefined =>
+  PREFERENCE_MODES.includes(value as T_PreferenceMode) ? value as T_PreferenceMode : undefined;
+
+/**
+ * Read location filters stored by any version of the app, keeping only valid values
+ */
+export const normalizeLocationFilters = (filters: unknown): I_LocationFilters => {
+  if (!filters || typeof filters !== 'object') return {};
+
+  const stored = filters as Record<string, unknown>;
+  const normalized: I_LocationFilters = {
+    regions: readNames(stored.regions),
+    countries: readNames(stored.countries),
+    locationMode: readMode(stored.locationMode),
+    workAvailability: WORK_AVAILABILITIES.includes(stored.workAvailability as T_WorkAvailability)
+      ? stored.workAvailability as T_WorkAvailability
+      : undefined,
+    workAvailabilityMode: readMode(stored.workAvailabilityMode),
+  };
+
+  return Object.fromEntries(Object.entries(normalized).filter(([, value]) => value !== undefined)) as I_LocationFilters;
+};
+
+const hasLocationChoice = (filters: I_LocationFilters): boolean =>
+  (filters.regions?.length ?? 0) + (filters.countries?.length ?? 0) > 0;
+
+/**
+ * Number of location and availability filters that are set
+ */
+export const countLocationFilters = (filters: I_LocationFilters | undefined): number => {
+  if (!filters) return 0;
+  return (hasLocationChoice(filters) ? 1 : 0) + (filters.workAvailability ? 1 : 0);
+};
+
+const matchesLocation = (candidate: I_CandidateWithScore, filters: I_LocationFilters): boolean => {
+  const resolved = resolveLocation(candidate.location ?? '');
+  return !!resolved && (!!filters.regions?.includes(resolved.region) || !!filters.countries?.includes(resolved.country));
+};
+
+const matchesWorkAvailability = (candidate: I_CandidateWithScore, availability: T_WorkAvailability): boolean =>
+  !!candidate.work_availability?.includes(availability);
+
+/**
+ * Check a candidate against the location and availability a role requires
+ * Preferred (not required) choices never filter; candidates with an unknown location fail a required one
+ */
+export const passesLocationFilters = (candidate: I_CandidateWithScore, filters: I_LocationFilters | undefined): boolean => {
+  if (!filters) return true;
+
+  if (hasLocationChoice(filters) && filters.locationMode !== 'prefer' && !matchesLocation(candidate, filters)) return false;
+  if (filters.workAvailability && filters.workAvailabilityMode !== 'prefer'
+    && !matchesWorkAvailability(candidate, filters.workAvailability)) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Label of the location a role selected, e.g. "Europe, Brazil"
+ */
+export const formatLocationChoice = (filters: I_LocationFilters): string =>
+  [...(filters.regions ?? []), ...(filters.countries ?? [])].join(', ');
+
+/**
+ * Preferred location and availability a candidate meets and misses
+ * Returns null when the role prefers neither
+ */
+export const getPreferenceMatches = (
+  candidate: I_CandidateWithScore,
+  filters: I_LocationFilters | undefined
+): I_PreferenceMatches | null => {
+  if (!filters) return null;
+
+  const matches: I_PreferenceMatches = { matched: [], missed: [] };
+  if (hasLocationChoice(filters) && filters.locationMode === 'prefer') {
+    matches[matchesLocation(candidate, filters) ? 'matched' : 'missed'].push(formatLocationChoice(filters));
+  }
+  if (filters.workAvailability && filters.workAvailabilityMode === 'prefer') {
+    const label = WORK_AVAILABILITY_LABELS[filters.workAvailability];
+    matches[matchesWorkAvailability(candidate, filters.workAvailability) ? 'matched' : 'missed'].push(label);
+  }
+  return matches.matched.length + matches.missed.length > 0 ? matches : null;
+};
@@ -0,0 +1,123 @@
+import type { I_CandidateWithScore, I_RoleFilters, I_ScoringProfile } from '../types';
+import { calculateCandidateScores } from './scoringAlgorithm';
+import { getScoringKeywords } from './keywordMatching';
+import { getCandidateSearchIndex } from './candidateSearchIndex';
+import { passesRangeFilters } from './candidateAttributes';
+import { passesLocationFilters } from './candidateLocation';
+import { createQueryPredicate, parseFilterQuery } from './filterQuery';
+import { getScoreContextKey, type ScoreCache } from './scoreCache';
+import type { I_SkillTaxonomyEntry } from './skillTaxonomy';
+import type { I_CurrencySettings } from './currency';
+
+/**
+ * What the candidate list of a role is built from
+ */
+export interface I_CandidatePipelineRequest {
+  roleFilters: I_RoleFilters;
+  scoringProfile: I_ScoringProfile;
+  excludedCandidateIds: string[]; // Candidates already selected for other roles
+}
+
+interface I_RunCandidatePipelineOptions {
+  cache?: ScoreCache;
+  chunkSize?: number;
+  isCancelled?: () => boolean;
+}
+
+// Messages sent to the candidate pipeline worker
+export type T_CandidatePipelineMessage =
+  | { type: 'setCandidates'; candidates: I_CandidateWithScore[] }
+  | { type: 'setSkillTaxonomy'; entries: I_SkillTaxonomyEntry[] }
+  | { type: 'setCurrencySettings'; settings: I_CurrencySettings }
+  | { type: 'run'; requestId: number; request: I_CandidatePipelineRequest }
+  | { type: 'cancel'; requestId: number };
+
+// Messages sent back by the worker
+export type T_CandidatePipelineResult =
+  | { type: 'result'; requestId: number; candidates: I_CandidateWithScore[] }
+  | { type: 'error'; requestId: number; message: string };
+
+const DEFAULT_CHUNK_SIZE = 250;
+
+// Let queued messages (e.g. a newer request) and rendering run between chunks
+const yieldToEventLoop = (): Promise<void> => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * The predicate deciding which candidates of a pool pass a role's filters
+ * Keyword filters are set operations on the pool's search index; ranges, location and the
+ * filter query are checked per candidate. A query that doesn't parse is ignored.
+ * Shared by the pipeline, auto-fill and keyword suggestion counts so they all agree.
+ */
+export const createRoleFilterPredicate = (
+  candidates: I_CandidateWithScore[],
+  roleFilters: I_RoleFilters
+): ((candidate: I_CandidateWithScore) => boolean) => {
+  const searchIndex = getCandidateSearchIndex(candidates);
+  const passingIds = searchIndex.filterCandidateIds(roleFilters);
+  const { node } = parseFilterQuery(roleFilters.query ?? '');
+  const matchesQuery = node ? createQueryPredicate(node, searchIndex) : () => true;
+
+  return candidate => passingIds.has(candidate.id)
+    && passesRangeFilters(candidate, roleFilters.ranges)
+    && passesLocationFilters(candidate, roleFilters.location)
+    && matchesQuery(candidate);
+};
+
+/**
+ * Filter, score and sort candidates for a role
+ * Work is done in chunks; when isCancelled turns true between chunks the run stops and resolves to null.
+ * Scores are read from and written to the cache when one is given.
+ *
+ * @returns Candidates passing the role's filters, highest score first
+ */
+export const runCandidatePipeline = async (
+  candidates: I_CandidateWithScore[],
+  { roleFilters, scoringProfile, excludedCandidateIds }: I_CandidatePipelineRequest,
+  { cache, chunkSize = DEFAULT_CHUNK_SIZE, isCancelled = () => false }: I_RunCandidatePipelineOptions = {}
+): Promise<I_CandidateWithScore[] | null> => {
+  const excludedIds = new Set(excludedCandidateIds);
+  const searchIndex = getCandidateSearchIndex(candidates);
+  const passesFilters = createRoleFilterPredicate(candidates, roleFilters);
+  const cachedScores = cache?.getScores(getScoreContextKey(roleFilters, scoringProfile));
+  const skillKeywords = getScoringKeywords(roleFilters.skills);
+  const experienceKeywords = getScoringKeywords(roleFilters.experience);
+  const educationKeywords = getScoringKeywords(roleFilters.education);
+  const results: I_CandidateWithScore[] = [];
+
+  for (let start = 0; start < candidates.length; start += chunkSize) {
+    if (start > 0) {
+      await yieldToEventLoop();
+    }
+    if (isCancelled()) {
+      return null;
+    }
+
+    const eligible = candidates
+      .slice(start, start + chunkSize)
+      .filter(candidate => !excludedIds.has(candidate.id) && passesFilters(candidate));
+
+    // Only score candidates missing from the cache
+    const toScore = cachedScores ? eligible.filter(candidate => !cachedScores.has(candidate.id)) : eligible;
+    const newlyScored = new Map(
+      calculateCandidateScores(toScore, skillKeywords, experienceKeywords, educationKeywords, scoringProfile, searchIndex, roleFilters.location)
+        .map(scored => [scored.id, scored])
+    );
+    newlyScored.forEach((scored, id) => cachedScores?.set(id, scored));
+
+    eligible.forEach(candidate => {
+      results.push(newlyScored.get(candidate.id) ?? cachedScores?.get(candidate.id) as I_CandidateWithScore);
+    });
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep pool order
+  return results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+};
+
+/**
+ * Whether two pipeline results rank the same candidates in the same order with the same scores
+ * Worker results are copies, so a re-run for an unchanged role can keep showing its previous list
+ */
+export const isSameRanking = (previous: I_CandidateWithScore[], next: I_CandidateWithScore[]): boolean => {
+  return previous.length === next.length
+    && previous.every((candidate, index) => candidate.id === next[index].id && candidate.score === next[index].score);
+};
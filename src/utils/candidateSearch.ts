@@ -0,0 +1,225 @@
+import type { I_CandidateWithScore } from '../types';
+
+export type T_SearchField = 'name' | 'email' | 'location' | 'company' | 'role' | 'school' | 'skill';
+
+// A term found in a name counts more than one found in a skill or a city
+const SEARCH_FIELD_WEIGHTS: Record<T_SearchField, number> = {
+  name: 5,
+  email: 4,
+  company: 3,
+  skill: 3,
+  role: 2.5,
+  school: 2,
+  location: 2,
+};
+
+// Match quality of a candidate word for a query term
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.6; // Less 0.15 for each further edit
+
+// Shorter terms only match exactly or as a prefix; "cat" and "car" are too close to call a typo
+const MIN_TYPO_TERM_LENGTH = 4;
+const LONG_TERM_LENGTH = 7; // Terms this long may have two typos
+
+interface I_SearchDocument {
+  field: T_SearchField;
+  value: string;
+  words: string[];
+}
+
+export interface I_SearchFieldMatch {
+  field: T_SearchField;
+  value: string;
+}
+
+export interface I_CandidateSearchResult {
+  candidate: I_CandidateWithScore;
+  score: number;
+  highlightWords: Set<string>; // Normalized candidate words that matched a term
+  matchedFields: I_SearchFieldMatch[];
+}
+
+export interface I_HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Lowercase and drop accents so "José" is found by "jose"
+ */
+const normalizeWord = (word: string): string =>
+  word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Split text into normalized words; punctuation, spaces and "@" separate words
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  normalizeWord(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Edit distance with adjacent swaps (optimal string alignment), giving up once it exceeds maxDistance
+ */
+export const getEditDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previousPrevious[j - 2] + 1);
+      }
+      rowMinimum = Math.min(rowMinimum, current[j]);
+    }
+    if (rowMinimum > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How well a candidate word matches a query term, 0 when it doesn't
+ */
+const getWordMatchQuality = (term: string, word: string): number => {
+  if (word === term) return EXACT_MATCH;
+  if (word.startsWith(term)) return PREFIX_MATCH;
+  if (term.length < MIN_TYPO_TERM_LENGTH) return 0;
+
+  const maxEdits = term.length >= LONG_TERM_LENGTH ? 2 : 1;
+  const distance = getEditDistance(term, word, maxEdits);
+  return distance <= maxEdits ? TYPO_MATCH - (distance - 1) * 0.15 : 0;
+};
+
+// Candidates are immutable once loaded, so their searchable text is only split once
+const documentsByCandidate = new WeakMap<I_CandidateWithScore, I_SearchDocument[]>();
+
+const getSearchDocuments = (candidate: I_CandidateWithScore): I_SearchDocument[] => {
+  let documents = documentsByCandidate.get(candidate);
+  if (documents) return documents;
+
+  const fields: [T_SearchField, string | undefined][] = [
+    ['name', candidate.name],
+    ['email', candidate.email],
+    ['location', candidate.location],
+    ...(candidate.work_experiences ?? []).flatMap((experience): [T_SearchField, string][] => [
+      ['company', experience.company],
+      ['role', experience.roleName],
+    ]),
+    ...(candidate.education?.degrees ?? []).map((degree): [T_SearchField, string] => ['school', degree.school]),
+    ...(candidate.skills ?? []).map((skill): [T_SearchField, string] => ['skill', skill]),
+  ];
+
+  const seen = new Set<string>();
+  documents = fields.flatMap(([field, value]) => {
+    const key = `${field}|${value}`;
+    if (!value || seen.has(key)) return [];
+    seen.add(key);
+    return [{ field, value, words: tokenizeSearchText(value) }];
+  });
+  documentsByCandidate.set(candidate, documents);
+  return documents;
+};
+
+/**
+ * Rate a candidate against query terms whose word matches are already known
+ * Every term has to match somewhere; each term adds its best match weighted by field
+ */
+const rateCandidate = (
+  candidate: I_CandidateWithScore,
+  termMatches: Map<string, number>[]
+): I_CandidateSearchResult | null => {
+  const documents = getSearchDocuments(candidate);
+  const highlightWords = new Set<string>();
+  const matchedFields: I_SearchFieldMatch[] = [];
+  let score = 0;
+
+  for (const matchesForTerm of termMatches) {
+    let bestScore = 0;
+    documents.forEach(document => {
+      let documentMatched = false;
+      document.words.forEach(word => {
+        const quality = matchesForTerm.get(word);
+        if (!quality) return;
+        documentMatched = true;
+        highlightWords.add(word);
+        bestScore = Math.max(bestScore, quality * SEARCH_FIELD_WEIGHTS[document.field]);
+      });
+      if (documentMatched && !matchedFields.some(match => match.field === document.field && match.value === document.value)) {
+        matchedFields.push({ field: document.field, value: document.value });
+      }
+    });
+    if (bestScore === 0) return null;
+    score += bestScore;
+  }
+
+  return { candidate, score, highlightWords, matchedFields };
+};
+
+/**
+ * Candidate words matching each query term, with their match quality
+ * Worked out once per distinct word rather than once per candidate
+ */
+const matchTermsAgainstVocabulary = (terms: string[], vocabulary: Set<string>): Map<string, number>[] =>
+  terms.map(term => {
+    const matches = new Map<string, number>();
+    vocabulary.forEach(word => {
+      const quality = getWordMatchQuality(term, word);
+      if (quality > 0) matches.set(word, quality);
+    });
+    return matches;
+  });
+
+const getQueryTerms = (query: string): string[] => [...new Set(tokenizeSearchText(query))];
+
+/**
+ * Ranked, typo-tolerant search over name, email, location, companies, role names, schools and skills
+ * Returns only candidates matching every query term, best matches first; ties keep the given order
+ */
+export const searchCandidates = (candidates: I_CandidateWithScore[], query: string): I_CandidateSearchResult[] => {
+  const terms = getQueryTerms(query);
+  if (terms.length === 0) return [];
+
+  const vocabulary = new Set<string>();
+  candidates.forEach(candidate => {
+    getSearchDocuments(candidate).forEach(document => document.words.forEach(word => vocabulary.add(word)));
+  });
+  const termMatches = matchTermsAgainstVocabulary(terms, vocabulary);
+
+  return candidates
+    .map(candidate => rateCandidate(candidate, termMatches))
+    .filter((result): result is I_CandidateSearchResult => result !== null)
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Search match for a single candidate, e.g. to highlight it in the detail view
+ */
+export const getCandidateSearchMatch = (candidate: I_CandidateWithScore, query: string): I_CandidateSearchResult | null => {
+  return searchCandidates([candidate], query)[0] ?? null;
+};
+
+/**
+ * Split text into plain and highlighted parts; whole words are highlighted when they matched
+ */
+export const splitHighlightSegments = (text: string, highlightWords: ReadonlySet<string>): I_HighlightSegment[] => {
+  if (!text || highlightWords.size === 0) return [{ text, highlighted: false }];
+
+  const segments: I_HighlightSegment[] = [];
+  text.split(/([\p{L}\p{N}\p{M}]+)/u).forEach(part => {
+    if (!part) return;
+    const highlighted = highlightWords.has(normalizeWord(part));
+    const last = segments[segments.length - 1];
+    if (last && last.highlighted === highlighted) {
+      last.text += part;
+    } else {
+      segments.push({ text: part, highlighted });
+    }
+  });
+  return segments;
+};
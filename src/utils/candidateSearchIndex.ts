@@ -0,0 +1,217 @@
+import type { I_CandidateWithScore, I_RoleFilters, T_KeywordMatchMode } from '../types';
+import {
+  createFieldMatcher,
+  getCandidateFields,
+  getKeywordMatchMode,
+  KEYWORD_CATEGORIES,
+  KEYWORD_FIELDS,
+  type T_KeywordField,
+  type T_MatchKeyword,
+} from './keywordMatching';
+import { skillTaxonomy } from './skillTaxonomy';
+
+// Substring ("contains") searches narrow the vocabulary by character n-grams of this size
+const NGRAM_SIZE = 3;
+
+interface I_CategoryIndex {
+  postings: Map<string, number[]>; // Distinct field value -> positions of the candidates that have it
+  words: Map<string, Set<string>>; // Normalized word -> field values containing it
+  ngrams: Map<string, Set<string>>; // Character n-gram -> field values containing it
+}
+
+interface I_KeywordMatches {
+  values: Set<string>; // Field values the keyword matches
+  candidateIds: Set<string>;
+}
+
+const normalizeText = (text: string): string => text.trim().toLowerCase();
+
+const getWords = (normalizedText: string): string[] => normalizedText.split(/[^a-z0-9]+/).filter(Boolean);
+
+const getNgrams = (normalizedText: string): string[] => {
+  const ngrams: string[] = [];
+  for (let start = 0; start + NGRAM_SIZE <= normalizedText.length; start++) {
+    ngrams.push(normalizedText.slice(start, start + NGRAM_SIZE));
+  }
+  return ngrams;
+};
+
+const addToIndex = (index: Map<string, Set<string>>, key: string, value: string) => {
+  const values = index.get(key);
+  if (values) {
+    values.add(value);
+  } else {
+    index.set(key, new Set([value]));
+  }
+};
+
+/**
+ * Values present in every set, walking the smallest one
+ */
+const intersectAll = (sets: (Set<string> | undefined)[]): Set<string> => {
+  if (sets.some(set => !set)) return new Set();
+
+  const [smallest, ...rest] = (sets as Set<string>[]).sort((a, b) => a.size - b.size);
+  return new Set([...smallest].filter(value => rest.every(set => set.has(value))));
+};
+
+/**
+ * Inverted index of the candidate pool's skills, roles, companies and degrees/subjects
+ * Candidates share a small vocabulary, so a keyword is tested once per distinct field value
+ * (narrowed down by word or n-gram lookups) instead of once per candidate field.
+ * Matches use the same rules as keywordMatching and are cached until the skill taxonomy changes.
+ */
+export class CandidateSearchIndex {
+  private candidateIds: string[];
+  private categories = {} as Record<T_KeywordField, I_CategoryIndex>;
+  private matches = new Map<string, I_KeywordMatches>();
+  private taxonomyVersion: number = skillTaxonomy.getVersion();
+
+  constructor(candidates: I_CandidateWithScore[]) {
+    this.candidateIds = candidates.map(candidate => candidate.id);
+
+    KEYWORD_FIELDS.forEach(category => {
+      const index: I_CategoryIndex = { postings: new Map(), words: new Map(), ngrams: new Map() };
+
+      candidates.forEach((candidate, position) => {
+        getCandidateFields(candidate, category).forEach(field => {
+          const positions = index.postings.get(field);
+          if (!positions) {
+            index.postings.set(field, [position]);
+          } else if (positions[positions.length - 1] !== position) {
+            positions.push(position);
+          }
+        });
+      });
+
+      index.postings.forEach((_, field) => {
+        const normalizedField = normalizeText(field);
+        getWords(normalizedField).forEach(word => addToIndex(index.words, word, field));
+        getNgrams(normalizedField).forEach(ngram => addToIndex(index.ngrams, ngram, field));
+      });
+
+      this.categories[category] = index;
+    });
+  }
+
+  /**
+   * Field values that could match a keyword, before running the real matcher on them
+   * A whole-word or exact text match contains every word of the keyword, and a substring match
+   * every n-gram. Skills known to the taxonomy also match aliases and child skills that share no
+   * text with the keyword, and exact skill matches ignore punctuation, so those check every skill.
+   */
+  private getPossibleValues(category: T_KeywordField, value: string, matchMode: T_KeywordMatchMode): Iterable<string> {
+    const index = this.categories[category];
+    const isTextMatch = category !== 'skills' || (matchMode !== 'exact' && !skillTaxonomy.resolve(value));
+    if (!isTextMatch) return index.postings.keys();
+
+    const normalizedValue = normalizeText(value);
+    const lookups = matchMode === 'contains'
+      ? getNgrams(normalizedValue).map(ngram => index.ngrams.get(ngram))
+      : getWords(normalizedValue).map(word => index.words.get(word));
+
+    // Keywords too short for an n-gram, or without letters or digits, can't be narrowed down
+    return lookups.length > 0 ? intersectAll(lookups) : index.postings.keys();
+  }
+
+  private getKeywordMatches(category: T_KeywordField, keyword: T_MatchKeyword): I_KeywordMatches {
+    // Taxonomy edits change which skills match, so cached lookups are dropped
+    if (this.taxonomyVersion !== skillTaxonomy.getVersion()) {
+      this.matches.clear();
+      this.taxonomyVersion = skillTaxonomy.getVersion();
+    }
+
+    const value = typeof keyword === 'string' ? keyword : keyword.value;
+    const matchMode = getKeywordMatchMode(category, keyword);
+    const cacheKey = `${category}|${matchMode}|${value}`;
+    const cached = this.matches.get(cacheKey);
+    if (cached) return cached;
+
+    const matchesField = createFieldMatcher(category, keyword);
+    const postings = this.categories[category].postings;
+    const values = new Set<string>();
+    const candidateIds = new Set<string>();
+    for (const field of this.getPossibleValues(category, value, matchMode)) {
+      if (!matchesField(field)) continue;
+      values.add(field);
+      postings.get(field)?.forEach(position => candidateIds.add(this.candidateIds[position]));
+    }
+
+    const matches = { values, candidateIds };
+    this.matches.set(cacheKey, matches);
+    return matches;
+  }
+
+  /**
+   * IDs of the candidates matching a keyword in the given category
+   */
+  getMatchingCandidateIds(category: T_KeywordField, keyword: T_MatchKeyword): ReadonlySet<string> {
+    return this.getKeywordMatches(category, keyword).candidateIds;
+  }
+
+  /**
+   * Same result as keywordMatching's getMatchingFields, answered from the index
+   * Fields the index has never seen (candidates outside the pool) are matched directly
+   */
+  getMatchingFields(candidate: I_CandidateWithScore, category: T_KeywordField, keyword: T_MatchKeyword): string[] {
+    const { values } = this.getKeywordMatches(category, keyword);
+    const postings = this.categories[category].postings;
+    let matchesField: ((field: string) => boolean) | undefined;
+
+    return getCandidateFields(candidate, category).filter(field => {
+      if (postings.has(field)) return values.has(field);
+      matchesField ??= createFieldMatcher(category, keyword);
+      return matchesField(field);
+    });
+  }
+
+  /**
+   * IDs of the candidates passing the hard filters, same as keywordMatching's passesKeywordFilters:
+   * the intersection of every must-have keyword's matches minus every excluded keyword's matches
+   */
+  filterCandidateIds(filters: I_RoleFilters): Set<string> {
+    const required: ReadonlySet<string>[] = [];
+    const excluded: ReadonlySet<string>[] = [];
+    KEYWORD_CATEGORIES.forEach(category => {
+      filters[category].forEach(keyword => {
+        if (keyword.tier === 'must') required.push(this.getMatchingCandidateIds(category, keyword));
+        if (keyword.tier === 'exclude') excluded.push(this.getMatchingCandidateIds(category, keyword));
+      });
+    });
+
+    const [smallest, ...rest] = required.sort((a, b) => a.size - b.size);
+    const passing = new Set<string>();
+    for (const id of smallest ?? this.candidateIds) {
+      if (rest.every(ids => ids.has(id)) && !excluded.some(ids => ids.has(id))) {
+        passing.add(id);
+      }
+    }
+    return passing;
+  }
+
+  /**
+   * Drop cached keyword lookups; the index itself is kept
+   */
+  clearMatches(): void {
+    this.matches.clear();
+  }
+
+  get size(): number {
+    return this.candidateIds.length;
+  }
+}
+
+// One index per pool array; a new pool (import, merge, released records) gets a new index
+const indexesByPool = new WeakMap<I_CandidateWithScore[], CandidateSearchIndex>();
+
+/**
+ * The search index for a candidate pool, built on first use
+ */
+export const getCandidateSearchIndex = (candidates: I_CandidateWithScore[]): CandidateSearchIndex => {
+  let index = indexesByPool.get(candidates);
+  if (!index) {
+    index = new CandidateSearchIndex(candidates);
+    indexesByPool.set(candidates, index);
+  }
+  return index;
+};
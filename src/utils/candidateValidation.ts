@@ -0,0 +1,318 @@
+import type { I_Candidate, I_Degree, I_WorkExperience } from '../types';
+
+/**
+ * Errors make a record unusable (we can't tell who the candidate is);
+ * warnings mean the record was usable after normalizing a field
+ */
+export type T_ValidationSeverity = 'error' | 'warning';
+
+export type T_RecordStatus = 'valid' | 'partial' | 'invalid';
+
+export type T_ValidationIssueCode =
+  | 'not_an_object'
+  | 'missing_name'
+  | 'missing_email'
+  | 'invalid_email'
+  | 'invalid_text_field'
+  | 'malformed_submitted_at'
+  | 'work_availability_not_array'
+  | 'invalid_salary_expectation'
+  | 'skills_not_array'
+  | 'invalid_skill'
+  | 'work_experiences_not_array'
+  | 'invalid_work_experience'
+  | 'missing_education'
+  | 'missing_degrees'
+  | 'invalid_degree'
+  | 'empty_highest_level';
+
+export interface I_ValidationIssue {
+  code: T_ValidationIssueCode;
+  severity: T_ValidationSeverity;
+  field: string;
+  message: string;
+}
+
+export interface I_RecordValidation {
+  status: T_RecordStatus;
+  issues: I_ValidationIssue[];
+  // Normalized record; null when the record is invalid
+  candidate: I_Candidate | null;
+}
+
+/**
+ * Record held out of the candidate pool, with the reasons why
+ */
+export interface I_QuarantinedRecord {
+  index: number;
+  label: string;
+  status: Exclude<T_RecordStatus, 'valid'>;
+  issues: I_ValidationIssue[];
+  candidate: I_Candidate | null;
+}
+
+export interface I_DataQualityIssueSummary {
+  code: T_ValidationIssueCode;
+  severity: T_ValidationSeverity;
+  label: string;
+  count: number;
+  examples: { index: number; label: string; message: string }[];
+}
+
+export interface I_DataQualityReport {
+  totalRecords: number;
+  validCount: number;
+  partialCount: number;
+  invalidCount: number;
+  issues: I_DataQualityIssueSummary[];
+  quarantined: I_QuarantinedRecord[];
+}
+
+export const VALIDATION_ISSUE_LABELS: Record<T_ValidationIssueCode, string> = {
+  not_an_object: 'Record is not an object',
+  missing_name: 'Missing name',
+  missing_email: 'Missing email',
+  invalid_email: 'Malformed email',
+  invalid_text_field: 'Non-text contact field',
+  malformed_submitted_at: 'Malformed submitted_at',
+  work_availability_not_array: 'Non-array work_availability',
+  invalid_salary_expectation: 'Malformed salary expectation',
+  skills_not_array: 'Non-array skills',
+  invalid_skill: 'Non-text skill entry',
+  work_experiences_not_array: 'Non-array work_experiences',
+  invalid_work_experience: 'Malformed work experience entry',
+  missing_education: 'Missing education',
+  missing_degrees: 'Missing education.degrees',
+  invalid_degree: 'Malformed degree entry',
+  empty_highest_level: 'Empty highest_level',
+};
+
+const MAX_EXAMPLES_PER_ISSUE = 3;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}([ T]\d{2}:\d{2}(:\d{2}(\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Check a date string like "2025-01-28 09:02:16.000000"
+ */
+const isValidDateString = (value: string): boolean => {
+  if (!DATE_PATTERN.test(value)) return false;
+  // Trim sub-millisecond digits so every browser's Date parser accepts it
+  const isoValue = value.replace(' ', 'T').replace(/(\.\d{3})\d+/, '$1');
+  return !Number.isNaN(Date.parse(isoValue));
+};
+
+/**
+ * Validate a raw record against the I_Candidate shape
+ * Returns the issues found and, unless the record is invalid, a normalized candidate
+ */
+export const validateCandidateRecord = (raw: unknown): I_RecordValidation => {
+  const issues: I_ValidationIssue[] = [];
+  const addIssue = (code: T_ValidationIssueCode, severity: T_ValidationSeverity, field: string, message: string) => {
+    issues.push({ code, severity, field, message });
+  };
+
+  if (!isPlainObject(raw)) {
+    addIssue('not_an_object', 'error', '', 'record is not an object');
+    return { status: 'invalid', issues, candidate: null };
+  }
+
+  // Contact fields
+  const readText = (field: string): string => {
+    const value = raw[field];
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string') {
+      addIssue('invalid_text_field', 'warning', field, `${field} is not text`);
+      return String(value);
+    }
+    return value.trim();
+  };
+
+  const name = readText('name');
+  const email = readText('email');
+  const phone = readText('phone');
+  const location = readText('location');
+  const submittedAt = readText('submitted_at');
+
+  if (!name) addIssue('missing_name', 'error', 'name', 'missing name');
+  if (!email) {
+    addIssue('missing_email', 'error', 'email', 'missing email');
+  } else if (!EMAIL_PATTERN.test(email)) {
+    addIssue('invalid_email', 'error', 'email', `invalid email "${email}"`);
+  }
+  if (!isValidDateString(submittedAt)) {
+    addIssue('malformed_submitted_at', 'warning', 'submitted_at', submittedAt ? `unrecognised date "${submittedAt}"` : 'missing submission date');
+  }
+
+  // Work availability and salary
+  let workAvailability: string[] = [];
+  if (Array.isArray(raw.work_availability)) {
+    workAvailability = raw.work_availability.filter((value): value is string => typeof value === 'string');
+  } else if (raw.work_availability !== undefined) {
+    addIssue('work_availability_not_array', 'warning', 'work_availability', 'work_availability is not an array');
+  }
+
+  let salaryExpectation: Record<string, string> = {};
+  if (isPlainObject(raw.annual_salary_expectation)) {
+    salaryExpectation = Object.fromEntries(
+      Object.entries(raw.annual_salary_expectation).filter(([, amount]) => typeof amount === 'string')
+    ) as Record<string, string>;
+    if (Object.keys(salaryExpectation).length !== Object.keys(raw.annual_salary_expectation).length) {
+      addIssue('invalid_salary_expectation', 'warning', 'annual_salary_expectation', 'some salary amounts are not text');
+    }
+  } else if (raw.annual_salary_expectation !== undefined) {
+    addIssue('invalid_salary_expectation', 'warning', 'annual_salary_expectation', 'annual_salary_expectation is not an object');
+  }
+
+  // Skills
+  let skills: string[] = [];
+  if (Array.isArray(raw.skills)) {
+    skills = raw.skills.filter((skill): skill is string => typeof skill === 'string');
+    if (skills.length !== raw.skills.length) {
+      addIssue('invalid_skill', 'warning', 'skills', `${raw.skills.length - skills.length} skill entries are not text`);
+    }
+  } else {
+    addIssue('skills_not_array', 'warning', 'skills', `skills is ${raw.skills === undefined ? 'missing' : typeof raw.skills}`);
+  }
+
+  // Work experience
+  let workExperiences: I_WorkExperience[] = [];
+  if (Array.isArray(raw.work_experiences)) {
+    workExperiences = raw.work_experiences.filter((exp): exp is I_WorkExperience =>
+      isPlainObject(exp) && typeof exp.roleName === 'string' && typeof exp.company === 'string'
+    );
+    if (workExperiences.length !== raw.work_experiences.length) {
+      addIssue('invalid_work_experience', 'warning', 'work_experiences', `${raw.work_experiences.length - workExperiences.length} entries lack roleName/company`);
+    }
+  } else {
+    addIssue('work_experiences_not_array', 'warning', 'work_experiences', 'work_experiences is not an array');
+  }
+
+  // Education
+  let degrees: I_Degree[] = [];
+  let highestLevel = '';
+  if (!isPlainObject(raw.education)) {
+    addIssue('missing_education', 'warning', 'education', 'education is missing');
+  } else {
+    if (Array.isArray(raw.education.degrees)) {
+      degrees = raw.education.degrees
+        .filter((degree): degree is Record<string, unknown> =>
+          isPlainObject(degree) && typeof degree.degree === 'string' && typeof degree.subject === 'string'
+        )
+        .map(degree => ({
+          degree: degree.degree as string,
+          subject: degree.subject as string,
+          school: typeof degree.school === 'string' ? degree.school : '',
+          gpa: typeof degree.gpa === 'string' ? degree.gpa : '',
+          startDate: typeof degree.startDate === 'string' ? degree.startDate : '',
+          endDate: typeof degree.endDate === 'string' ? degree.endDate : '',
+          originalSchool: typeof degree.originalSchool === 'string' ? degree.originalSchool : '',
+          isTop50: degree.isTop50 === true,
+          ...(degree.isTop25 !== undefined && { isTop25: degree.isTop25 === true }),
+        }));
+      if (degrees.length !== raw.education.degrees.length) {
+        addIssue('invalid_degree', 'warning', 'education.degrees', `${raw.education.degrees.length - degrees.length} degree entries are malformed`);
+      }
+    } else {
+      addIssue('missing_degrees', 'warning', 'education.degrees', 'education.degrees is missing');
+    }
+
+    highestLevel = typeof raw.education.highest_level === 'string' ? raw.education.highest_level.trim() : '';
+    if (!highestLevel) {
+      addIssue('empty_highest_level', 'warning', 'education.highest_level', 'highest_level is empty');
+      highestLevel = degrees[0]?.degree ?? '';
+    }
+  }
+
+  const hasErrors = issues.some(issue => issue.severity === 'error');
+  if (hasErrors) {
+    return { status: 'invalid', issues, candidate: null };
+  }
+
+  return {
+    status: issues.length > 0 ? 'partial' : 'valid',
+    issues,
+    candidate: {
+      name,
+      email,
+      phone,
+      location,
+      submitted_at: submittedAt,
+      work_availability: workAvailability,
+      annual_salary_expectation: salaryExpectation,
+      work_experiences: workExperiences,
+      education: { highest_level: highestLevel, degrees },
+      skills,
+    },
+  };
+};
+
+const getRecordLabel = (raw: unknown, index: number): string => {
+  if (isPlainObject(raw)) {
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    const email = typeof raw.email === 'string' ? raw.email.trim() : '';
+    if (name || email) {
+      return name && email ? `${name} <${email}>` : name || email;
+    }
+  }
+  return `Record #${index + 1}`;
+};
+
+/**
+ * Validate every raw record and summarize the problems found
+ * Valid records are returned ready to use; invalid and partial records are quarantined
+ */
+export const validateCandidateRecords = (records: unknown[]): {
+  validCandidates: { index: number; candidate: I_Candidate }[];
+  report: I_DataQualityReport;
+} => {
+  const validCandidates: { index: number; candidate: I_Candidate }[] = [];
+  const quarantined: I_QuarantinedRecord[] = [];
+  const issueSummaries = new Map<T_ValidationIssueCode, I_DataQualityIssueSummary>();
+
+  records.forEach((raw, index) => {
+    const result = validateCandidateRecord(raw);
+    const label = getRecordLabel(raw, index);
+
+    result.issues.forEach(issue => {
+      const summary = issueSummaries.get(issue.code) ?? {
+        code: issue.code,
+        severity: issue.severity,
+        label: VALIDATION_ISSUE_LABELS[issue.code],
+        count: 0,
+        examples: [],
+      };
+      summary.count++;
+      if (summary.examples.length < MAX_EXAMPLES_PER_ISSUE) {
+        summary.examples.push({ index, label, message: issue.message });
+      }
+      issueSummaries.set(issue.code, summary);
+    });
+
+    if (result.status === 'valid' && result.candidate) {
+      validCandidates.push({ index, candidate: result.candidate });
+    } else {
+      quarantined.push({
+        index,
+        label,
+        status: result.status === 'invalid' ? 'invalid' : 'partial',
+        issues: result.issues,
+        candidate: result.candidate,
+      });
+    }
+  });
+
+  return {
+    validCandidates,
+    report: {
+      totalRecords: records.length,
+      validCount: validCandidates.length,
+      partialCount: quarantined.filter(record => record.status === 'partial').length,
+      invalidCount: quarantined.filter(record => record.status === 'invalid').length,
+      issues: [...issueSummaries.values()].sort((a, b) => b.count - a.count),
+      quarantined,
+    },
+  };
+};
@@ -0,0 +1,232 @@
+import bundledRates from '../../resources/exchangeRates.json';
+
+/**
+ * Currency amounts are reported in and the exchange rates used to get there
+ * Rates are units of each currency per one unit of the base currency, e.g. { USD: 1, EUR: 0.85 }
+ */
+export interface I_CurrencySettings {
+  reportingCurrency: string;
+  rates: Record<string, number>;
+}
+
+/**
+ * Amount read from text such as "€95.000" or "120k USD"
+ */
+export interface I_MoneyAmount {
+  amount: number;
+  currency: string | null; // Null when the text names no currency
+}
+
+// Currency the bundled rates are quoted against; amounts naming no currency in candidate data are read as it
+export const BASE_CURRENCY: string = bundledRates.base;
+export const EXCHANGE_RATES_AS_OF: string = bundledRates.asOf;
+
+export const DEFAULT_CURRENCY_SETTINGS: I_CurrencySettings = {
+  reportingCurrency: BASE_CURRENCY,
+  rates: bundledRates.rates,
+};
+
+// Checked in order, so "US$" and "R$" are found before the bare "$"
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['C$', 'CAD'],
+  ['AU$', 'AUD'],
+  ['A$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['S$', 'SGD'],
+  ['MX$', 'MXN'],
+  ['R$', 'BRL'],
+  ['€', 'EUR'],
+  ['£', 'GBP'],
+  ['¥', 'JPY'],
+  ['₹', 'INR'],
+  ['₩', 'KRW'],
+  ['₦', 'NGN'],
+  ['₱', 'PHP'],
+  ['₪', 'ILS'],
+  ['₺', 'TRY'],
+  ['zł', 'PLN'],
+  ['$', 'USD'],
+];
+
+// Digits grouped by spaces or apostrophes ("1 234 567", "120'000"), or digits with commas and dots,
+// optionally followed by a thousand or million suffix ("120k", "1.2m")
+const AMOUNT_PATTERN = /(\d{1,3}(?:[\s'’]\d{3})+(?:[.,]\d+)?|\d[\d.,]*)(?:\s*([km])(?![a-z]))?/i;
+const CURRENCY_CODE_PATTERN = /(?:^|[^A-Za-z])([A-Z]{3})(?![A-Za-z])/;
+const SUFFIX_MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+/**
+ * Whether a value is a well-formed ISO 4217 code such as "EUR"
+ */
+export const isCurrencyCode = (value: string): boolean => /^[A-Z]{3}$/.test(value);
+
+/**
+ * Read digits written with either comma or dot decimals: "117,548.50", "117.548,50" and "95.000" all work.
+ * A lone separator followed by exactly three digits groups thousands; otherwise it marks decimals.
+ */
+const readNumber = (text: string): number | null => {
+  const digits = text.replace(/[\s'’]/g, '').replace(/[.,]+$/, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+
+  let normalized: string;
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimalSeparator = lastComma > lastDot ? ',' : '.';
+    const groupSeparator = decimalSeparator === ',' ? '.' : ',';
+    normalized = digits.split(groupSeparator).join('').replace(decimalSeparator, '.');
+  } else if (lastComma >= 0 || lastDot >= 0) {
+    const separator = lastComma >= 0 ? ',' : '.';
+    const parts = digits.split(separator);
+    const isGrouping = parts.length > 2 || parts[1].length === 3;
+    normalized = isGrouping ? parts.join('') : parts.join('.');
+  } else {
+    normalized = digits;
+  }
+
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+/**
+ * Read an amount and its currency from text such as "$117548", "EUR 95.000", "£70k" or "1.2m INR"
+ * The currency comes from a three-letter code or a symbol; a bare "$" is read as US dollars.
+ */
+export const parseMoney = (text: string): I_MoneyAmount | null => {
+  const match = text.match(AMOUNT_PATTERN);
+  if (!match) return null;
+
+  const amount = readNumber(match[1]);
+  if (amount === null) return null;
+
+  const code = text.match(CURRENCY_CODE_PATTERN)?.[1];
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => text.includes(candidate));
+  return {
+    amount: amount * (match[2] ? SUFFIX_MULTIPLIERS[match[2].toLowerCase()] : 1),
+    currency: code ?? symbol?.[1] ?? null,
+  };
+};
+
+const readRate = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+/**
+ * Read currency settings stored by any version of the app, keeping only valid codes and rates
+ * The base currency always has a rate, and an unknown reporting currency falls back to it
+ */
+export const normalizeCurrencySettings = (value: unknown): I_CurrencySettings => {
+  const stored = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const storedRates = stored.rates && typeof stored.rates === 'object' ? stored.rates as Record<string, unknown> : {};
+
+  const rates: Record<string, number> = { [BASE_CURRENCY]: 1 };
+  Object.entries(storedRates).forEach(([code, rate]) => {
+    const validRate = readRate(rate);
+    if (isCurrencyCode(code) && validRate !== null && code !== BASE_CURRENCY) {
+      rates[code] = validRate;
+    }
+  });
+
+  const reportingCurrency = typeof stored.reportingCurrency === 'string' && rates[stored.reportingCurrency]
+    ? stored.reportingCurrency
+    : BASE_CURRENCY;
+  return { reportingCurrency, rates };
+};
+
+/**
+ * Converts amounts between currencies with an editable rate table and formats them for the user's locale
+ * Uses singleton pattern so filters, sorting and budgets share the user's reporting currency
+ */
+class CurrencyConverter {
+  private settings: I_CurrencySettings = DEFAULT_CURRENCY_SETTINGS;
+  private formats = new Map<string, Intl.NumberFormat>();
+  private version: number = 0;
+
+  constructor(settings: I_CurrencySettings) {
+    this.setSettings(settings);
+  }
+
+  /**
+   * Replace the reporting currency and rate table
+   */
+  setSettings(settings: I_CurrencySettings): void {
+    this.settings = settings;
+    this.version++;
+  }
+
+  getSettings(): I_CurrencySettings {
+    return this.settings;
+  }
+
+  getReportingCurrency(): string {
+    return this.settings.reportingCurrency;
+  }
+
+  /**
+   * Increases on every change, so cached salaries can tell when they need converting again
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Convert an amount between currencies, or null when either has no rate
+   */
+  convert(amount: number, from: string, to: string = this.settings.reportingCurrency): number | null {
+    if (from === to) return amount;
+
+    const fromRate = this.settings.rates[from];
+    const toRate = this.settings.rates[to];
+    return fromRate && toRate ? amount / fromRate * toRate : null;
+  }
+
+  /**
+   * Amount in the reporting currency; an amount naming no currency is read as the fallback currency
+   */
+  toReportingCurrency(money: I_MoneyAmount | null, fallbackCurrency: string = BASE_CURRENCY): number | null {
+    return money ? this.convert(money.amount, money.currency ?? fallbackCurrency) : null;
+  }
+
+  /**
+   * Format a whole amount for the user's locale, e.g. "$120,000" or "120.000 €"
+   */
+  format(amount: number, currency: string = this.settings.reportingCurrency, locale?: string): string {
+    const key = `${locale ?? ''}:${currency}`;
+    let format = this.formats.get(key);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { style: 'currency', currency, maximumFractionDigits: 0 });
+      this.formats.set(key, format);
+    }
+    return format.format(amount);
+  }
+}
+
+// Export singleton converter instance
+export const currencyConverter = new CurrencyConverter(DEFAULT_CURRENCY_SETTINGS);
+
+/**
+ * Amount text formatted for the user's locale, followed by its value in the reporting currency when that differs
+ * e.g. "€95.000" reads "€95,000 (≈ $111,372)"; text without an amount is returned as it is
+ */
+export const formatMoneyText = (text: string, locale?: string): string => {
+  const money = parseMoney(text);
+  if (!money) return text;
+
+  const currency = money.currency ?? BASE_CURRENCY;
+  const formatted = currencyConverter.format(money.amount, currency, locale);
+  const converted = currencyConverter.toReportingCurrency(money);
+  return converted !== null && currency !== currencyConverter.getReportingCurrency()
+    ? `${formatted} (≈ ${currencyConverter.format(converted, undefined, locale)})`
+    : formatted;
+};
+
+/**
+ * Whole amount moved from one currency to another, e.g. a budget entered before the reporting currency changed
+ * Amounts are kept as they are when either currency has no rate
+ */
+export const convertWholeAmount = (amount: number | undefined, from: string, to: string): number | undefined => {
+  if (amount === undefined) return undefined;
+
+  const converted = currencyConverter.convert(amount, from, to);
+  return converted === null ? amount : Math.round(converted);
+};
@@ -0,0 +1,301 @@
+import type { I_CandidateWithScore, I_Degree, I_WorkExperience } from '../types';
+
+/**
+ * What two records have in common
+ */
+export type T_DuplicateSignal = 'email' | 'phone' | 'name';
+
+/**
+ * Confirmed groups are merged automatically; ambiguous groups wait for a review decision
+ */
+export type T_DuplicateConfidence = 'confirmed' | 'ambiguous';
+
+export type T_DuplicateDecision = 'merge' | 'keep';
+
+export interface I_DuplicateGroup {
+  id: string;
+  candidateIds: string[];
+  // The records as they were before merging, for the review screen
+  members: I_CandidateWithScore[];
+  signals: T_DuplicateSignal[];
+  confidence: T_DuplicateConfidence;
+  // Confirmed sub-groups inside an ambiguous group; these merge even if the group is kept apart
+  confirmedSubgroups: string[][];
+}
+
+// Two names count as the same person at or above this similarity
+const NAME_SIMILARITY_THRESHOLD = 0.85;
+// Name-only matches need a closer match, since there is no shared contact detail
+const NAME_ONLY_SIMILARITY_THRESHOLD = 0.9;
+const MIN_PHONE_DIGITS = 7;
+
+/**
+ * Simple union-find over record indexes
+ */
+class DisjointSet {
+  private parents: number[];
+
+  constructor(size: number) {
+    this.parents = Array.from({ length: size }, (_, index) => index);
+  }
+
+  find(index: number): number {
+    while (this.parents[index] !== index) {
+      this.parents[index] = this.parents[this.parents[index]];
+      index = this.parents[index];
+    }
+    return index;
+  }
+
+  union(a: number, b: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) {
+      this.parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+    }
+  }
+}
+
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const normalizePhone = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  return digits.length >= MIN_PHONE_DIGITS ? digits : '';
+};
+
+export const normalizeName = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const levenshteinDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Similarity of two normalized names between 0 and 1
+ * A name whose words are all contained in the other ("Jane" / "Jane Doe") counts as a close match
+ */
+export const getNameSimilarity = (a: string, b: string, allowPartial: boolean = true): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const editSimilarity = 1 - levenshteinDistance(a, b) / Math.max(a.length, b.length);
+  if (!allowPartial) return editSimilarity;
+
+  const tokensA = a.split(' ');
+  const tokensB = b.split(' ');
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const isContained = shorter.every(token => longer.includes(token));
+
+  return isContained ? Math.max(editSimilarity, NAME_SIMILARITY_THRESHOLD) : editSimilarity;
+};
+
+const getGroupId = (candidateIds: string[]): string => `dup:${[...candidateIds].sort().join('|')}`;
+
+/**
+ * Find groups of records that belong to the same person
+ * Records sharing an email or phone with a similar name are confirmed duplicates.
+ * A shared email or phone with a different name, or a near-identical name alone,
+ * links records into an ambiguous group that needs review before it is merged
+ */
+export const findDuplicateGroups = (candidates: I_CandidateWithScore[]): I_DuplicateGroup[] => {
+  const names = candidates.map(candidate => normalizeName(candidate.name));
+  const confirmedLinks = new DisjointSet(candidates.length);
+  const allLinks = new DisjointSet(candidates.length);
+  const signalsByRoot = new Map<number, Set<T_DuplicateSignal>>();
+  const pairSignals: { a: number; b: number; signal: T_DuplicateSignal }[] = [];
+
+  // Bucket records by a key and record a signal for every pair in a bucket
+  const linkByKey = (getKey: (index: number) => string, signal: T_DuplicateSignal) => {
+    const buckets = new Map<string, number[]>();
+    candidates.forEach((_, index) => {
+      const key = getKey(index);
+      if (!key) return;
+      buckets.set(key, [...(buckets.get(key) ?? []), index]);
+    });
+
+    buckets.forEach(indexes => {
+      for (let i = 0; i < indexes.length; i++) {
+        for (let j = i + 1; j < indexes.length; j++) {
+          pairSignals.push({ a: indexes[i], b: indexes[j], signal });
+        }
+      }
+    });
+  };
+
+  linkByKey(index => normalizeEmail(candidates[index].email), 'email');
+  linkByKey(index => normalizePhone(candidates[index].phone), 'phone');
+
+  pairSignals.forEach(({ a, b }) => {
+    allLinks.union(a, b);
+    if (getNameSimilarity(names[a], names[b]) >= NAME_SIMILARITY_THRESHOLD) {
+      confirmedLinks.union(a, b);
+    }
+  });
+
+  // Fuzzy name matches are only compared within records sharing a first word, to keep this fast
+  const byFirstWord = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    const firstWord = name.split(' ')[0];
+    if (firstWord) {
+      byFirstWord.set(firstWord, [...(byFirstWord.get(firstWord) ?? []), index]);
+    }
+  });
+  byFirstWord.forEach(indexes => {
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const a = indexes[i];
+        const b = indexes[j];
+        if (getNameSimilarity(names[a], names[b], false) >= NAME_ONLY_SIMILARITY_THRESHOLD) {
+          pairSignals.push({ a, b, signal: 'name' });
+          allLinks.union(a, b);
+        }
+      }
+    }
+  });
+
+  pairSignals.forEach(({ a, signal }) => {
+    const root = allLinks.find(a);
+    const signals = signalsByRoot.get(root) ?? new Set<T_DuplicateSignal>();
+    signals.add(signal);
+    signalsByRoot.set(root, signals);
+  });
+
+  // Collect components of the full link graph, noting the confirmed sub-groups inside each
+  const components = new Map<number, Map<number, number[]>>();
+  candidates.forEach((_, index) => {
+    const root = allLinks.find(index);
+    const subgroups = components.get(root) ?? new Map<number, number[]>();
+    const confirmedRoot = confirmedLinks.find(index);
+    subgroups.set(confirmedRoot, [...(subgroups.get(confirmedRoot) ?? []), index]);
+    components.set(root, subgroups);
+  });
+
+  const groups: I_DuplicateGroup[] = [];
+  components.forEach((subgroups, root) => {
+    const members = [...subgroups.values()].flat().sort((a, b) => a - b);
+    if (members.length < 2) return;
+
+    const candidateIds = members.map(index => candidates[index].id);
+    groups.push({
+      id: getGroupId(candidateIds),
+      candidateIds,
+      members: members.map(index => candidates[index]),
+      signals: [...(signalsByRoot.get(root) ?? [])],
+      confidence: subgroups.size === 1 ? 'confirmed' : 'ambiguous',
+      confirmedSubgroups: [...subgroups.values()]
+        .filter(subgroup => subgroup.length > 1)
+        .map(subgroup => subgroup.map(index => candidates[index].id)),
+    });
+  });
+
+  return groups;
+};
+
+const uniqueBy = <T>(items: T[], getKey: (item: T) => string): T[] => {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = getKey(item);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Merge duplicate records into one
+ * The most recently submitted record wins for single-value fields; skills,
+ * work experiences and degrees from every record are combined
+ */
+export const mergeDuplicateCandidates = (records: I_CandidateWithScore[]): I_CandidateWithScore => {
+  const [latest, ...older] = [...records].sort((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+  if (older.length === 0) return latest;
+
+  const ordered = [latest, ...older];
+  const firstFilled = (getValue: (record: I_CandidateWithScore) => string): string =>
+    ordered.map(getValue).find(value => value.trim() !== '') ?? '';
+
+  const degrees = uniqueBy(
+    ordered.flatMap(record => record.education.degrees),
+    (degree: I_Degree) => `${degree.degree}|${degree.subject}|${degree.school}`.toLowerCase()
+  );
+
+  return {
+    ...latest,
+    phone: firstFilled(record => record.phone),
+    location: firstFilled(record => record.location),
+    work_availability: uniqueBy(ordered.flatMap(record => record.work_availability), value => value),
+    // Older expectations only fill in work types the latest record doesn't mention
+    annual_salary_expectation: Object.assign({}, ...[...ordered].reverse().map(record => record.annual_salary_expectation)),
+    work_experiences: uniqueBy(
+      ordered.flatMap(record => record.work_experiences),
+      (exp: I_WorkExperience) => `${exp.roleName}|${exp.company}`.toLowerCase()
+    ),
+    education: {
+      highest_level: firstFilled(record => record.education.highest_level),
+      degrees,
+    },
+    skills: uniqueBy(ordered.flatMap(record => record.skills), skill => skill.trim().toLowerCase()),
+    currentRole: ordered.find(record => record.currentRole)?.currentRole,
+    currentCompany: ordered.find(record => record.currentCompany)?.currentCompany,
+    highestEducation: firstFilled(record => record.education.highest_level),
+    mergedIds: uniqueBy(ordered.flatMap(record => [record.id, ...(record.mergedIds ?? [])]), id => id),
+  };
+};
+
+/**
+ * Collapse duplicate groups into single records
+ * Confirmed groups always merge; ambiguous groups merge only when the decision is "merge",
+ * otherwise just their confirmed sub-groups are merged
+ */
+export const applyDuplicateDecisions = (
+  candidates: I_CandidateWithScore[],
+  groups: I_DuplicateGroup[],
+  decisions: Record<string, T_DuplicateDecision>
+): I_CandidateWithScore[] => {
+  const candidatesById = new Map(candidates.map(candidate => [candidate.id, candidate]));
+  const mergedInto = new Map<string, I_CandidateWithScore>();
+
+  const mergeIds = (candidateIds: string[]) => {
+    const merged = mergeDuplicateCandidates(
+      candidateIds
+        .map(id => candidatesById.get(id))
+        .filter((candidate): candidate is I_CandidateWithScore => candidate !== undefined)
+    );
+    candidateIds.forEach(id => mergedInto.set(id, merged));
+  };
+
+  groups.forEach(group => {
+    if (group.confidence === 'confirmed' || decisions[group.id] === 'merge') {
+      mergeIds(group.candidateIds);
+    } else {
+      group.confirmedSubgroups.forEach(mergeIds);
+    }
+  });
+
+  // Keep the pool order, placing each merged record where its first member was
+  const emitted = new Set<I_CandidateWithScore>();
+  return candidates.flatMap(candidate => {
+    const merged = mergedInto.get(candidate.id);
+    if (!merged) return [candidate];
+    if (emitted.has(merged)) return [];
+    emitted.add(merged);
+    return [merged];
+  });
+};
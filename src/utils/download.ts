@@ -0,0 +1,29 @@
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export const downloadTextFile = (fileName: string, text: string, mimeType: string = 'text/plain'): void => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Open an HTML page in a new window and show the browser's print dialog, where it can be saved as PDF
+ * Returns false when the window was blocked, e.g. by a popup blocker
+ */
+export const openPrintWindow = (html: string): boolean => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
@@ -0,0 +1,426 @@
+import type { I_CandidateWithScore, I_FilterKeyword, T_WorkAvailability } from '../types';
+import { candidateMatchesKeyword, KEYWORD_CATEGORIES, type T_KeywordField } from './keywordMatching';
+import { EDUCATION_LEVELS, getCandidateAttributes, parseEducationLevel, parseSalaryAmount } from './candidateAttributes';
+import { currencyConverter, parseMoney } from './currency';
+import { LOCATION_LOOKUP, normalizeLocationKey, resolveLocation, WORK_AVAILABILITIES } from './candidateLocation';
+import type { CandidateSearchIndex } from './candidateSearchIndex';
+
+export type T_CompareOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type T_NumericQueryField = 'salary' | 'gpa' | 'jobs' | 'level';
+
+/**
+ * Parsed query
+ * Keywords without a field are looked for in skills, experience and education
+ */
+export type T_QueryNode =
+  | { type: 'and' | 'or'; children: T_QueryNode[] }
+  | { type: 'not'; child: T_QueryNode }
+  | { type: 'keyword'; categories: T_KeywordField[]; keyword: I_FilterKeyword }
+  | { type: 'compare'; field: T_NumericQueryField; operator: T_CompareOperator; value: number }
+  | { type: 'location'; value: string }
+  | { type: 'availability'; value: T_WorkAvailability };
+
+/**
+ * Syntax error with the part of the query it is about
+ */
+export interface I_FilterQueryError {
+  message: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Result of parsing a query; both are null for an empty query
+ */
+export interface I_FilterQueryParseResult {
+  node: T_QueryNode | null;
+  error: I_FilterQueryError | null;
+}
+
+type T_QueryField = T_KeywordField | T_NumericQueryField | 'location' | 'availability';
+
+interface I_Token {
+  type: 'word' | 'quoted' | 'field' | 'and' | 'or' | 'not' | 'open' | 'close';
+  value: string;
+  start: number;
+  end: number;
+}
+
+// Names accepted before a colon, e.g. "edu:Engineering"
+const FIELD_NAMES: Record<string, T_QueryField> = {
+  skill: 'skills',
+  skills: 'skills',
+  role: 'experience',
+  roles: 'experience',
+  company: 'company',
+  exp: 'experience',
+  experience: 'experience',
+  edu: 'education',
+  education: 'education',
+  salary: 'salary',
+  gpa: 'gpa',
+  jobs: 'jobs',
+  level: 'level',
+  location: 'location',
+  country: 'location',
+  region: 'location',
+  availability: 'availability',
+};
+
+const OPERATOR_WORDS: Record<string, I_Token['type']> = { AND: 'and', OR: 'or', NOT: 'not' };
+
+// Country and region names and aliases; other locations are matched as text
+const LOCATION_NAMES = new Map<string, (candidateLocation: { country: string; region: string }) => boolean>();
+LOCATION_LOOKUP.forEach(({ country, region, aliases }) => {
+  [country, ...aliases].forEach(name => LOCATION_NAMES.set(normalizeLocationKey(name), location => location.country === country));
+  LOCATION_NAMES.set(normalizeLocationKey(region), location => location.region === region);
+});
+
+/**
+ * Error thrown while parsing and turned into an I_FilterQueryError
+ */
+class FilterQuerySyntaxError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.start = start;
+    this.end = end;
+  }
+}
+
+const tokenize = (query: string): I_Token[] => {
+  const tokens: I_Token[] = [];
+  let position = 0;
+
+  while (position < query.length) {
+    const char = query[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', value: char, start: position, end: position + 1 });
+      position++;
+    } else if (char === '"') {
+      const closing = query.indexOf('"', position + 1);
+      if (closing < 0) throw new FilterQuerySyntaxError('Missing closing quote', position, query.length);
+      tokens.push({ type: 'quoted', value: query.slice(position + 1, closing), start: position, end: closing + 1 });
+      position = closing + 1;
+    } else {
+      const start = position;
+      while (position < query.length && !/[\s()":]/.test(query[position])) position++;
+      const value = query.slice(start, position);
+
+      if (query[position] === ':') {
+        if (!value) throw new FilterQuerySyntaxError('Expected a field name before ":"', position, position + 1);
+        position++;
+        tokens.push({ type: 'field', value, start, end: position });
+      } else {
+        tokens.push({ type: OPERATOR_WORDS[value] ?? 'word', value, start, end: position });
+      }
+    }
+  }
+  return tokens;
+};
+
+const COMPARISON_PATTERN = /^(<=|>=|<|>|=)?(.*)$/;
+
+const parseComparison = (token: I_Token, field: T_NumericQueryField): T_QueryNode => {
+  const [, operator = '=', text] = token.value.match(COMPARISON_PATTERN)!;
+
+  let value: number | null;
+  if (field === 'level') {
+    const level = EDUCATION_LEVELS.find(name => name === text.toLowerCase()) ?? parseEducationLevel(text);
+    value = level ? EDUCATION_LEVELS.indexOf(level) : null;
+    if (value === null) {
+      throw new FilterQuerySyntaxError(`Unknown degree level "${text}", use one of ${EDUCATION_LEVELS.join(', ')}`, token.start, token.end);
+    }
+  } else {
+    // Salaries are compared in the reporting currency, which amounts naming no currency are already in
+    value = field === 'salary'
+      ? parseSalaryAmount(text, currencyConverter.getReportingCurrency())
+      : /^\d+(\.\d+)?$/.test(text) ? parseFloat(text) : null;
+    const currency = field === 'salary' ? parseMoney(text)?.currency : null;
+    if (value === null && currency) {
+      throw new FilterQuerySyntaxError(`No exchange rate for ${currency}, add one in Settings`, token.start, token.end);
+    }
+    if (value === null) {
+      throw new FilterQuerySyntaxError(`Expected a number for ${field}, e.g. ${field}:>=3`, token.start, token.end);
+    }
+  }
+  return { type: 'compare', field, operator: operator as T_CompareOperator, value };
+};
+
+const parseAvailability = (token: I_Token): T_QueryNode => {
+  const text = token.value.toLowerCase().replace(/[^a-z]/g, '');
+  const value = WORK_AVAILABILITIES.find(availability => availability.replace('-', '').startsWith(text) && text.length >= 4);
+  if (!value) {
+    throw new FilterQuerySyntaxError(`Unknown availability "${token.value}", use ${WORK_AVAILABILITIES.join(' or ')}`, token.start, token.end);
+  }
+  return { type: 'availability', value };
+};
+
+/**
+ * A value, with the field it was given or inherited from a group such as skills:(React OR Vue)
+ * Keywords match whole words in every field; a trailing * on an unquoted one matches it anywhere in the text
+ */
+const parseValue = (token: I_Token, field: T_QueryField | undefined): T_QueryNode => {
+  if (!token.value.trim()) throw new FilterQuerySyntaxError('Empty value', token.start, token.end);
+
+  switch (field) {
+    case 'salary':
+    case 'gpa':
+    case 'jobs':
+    case 'level':
+      return parseComparison(token, field);
+    case 'availability':
+      return parseAvailability(token);
+    case 'location':
+      return { type: 'location', value: token.value };
+  }
+
+  const isWildcard = token.type === 'word' && token.value.length > 1 && token.value.endsWith('*');
+  const keyword: I_FilterKeyword = isWildcard
+    ? { value: token.value.slice(0, -1), tier: 'must', matchMode: 'contains' }
+    : { value: token.value, tier: 'must', matchMode: 'word' };
+  return { type: 'keyword', categories: field ? [field] : KEYWORD_CATEGORIES, keyword };
+};
+
+/**
+ * Recursive descent parser; NOT binds tighter than AND, which binds tighter than OR
+ * Terms next to each other are joined with AND
+ */
+class QueryParser {
+  private tokens: I_Token[];
+  private position = 0;
+  private queryLength: number;
+
+  constructor(tokens: I_Token[], queryLength: number) {
+    this.tokens = tokens;
+    this.queryLength = queryLength;
+  }
+
+  parse(): T_QueryNode {
+    const node = this.parseOr(undefined);
+    const extra = this.peek();
+    if (extra) throw new FilterQuerySyntaxError(`Unexpected "${extra.value}"`, extra.start, extra.end);
+    return node;
+  }
+
+  private peek(): I_Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(field: T_QueryField | undefined): T_QueryNode {
+    const children = [this.parseAnd(field)];
+    while (this.peek()?.type === 'or') {
+      this.position++;
+      children.push(this.parseAnd(field));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(field: T_QueryField | undefined): T_QueryNode {
+    const children = [this.parseNot(field)];
+    let next = this.peek();
+    while (next && next.type !== 'or' && next.type !== 'close') {
+      if (next.type === 'and') this.position++;
+      children.push(this.parseNot(field));
+      next = this.peek();
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(field: T_QueryField | undefined): T_QueryNode {
+    if (this.peek()?.type === 'not') {
+      this.position++;
+      return { type: 'not', child: this.parseNot(field) };
+    }
+    return this.parsePrimary(field);
+  }
+
+  private parsePrimary(field: T_QueryField | undefined): T_QueryNode {
+    const token = this.peek();
+    if (!token) {
+      const previous = this.tokens[this.position - 1];
+      throw new FilterQuerySyntaxError(
+        previous ? `Expected a term after "${previous.value}"` : 'Expected a term',
+        previous?.start ?? 0,
+        previous?.end ?? this.queryLength
+      );
+    }
+    this.position++;
+
+    switch (token.type) {
+      case 'open': {
+        const node = this.parseOr(field);
+        if (this.peek()?.type !== 'close') {
+          throw new FilterQuerySyntaxError('Missing closing parenthesis', token.start, token.end);
+        }
+        this.position++;
+        return node;
+      }
+      case 'field': {
+        const name = token.value.toLowerCase();
+        const namedField = FIELD_NAMES[name];
+        if (!namedField) {
+          throw new FilterQuerySyntaxError(
+            `Unknown field "${token.value}", use one of ${Object.keys(FIELD_NAMES).join(', ')}`,
+            token.start,
+            token.end
+          );
+        }
+        return this.parseNot(namedField);
+      }
+      case 'word':
+      case 'quoted':
+        return parseValue(token, field);
+      default:
+        throw new FilterQuerySyntaxError(`Expected a term before "${token.value}"`, token.start, token.end);
+    }
+  }
+}
+
+/**
+ * Parse a query such as `skills:(React AND TypeScript) AND NOT role:intern AND salary:<120000`
+ * Operators are AND, OR and NOT in capitals, and parentheses; quotes keep phrases together.
+ * Fields: skills, role, company, edu, salary, gpa, jobs (number of work experiences),
+ * level (degree level), location and availability. Numbers take <, <=, >, >= or =.
+ * Salaries are in the reporting currency unless they name another, e.g. salary:<€100k.
+ */
+export const parseFilterQuery = (query: string): I_FilterQueryParseResult => {
+  try {
+    const tokens = tokenize(query);
+    if (tokens.length === 0) return { node: null, error: null };
+    return { node: new QueryParser(tokens, query.length).parse(), error: null };
+  } catch (error) {
+    if (error instanceof FilterQuerySyntaxError) {
+      return { node: null, error: { message: error.message, start: error.start, end: error.end } };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Name the currency of salary amounts that name none, e.g. "salary:<120k" becomes "salary:<USD120k"
+ * Bare amounts are read in the reporting currency, so this keeps a query's meaning when that changes
+ */
+export const pinQuerySalaryCurrency = (query: string, currency: string): string => {
+  let tokens: I_Token[];
+  try {
+    tokens = tokenize(query);
+  } catch {
+    return query;
+  }
+
+  // Field of each open group, as in salary:(>50k AND <90k), and the field written right before a term
+  const groupFields: (T_QueryField | undefined)[] = [];
+  let pendingField: T_QueryField | undefined;
+  const insertAt: number[] = [];
+
+  tokens.forEach(token => {
+    switch (token.type) {
+      case 'field':
+        pendingField = FIELD_NAMES[token.value.toLowerCase()];
+        return;
+      case 'open':
+        groupFields.push(pendingField ?? groupFields[groupFields.length - 1]);
+        pendingField = undefined;
+        return;
+      case 'close':
+        groupFields.pop();
+        return;
+      case 'not':
+        return;
+      case 'word':
+      case 'quoted': {
+        const field = pendingField ?? groupFields[groupFields.length - 1];
+        pendingField = undefined;
+        const money = parseMoney(token.value);
+        if (field !== 'salary' || !money || money.currency) return;
+
+        const [, operator = ''] = token.value.match(COMPARISON_PATTERN)!;
+        insertAt.push(token.start + (token.type === 'quoted' ? 1 : 0) + operator.length);
+        return;
+      }
+      default:
+        pendingField = undefined;
+    }
+  });
+
+  return insertAt.reduceRight((pinned, position) => pinned.slice(0, position) + currency + pinned.slice(position), query);
+};
+
+const compare = (actual: number | null, operator: T_CompareOperator, expected: number): boolean => {
+  if (actual === null) return false;
+  switch (operator) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return actual === expected;
+  }
+};
+
+const getNumericValue = (candidate: I_CandidateWithScore, field: T_NumericQueryField): number | null => {
+  const attributes = getCandidateAttributes(candidate);
+  switch (field) {
+    case 'salary': return attributes.salaryExpectation;
+    case 'gpa': return attributes.gpa;
+    case 'jobs': return attributes.experienceCount;
+    case 'level': return attributes.educationLevel ? EDUCATION_LEVELS.indexOf(attributes.educationLevel) : null;
+  }
+};
+
+/**
+ * Turn a parsed query into a candidate predicate
+ * Keywords match like filter keywords do; with the pool's search index they are set lookups.
+ * Candidates without a salary, GPA or degree level never match a comparison on it.
+ */
+export const createQueryPredicate = (
+  node: T_QueryNode,
+  searchIndex?: CandidateSearchIndex
+): ((candidate: I_CandidateWithScore) => boolean) => {
+  switch (node.type) {
+    case 'and': {
+      const children = node.children.map(child => createQueryPredicate(child, searchIndex));
+      return candidate => children.every(matches => matches(candidate));
+    }
+    case 'or': {
+      const children = node.children.map(child => createQueryPredicate(child, searchIndex));
+      return candidate => children.some(matches => matches(candidate));
+    }
+    case 'not': {
+      const child = createQueryPredicate(node.child, searchIndex);
+      return candidate => !child(candidate);
+    }
+    case 'keyword': {
+      const { categories, keyword } = node;
+      if (searchIndex) {
+        const matchingIds = categories.map(category => searchIndex.getMatchingCandidateIds(category, keyword));
+        return candidate => matchingIds.some(ids => ids.has(candidate.id));
+      }
+      return candidate => categories.some(category => candidateMatchesKeyword(candidate, category, keyword));
+    }
+    case 'compare': {
+      const { field, operator, value } = node;
+      return candidate => compare(getNumericValue(candidate, field), operator, value);
+    }
+    case 'location': {
+      const key = normalizeLocationKey(node.value);
+      const matchesPlace = LOCATION_NAMES.get(key);
+      if (matchesPlace) {
+        return candidate => {
+          const resolved = resolveLocation(candidate.location ?? '');
+          return !!resolved && matchesPlace(resolved);
+        };
+      }
+      return candidate => ` ${normalizeLocationKey(candidate.location ?? '')} `.includes(` ${key} `);
+    }
+    case 'availability': {
+      const { value } = node;
+      return candidate => !!candidate.work_availability?.includes(value);
+    }
+  }
+};
@@ -0,0 +1,190 @@
+import type { I_CandidateWithScore, I_FilterKeyword, I_RoleFilters, T_KeywordMatchMode, T_KeywordTier } from '../types';
+import { normalizeSkillKey, skillTaxonomy } from './skillTaxonomy';
+
+export type T_KeywordCategory = Exclude<keyof I_RoleFilters, 'ranges' | 'location' | 'query'>;
+
+// Plain strings are matched with their category's default mode
+export type T_MatchKeyword = string | I_FilterKeyword;
+
+export const KEYWORD_CATEGORIES: T_KeywordCategory[] = ['skills', 'experience', 'education'];
+
+// Text keywords can be matched against: the scored categories, and companies, which only a query asks for
+export type T_KeywordField = T_KeywordCategory | 'company';
+
+export const KEYWORD_FIELDS: T_KeywordField[] = [...KEYWORD_CATEGORIES, 'company'];
+
+// Tier given to keywords the user adds
+export const DEFAULT_KEYWORD_TIER: T_KeywordTier = 'must';
+
+// Match mode of keywords that don't set one. Whole-word matching keeps "Java" from matching "JavaScript";
+// role and degree keywords match anywhere in the text as they always have, so "Engineer" finds "Software Engineering"
+export const DEFAULT_KEYWORD_MATCH_MODES: Record<T_KeywordField, T_KeywordMatchMode> = {
+  skills: 'word',
+  experience: 'contains',
+  education: 'contains',
+  company: 'contains',
+};
+
+/**
+ * Create a keyword with the given tier
+ */
+export const createFilterKeyword = (value: string, tier: T_KeywordTier = DEFAULT_KEYWORD_TIER): I_FilterKeyword => ({
+  value: value.trim(),
+  tier,
+});
+
+/**
+ * Read keywords stored by any version of the app
+ * Roles saved before tiers existed hold plain strings; those only ever narrowed the pool
+ * when none of them matched, so they come back as nice-to-have rather than must-have
+ */
+export const normalizeFilterKeywords = (keywords: unknown): I_FilterKeyword[] => {
+  if (!Array.isArray(keywords)) return [];
+
+  return keywords.flatMap((keyword): I_FilterKeyword[] => {
+    if (typeof keyword === 'string') {
+      return keyword.trim() ? [createFilterKeyword(keyword, 'nice')] : [];
+    }
+    if (keyword && typeof keyword === 'object' && typeof keyword.value === 'string') {
+      const tier: T_KeywordTier = ['must', 'nice', 'exclude'].includes(keyword.tier) ? keyword.tier : DEFAULT_KEYWORD_TIER;
+      const matchMode: T_KeywordMatchMode | undefined = ['contains', 'word', 'exact'].includes(keyword.matchMode) ? keyword.matchMode : undefined;
+      return [{ value: keyword.value, tier, ...(matchMode && { matchMode }) }];
+    }
+    return [];
+  });
+};
+
+/**
+ * Match mode of a keyword, falling back to its category's default
+ */
+export const getKeywordMatchMode = (category: T_KeywordField, keyword: T_MatchKeyword): T_KeywordMatchMode => {
+  return (typeof keyword === 'string' ? undefined : keyword.matchMode) ?? DEFAULT_KEYWORD_MATCH_MODES[category];
+};
+
+/**
+ * Text a keyword is matched against for each category
+ * Experience keywords are about the role, so companies are only matched when asked for
+ */
+export const getCandidateFields = (candidate: I_CandidateWithScore, category: T_KeywordField): string[] => {
+  switch (category) {
+    case 'skills':
+      return candidate.skills ?? [];
+    case 'experience':
+      return (candidate.work_experiences ?? []).map(exp => exp.roleName);
+    case 'company':
+      return (candidate.work_experiences ?? []).map(exp => exp.company);
+    case 'education':
+      return (candidate.education?.degrees ?? []).flatMap(degree => [degree.degree, degree.subject]);
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word patterns by keyword; the same few keywords are tested against every candidate
+const wordPatterns = new Map<string, RegExp>();
+
+const getWordPattern = (normalizedKeyword: string): RegExp => {
+  let pattern = wordPatterns.get(normalizedKeyword);
+  if (!pattern) {
+    pattern = new RegExp(`(^|[^a-z0-9])${escapeRegExp(normalizedKeyword)}($|[^a-z0-9])`);
+    wordPatterns.set(normalizedKeyword, pattern);
+  }
+  return pattern;
+};
+
+/**
+ * Plain text comparison for one field
+ */
+const textMatches = (field: string, keyword: string, matchMode: T_KeywordMatchMode): boolean => {
+  const normalizedField = field.trim().toLowerCase();
+  const normalizedKeyword = keyword.trim().toLowerCase();
+  if (!normalizedKeyword) return false;
+
+  switch (matchMode) {
+    case 'contains':
+      return normalizedField.includes(normalizedKeyword);
+    case 'word':
+      return getWordPattern(normalizedKeyword).test(normalizedField);
+    case 'exact':
+      return normalizedField === normalizedKeyword;
+  }
+};
+
+/**
+ * Compare a skill with a keyword, using the skill taxonomy when both are known to it
+ * Known but unrelated skills only fall back to text matching in "contains" mode
+ */
+const skillMatches = (skill: string, keyword: string, matchMode: T_KeywordMatchMode): boolean => {
+  const keywordKey = skillTaxonomy.resolve(keyword);
+  const skillKey = skillTaxonomy.resolve(skill);
+
+  if (keywordKey && skillKey) {
+    if (skillKey === keywordKey) return true;
+    if (matchMode !== 'exact' && skillTaxonomy.isDescendantOf(skillKey, keywordKey)) return true;
+    return matchMode === 'contains' && textMatches(skill, keyword, matchMode);
+  }
+
+  // Unknown skills: ignore punctuation and spacing differences for exact matches
+  if (matchMode === 'exact') {
+    return normalizeSkillKey(skill) === normalizeSkillKey(keyword);
+  }
+  return textMatches(skill, keyword, matchMode);
+};
+
+/**
+ * Build the predicate that tests one candidate field against a keyword
+ * The result only depends on the field text, so it can be evaluated once per distinct value
+ */
+export const createFieldMatcher = (category: T_KeywordField, keyword: T_MatchKeyword) => {
+  const value = typeof keyword === 'string' ? keyword : keyword.value;
+  const matchMode = getKeywordMatchMode(category, keyword);
+
+  return category === 'skills'
+    ? (skill: string) => skillMatches(skill, value, matchMode)
+    : (field: string) => textMatches(field, value, matchMode);
+};
+
+/**
+ * Check whether a candidate matches a keyword in the given category
+ * Shared by the candidate filter and the scorer so both agree on what a match is
+ */
+export const candidateMatchesKeyword = (
+  candidate: I_CandidateWithScore,
+  category: T_KeywordField,
+  keyword: T_MatchKeyword
+): boolean => {
+  return getCandidateFields(candidate, category).some(createFieldMatcher(category, keyword));
+};
+
+/**
+ * The candidate's skills, roles, companies or degrees/subjects that match a keyword
+ * Used to explain a score; the filter only needs candidateMatchesKeyword
+ */
+export const getMatchingFields = (
+  candidate: I_CandidateWithScore,
+  category: T_KeywordField,
+  keyword: T_MatchKeyword
+): string[] => {
+  return getCandidateFields(candidate, category).filter(createFieldMatcher(category, keyword));
+};
+
+/**
+ * Keywords that count towards the score (must-have and nice-to-have)
+ */
+export const getScoringKeywords = (keywords: I_FilterKeyword[]): I_FilterKeyword[] => {
+  return keywords.filter(keyword => keyword.tier !== 'exclude');
+};
+
+/**
+ * Check a candidate against the hard filters: every must-have keyword matches
+ * and no excluded keyword does
+ */
+export const passesKeywordFilters = (candidate: I_CandidateWithScore, filters: I_RoleFilters): boolean => {
+  return KEYWORD_CATEGORIES.every(category =>
+    filters[category].every(keyword => {
+      if (keyword.tier === 'must') return candidateMatchesKeyword(candidate, category, keyword);
+      if (keyword.tier === 'exclude') return !candidateMatchesKeyword(candidate, category, keyword);
+      return true;
+    })
+  );
+};
@@ -0,0 +1,144 @@
+import type { I_CandidateWithScore, I_RoleFilters } from '../types';
+import { createFilterKeyword, type T_KeywordCategory } from './keywordMatching';
+import { getCandidateSearchIndex } from './candidateSearchIndex';
+import { createRoleFilterPredicate } from './candidatePipeline';
+
+/**
+ * Value from the candidate pool that could be added as a keyword
+ */
+export interface I_KeywordSuggestion {
+  value: string;
+  count: number; // Candidates that would still pass every filter with this keyword added as must-have
+}
+
+interface I_VocabularyEntry {
+  value: string; // Most common spelling in the pool
+  normalizedValue: string;
+  poolCount: number; // Candidates having it, before any filter
+}
+
+// Suggestions counted per query; only the best of them are shown
+const MAX_COUNTED_SUGGESTIONS = 30;
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+const normalizeValue = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Pool values suggested for each category: skills, role names and degree subjects
+ * Companies and degree names are matched by keywords too, but make poor suggestions
+ */
+const getSuggestionValues = (candidate: I_CandidateWithScore, category: T_KeywordCategory): string[] => {
+  switch (category) {
+    case 'skills':
+      return candidate.skills ?? [];
+    case 'experience':
+      return (candidate.work_experiences ?? []).map(exp => exp.roleName);
+    case 'education':
+      return (candidate.education?.degrees ?? []).map(degree => degree.subject);
+  }
+};
+
+const vocabulariesByPool = new WeakMap<I_CandidateWithScore[], Map<T_KeywordCategory, I_VocabularyEntry[]>>();
+
+/**
+ * Distinct values of a category in the pool, most common first
+ * Spellings differing only in case are merged under the most common one
+ */
+export const getKeywordVocabulary = (candidates: I_CandidateWithScore[], category: T_KeywordCategory): I_VocabularyEntry[] => {
+  let vocabularies = vocabulariesByPool.get(candidates);
+  if (!vocabularies) {
+    vocabularies = new Map();
+    vocabulariesByPool.set(candidates, vocabularies);
+  }
+  const cached = vocabularies.get(category);
+  if (cached) return cached;
+
+  const spellings = new Map<string, Map<string, number>>();
+  candidates.forEach(candidate => {
+    const seen = new Set<string>();
+    getSuggestionValues(candidate, category).forEach(value => {
+      const normalizedValue = normalizeValue(value);
+      if (!normalizedValue || seen.has(normalizedValue)) return;
+      seen.add(normalizedValue);
+
+      const counts = spellings.get(normalizedValue) ?? new Map<string, number>();
+      counts.set(value.trim(), (counts.get(value.trim()) ?? 0) + 1);
+      spellings.set(normalizedValue, counts);
+    });
+  });
+
+  const vocabulary = [...spellings].map(([normalizedValue, counts]) => {
+    const [value] = [...counts].reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+    const poolCount = [...counts.values()].reduce((sum, count) => sum + count, 0);
+    return { value, normalizedValue, poolCount };
+  });
+  vocabulary.sort((a, b) => b.poolCount - a.poolCount || a.value.localeCompare(b.value));
+  vocabularies.set(category, vocabulary);
+  return vocabulary;
+};
+
+// Filters are replaced, not mutated, on every change, so their object identity keys the cache
+const passingIdsByFilters = new WeakMap<I_RoleFilters, { candidates: I_CandidateWithScore[]; ids: Set<string> }>();
+
+/**
+ * IDs of the candidates passing a role's filters
+ */
+const getPassingCandidateIds = (candidates: I_CandidateWithScore[], roleFilters: I_RoleFilters): Set<string> => {
+  const cached = passingIdsByFilters.get(roleFilters);
+  if (cached?.candidates === candidates) return cached.ids;
+
+  const ids = new Set(candidates.filter(createRoleFilterPredicate(candidates, roleFilters)).map(candidate => candidate.id));
+  passingIdsByFilters.set(roleFilters, { candidates, ids });
+  return ids;
+};
+
+/**
+ * How well a value matches what was typed: 0 starts with it, 1 has a word starting with it, 2 contains it
+ */
+const getTextRank = (normalizedValue: string, query: string): number | null => {
+  if (normalizedValue.startsWith(query)) return 0;
+  const position = normalizedValue.indexOf(query);
+  if (position < 0) return null;
+  return /[^a-z0-9]/.test(normalizedValue[position - 1]) ? 1 : 2;
+};
+
+/**
+ * Pool values of a category matching what was typed, with the number of candidates each would leave
+ * Values already used as keywords in the category are left out. Suggestions starting with the query
+ * come first, then by how many candidates they leave, so values matching nobody sink to the bottom.
+ */
+export const getKeywordSuggestions = (
+  candidates: I_CandidateWithScore[],
+  roleFilters: I_RoleFilters,
+  category: T_KeywordCategory,
+  query: string,
+  limit: number = DEFAULT_SUGGESTION_LIMIT
+): I_KeywordSuggestion[] => {
+  const normalizedQuery = normalizeValue(query);
+  if (!normalizedQuery || candidates.length === 0) return [];
+
+  const usedValues = new Set(roleFilters[category].map(keyword => normalizeValue(keyword.value)));
+  const ranked: { entry: I_VocabularyEntry; rank: number }[] = [];
+  for (const entry of getKeywordVocabulary(candidates, category)) {
+    if (usedValues.has(entry.normalizedValue)) continue;
+    const rank = getTextRank(entry.normalizedValue, normalizedQuery);
+    if (rank !== null) ranked.push({ entry, rank });
+  }
+  // The vocabulary is sorted by pool count, and the sort is stable, so each rank keeps the most common first
+  ranked.sort((a, b) => a.rank - b.rank);
+
+  const index = getCandidateSearchIndex(candidates);
+  const passingIds = getPassingCandidateIds(candidates, roleFilters);
+  return ranked
+    .slice(0, MAX_COUNTED_SUGGESTIONS)
+    .map(({ entry, rank }) => {
+      let count = 0;
+      index.getMatchingCandidateIds(category, createFilterKeyword(entry.value)).forEach(id => {
+        if (passingIds.has(id)) count++;
+      });
+      return { value: entry.value, count, rank };
+    })
+    .sort((a, b) => Math.min(a.rank, 1) - Math.min(b.rank, 1) || b.count - a.count)
+    .slice(0, limit)
+    .map(({ value, count }) => ({ value, count }));
+};
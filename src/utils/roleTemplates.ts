@@ -0,0 +1,181 @@
+import bundledTemplates from '../../resources/roleTemplates.json';
+import type { I_RoleFilters, I_RoleTemplate, I_ScoringProfile, I_TeamRole } from '../types';
+import { normalizeFilterKeywords } from './keywordMatching';
+import { convertSalaryRanges, normalizeRangeFilters } from './candidateAttributes';
+import { pinQuerySalaryCurrency } from './filterQuery';
+import { normalizeLocationFilters } from './candidateLocation';
+import { getScoringProfileKey } from './scoringProfiles';
+import { getRoleFilters, roleFiltersToRequirements } from './teamRoles';
+
+type T_TemplateScoring = NonNullable<I_RoleTemplate['scoring']>;
+
+/**
+ * Templates read from an imported file
+ */
+export interface I_RoleTemplateImport {
+  templates: I_RoleTemplate[];
+  skippedCount: number; // Entries without a name, which cannot be templates
+}
+
+/**
+ * Generate unique ID for a role template
+ */
+const generateRoleTemplateId = (): string => {
+  return `template-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const readFilters = (value: unknown): I_RoleFilters => {
+  const stored = isRecord(value) ? value : {};
+  return {
+    skills: normalizeFilterKeywords(stored.skills),
+    experience: normalizeFilterKeywords(stored.experience),
+    education: normalizeFilterKeywords(stored.education),
+    ranges: normalizeRangeFilters(stored.ranges),
+    location: normalizeLocationFilters(stored.location),
+    query: typeof stored.query === 'string' ? stored.query.trim() : '',
+  };
+};
+
+const readWeight = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : null;
+
+/**
+ * Scoring weights of a template, or undefined when any of them is missing or invalid
+ */
+const readScoring = (value: unknown): T_TemplateScoring | undefined => {
+  if (!isRecord(value) || !isRecord(value.weights) || !isRecord(value.prestigeEducationWeights)) return undefined;
+
+  const [skills, experience, education, top50, top25] = [
+    value.weights.skills,
+    value.weights.experience,
+    value.weights.education,
+    value.prestigeEducationWeights.top50,
+    value.prestigeEducationWeights.top25,
+  ].map(readWeight);
+  if (skills === null || experience === null || education === null || top50 === null || top25 === null) return undefined;
+
+  return { weights: { skills, experience, education }, prestigeEducationWeights: { top50, top25 } };
+};
+
+/**
+ * Read a template saved or exported by any version of the app
+ * Returns null for entries without a name; invalid filters and weights are dropped
+ */
+export const normalizeRoleTemplate = (value: unknown): I_RoleTemplate | null => {
+  if (!isRecord(value) || typeof value.name !== 'string' || !value.name.trim()) return null;
+
+  const name = value.name.trim();
+  const scoring = readScoring(value.scoring);
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : generateRoleTemplateId(),
+    name,
+    title: typeof value.title === 'string' && value.title.trim() ? value.title.trim() : name,
+    filters: readFilters(value.filters),
+    ...(scoring && { scoring }),
+  };
+};
+
+export const STARTER_ROLE_TEMPLATES: I_RoleTemplate[] = bundledTemplates
+  .map(normalizeRoleTemplate)
+  .filter((template): template is I_RoleTemplate => template !== null);
+
+/**
+ * Capture a role's title, filters and scoring weights as a named template
+ */
+export const createRoleTemplate = (name: string, role: I_TeamRole, profile?: I_ScoringProfile): I_RoleTemplate => ({
+  id: generateRoleTemplateId(),
+  name: name.trim(),
+  title: role.title,
+  filters: getRoleFilters(role),
+  ...(profile && {
+    scoring: { weights: { ...profile.weights }, prestigeEducationWeights: { ...profile.prestigeEducationWeights } },
+  }),
+});
+
+/**
+ * Add templates to a library; a template named like an existing one (ignoring case) replaces it in place
+ */
+export const mergeRoleTemplates = (library: I_RoleTemplate[], templates: I_RoleTemplate[]): I_RoleTemplate[] => {
+  const merged = [...library];
+  templates.forEach(template => {
+    const key = template.name.toLowerCase();
+    const index = merged.findIndex(existing => existing.name.toLowerCase() === key);
+    if (index >= 0) {
+      merged[index] = { ...template, id: merged[index].id };
+    } else {
+      // Imported IDs may clash with templates that were renamed since they were exported
+      merged.push(merged.some(existing => existing.id === template.id) ? { ...template, id: generateRoleTemplateId() } : template);
+    }
+  });
+  return merged;
+};
+
+/**
+ * Profile scoring with the same weights as a template, so applying templates doesn't pile up copies
+ */
+export const findMatchingScoringProfile = (
+  profiles: I_ScoringProfile[],
+  scoring: T_TemplateScoring
+): I_ScoringProfile | undefined => {
+  const key = getScoringProfileKey(scoring);
+  return profiles.find(profile => getScoringProfileKey(profile) === key);
+};
+
+/**
+ * Role fields set by applying a template
+ * The candidate, lock and budget of the role are left alone
+ */
+export const getRoleTemplateUpdates = (
+  template: I_RoleTemplate,
+  scoringProfileId?: string
+): Partial<Omit<I_TeamRole, 'id'>> => ({
+  title: template.title,
+  ...roleFiltersToRequirements(template.filters),
+  ...(scoringProfileId && { scoringProfileId }),
+});
+
+/**
+ * A template's salary filters moved from one reporting currency to another, like convertTeamCurrency does for teams
+ */
+export const convertRoleTemplateCurrency = (template: I_RoleTemplate, from: string, to: string): I_RoleTemplate => ({
+  ...template,
+  filters: {
+    ...template.filters,
+    ranges: template.filters.ranges && convertSalaryRanges(template.filters.ranges, from, to),
+    query: template.filters.query && pinQuerySalaryCurrency(template.filters.query, from),
+  },
+});
+
+/**
+ * Serialize templates for download; the file can be imported again with parseRoleTemplatesJson
+ */
+export const exportRoleTemplatesJson = (templates: I_RoleTemplate[]): string => {
+  return JSON.stringify({ templates }, null, 2);
+};
+
+/**
+ * Read templates from an exported file
+ * Throws an Error when the file isn't JSON or holds no templates
+ */
+export const parseRoleTemplatesJson = (text: string): I_RoleTemplateImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : 'could not parse file'}`);
+  }
+
+  // Accept either a bare array, a single template or an export wrapped as { templates: [...] }
+  const list = Array.isArray(parsed)
+    ? parsed
+    : isRecord(parsed) && Array.isArray(parsed.templates) ? parsed.templates : [parsed];
+
+  const templates = list.map(normalizeRoleTemplate).filter((template): template is I_RoleTemplate => template !== null);
+  if (templates.length === 0) {
+    throw new Error('No role templates found: each template needs at least a name');
+  }
+  return { templates, skippedCount: list.length - templates.length };
+};
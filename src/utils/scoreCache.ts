@@ -0,0 +1,64 @@
+import type { I_CandidateWithScore, I_RoleFilters, I_ScoringProfile } from '../types';
+import { getScoringProfileKey } from './scoringProfiles';
+import { skillTaxonomy } from './skillTaxonomy';
+
+export const SCORE_CACHE_EXPIRATION_MS = 5 * 60 * 1000; // 5 minutes
+const MAX_CACHED_CONTEXTS = 20;
+
+interface I_ScoreCacheContext {
+  scores: Map<string, I_CandidateWithScore>;
+  createdAt: number;
+}
+
+/**
+ * Key for everything a score depends on besides the candidate itself
+ * A candidate's score is only valid for the filters, scoring profile and skill taxonomy used to generate it
+ */
+export const getScoreContextKey = (filters: I_RoleFilters, scoringProfile: I_ScoringProfile): string => {
+  return `${JSON.stringify(filters)}::${getScoringProfileKey(scoringProfile)}::${skillTaxonomy.getVersion()}`;
+};
+
+/**
+ * Scored candidates grouped by scoring context
+ * Contexts expire after a fixed time and the least recently used ones are dropped first,
+ * so flipping between a few roles stays cached without the cache growing for the whole session
+ */
+export class ScoreCache {
+  private contexts = new Map<string, I_ScoreCacheContext>();
+  private expirationMs: number;
+  private maxContexts: number;
+
+  constructor(expirationMs: number = SCORE_CACHE_EXPIRATION_MS, maxContexts: number = MAX_CACHED_CONTEXTS) {
+    this.expirationMs = expirationMs;
+    this.maxContexts = maxContexts;
+  }
+
+  /**
+   * Scores cached for a context, keyed by candidate ID
+   * The returned map is live: scores added to it are cached
+   */
+  getScores(contextKey: string, now: number = Date.now()): Map<string, I_CandidateWithScore> {
+    let context = this.contexts.get(contextKey);
+    if (!context || now - context.createdAt >= this.expirationMs) {
+      context = { scores: new Map(), createdAt: now };
+    }
+
+    // Re-insert so Map order tracks recency of use
+    this.contexts.delete(contextKey);
+    this.contexts.set(contextKey, context);
+    while (this.contexts.size > this.maxContexts) {
+      const oldestKey = this.contexts.keys().next().value as string;
+      this.contexts.delete(oldestKey);
+    }
+
+    return context.scores;
+  }
+
+  clear(): void {
+    this.contexts.clear();
+  }
+
+  get size(): number {
+    return this.contexts.size;
+  }
+}
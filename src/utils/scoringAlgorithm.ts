@@ -1,100 +1,172 @@
-import type { I_CandidateWithScore } from '../types/Candidate';
+import type {
+  I_CandidateWithScore,
+  I_CategoryScoreExplanation,
+  I_LocationFilters,
+  I_ScoreExplanation,
+  I_ScoringProfile,
+  T_EducationTier,
+} from '../types/Candidate';
+import { DEFAULT_SCORING_PROFILES, PREFERENCE_BONUS_POINTS } from '../constants';
+import { getMatchingFields, type T_KeywordCategory, type T_MatchKeyword } from './keywordMatching';
+import { getPreferenceMatches } from './candidateLocation';
+import type { CandidateSearchIndex } from './candidateSearchIndex';
+
+const roundScore = (value: number): number => Math.round(value * 10) / 10;
+const roundWeight = (value: number): number => Math.round(value * 1000) / 1000;
+
+/**
+ * Matched and missed keywords for one category, with the candidate text that matched
+ * The whole explanation is built in one object literal; spreading partial results was a hot spot
+ */
+const explainCategory = (
+  candidate: I_CandidateWithScore,
+  category: T_KeywordCategory,
+  keywords: T_MatchKeyword[],
+  baseWeight: number,
+  effectiveWeight: number,
+  searchIndex?: CandidateSearchIndex
+): I_CategoryScoreExplanation => {
+  const matchedKeywords: string[] = [];
+  const missedKeywords: string[] = [];
+  const matchedValues: string[] = [];
+
+  keywords.forEach(keyword => {
+    const value = typeof keyword === 'string' ? keyword : keyword.value;
+    const matchingFields = searchIndex
+      ? searchIndex.getMatchingFields(candidate, category, keyword)
+      : getMatchingFields(candidate, category, keyword);
+    if (matchingFields.length === 0) {
+      missedKeywords.push(value);
+      return;
+    }
+    matchedKeywords.push(value);
+    matchingFields.forEach(field => {
+      if (!matchedValues.includes(field)) matchedValues.push(field);
+    });
+  });
+
+  const matchPercentage = keywords.length > 0 ? (matchedKeywords.length / keywords.length) * 100 : 0;
+  return {
+    active: keywords.length > 0,
+    matchedKeywords,
+    missedKeywords,
+    matchedValues,
+    matchPercentage,
+    baseWeight,
+    effectiveWeight: roundWeight(effectiveWeight),
+    points: roundScore(matchPercentage * effectiveWeight),
+  };
+};
 
 /**
  * Advanced keyword-based scoring with dynamic weight redistribution.
  * - Weights of unused filters are proportionally redistributed to active filters.
  * - If no keywords are provided for a category, it contributes 0 to the score.
  * - A score of 0 is given if no keywords are provided at all.
+ * - Keywords are the ones that count towards the score (must-have and nice-to-have);
+ *   excluded keywords are applied by the candidate filter, not here.
+ * - Each preferred location or availability the candidate meets adds bonus points, up to a score of 100.
  *
  * @param candidates - Array of candidates to score
  * @param skillKeywords - Array of skill keywords to match against
  * @param experienceKeywords - Array of experience/role keywords to match against
  * @param educationKeywords - Array of education keywords to match against
- * @returns Array of candidates with calculated scores, sorted by score descending
+ * @param scoringProfile - Category weights and prestige education weights to score with
+ * @param searchIndex - Index of the pool the candidates come from, to look matches up instead of scanning fields
+ * @param locationFilters - Location and availability of the role; only preferred (not required) ones add points
+ * @returns Array of candidates with calculated scores and a scoreExplanation breakdown
  */
 export const calculateCandidateScores = (
   candidates: I_CandidateWithScore[],
-  skillKeywords: string[],
-  experienceKeywords: string[],
-  educationKeywords: string[] = []
+  skillKeywords: T_MatchKeyword[],
+  experienceKeywords: T_MatchKeyword[],
+  educationKeywords: T_MatchKeyword[] = [],
+  scoringProfile: I_ScoringProfile = DEFAULT_SCORING_PROFILES[0],
+  searchIndex?: CandidateSearchIndex,
+  locationFilters?: I_LocationFilters
 ): I_CandidateWithScore[] => {
   if (candidates.length === 0) {
     return [];
   }
 
+  // Negative weights would flip scores, so treat them as 0
+  const skillsWeight = Math.max(0, scoringProfile.weights.skills);
+  const experienceWeight = Math.max(0, scoringProfile.weights.experience);
+
   // Determine which filters are active based on keyword presence
   const isSkillsActive = skillKeywords.length > 0;
   const isExperienceActive = experienceKeywords.length > 0;
   const isEducationActive = educationKeywords.length > 0;
 
   const scored = candidates.map(candidate => {
-    // Step 1: Calculate match percentages for each category (or 0 if inactive)
-    const skillMatchPercentage = isSkillsActive
-      ? (skillKeywords.filter(keyword =>
-          candidate.skills.some(skill =>
-            skill.toLowerCase().includes(keyword.toLowerCase())
-          )
-        ).length / skillKeywords.length) * 100
-      : 0;
-
-    const experienceMatchPercentage = isExperienceActive
-      ? (experienceKeywords.filter(keyword =>
-          candidate.work_experiences.some(exp =>
-            exp.roleName.toLowerCase().includes(keyword.toLowerCase())
-          )
-        ).length / experienceKeywords.length) * 100
-      : 0;
-        
-    const educationMatchPercentage = isEducationActive
-      ? (educationKeywords.filter(keyword =>
-          candidate.education.degrees.some(degree =>
-            degree.degree.toLowerCase().includes(keyword.toLowerCase()) ||
-            degree.subject.toLowerCase().includes(keyword.toLowerCase())
-          )
-        ).length / educationKeywords.length) * 100
-      : 0;
-
-    // Step 2: Determine dynamic education weight and total active weight for this candidate
+    // Step 1: Determine dynamic education weight and total active weight for this candidate
     const hasTop25 = candidate.education.degrees.some(degree => degree.isTop25);
     const hasTop50 = candidate.education.degrees.some(degree => degree.isTop50);
+    const standardEducationWeight = Math.max(0, scoringProfile.weights.education);
     
+    let educationTier: T_EducationTier;
     let baseEducationWeight;
     if (hasTop25) {
-      baseEducationWeight = 0.2; // 20%
+      educationTier = 'top25';
+      baseEducationWeight = scoringProfile.prestigeEducationWeights.top25;
     } else if (hasTop50) {
-      baseEducationWeight = 0.15; // 15%
+      educationTier = 'top50';
+      baseEducationWeight = scoringProfile.prestigeEducationWeights.top50;
     } else {
-      baseEducationWeight = 0.1; // 10%
+      educationTier = 'standard';
+      baseEducationWeight = standardEducationWeight;
     }
+    baseEducationWeight = Math.max(0, baseEducationWeight);
 
     let totalActiveWeight = 0;
-    if (isSkillsActive) totalActiveWeight += 0.5;
-    if (isExperienceActive) totalActiveWeight += 0.3;
+    if (isSkillsActive) totalActiveWeight += skillsWeight;
+    if (isExperienceActive) totalActiveWeight += experienceWeight;
     if (isEducationActive) totalActiveWeight += baseEducationWeight;
 
-    // Step 3: Calculate final score using normalized weights
-    let totalScore = 0;
-    if (totalActiveWeight > 0) {
-      if (isSkillsActive) {
-        totalScore += skillMatchPercentage * (0.5 / totalActiveWeight);
-      }
-      if (isExperienceActive) {
-        totalScore += experienceMatchPercentage * (0.3 / totalActiveWeight);
-      }
-      if (isEducationActive) {
-        totalScore += educationMatchPercentage * (baseEducationWeight / totalActiveWeight);
-      }
-    }
-    // If totalActiveWeight is 0, score remains 0, which is correct.
+    // Step 2: Normalize the weights of active categories
+    // If totalActiveWeight is 0, every effective weight and the score stay 0, which is correct.
+    const getEffectiveWeight = (isActive: boolean, weight: number) =>
+      isActive && totalActiveWeight > 0 ? weight / totalActiveWeight : 0;
+    const skillsEffectiveWeight = getEffectiveWeight(isSkillsActive, skillsWeight);
+    const experienceEffectiveWeight = getEffectiveWeight(isExperienceActive, experienceWeight);
+    const educationEffectiveWeight = getEffectiveWeight(isEducationActive, baseEducationWeight);
+
+    // Step 3: Match keywords in each category (match percentage is 0 if inactive) and calculate the final score
+    const skills = explainCategory(candidate, 'skills', skillKeywords, skillsWeight, skillsEffectiveWeight, searchIndex);
+    const experience = explainCategory(candidate, 'experience', experienceKeywords, experienceWeight, experienceEffectiveWeight, searchIndex);
+    const education = explainCategory(candidate, 'education', educationKeywords, baseEducationWeight, educationEffectiveWeight, searchIndex);
+    const keywordScore = skills.matchPercentage * skillsEffectiveWeight
+      + experience.matchPercentage * experienceEffectiveWeight
+      + education.matchPercentage * educationEffectiveWeight;
+
+    // Step 4: Add bonus points for met location and availability preferences
+    const preferenceMatches = getPreferenceMatches(candidate, locationFilters);
+    const preferencePoints = preferenceMatches
+      ? Math.min(preferenceMatches.matched.length * PREFERENCE_BONUS_POINTS, 100 - keywordScore)
+      : 0;
+    const totalScore = keywordScore + preferencePoints;
+
+    const scoreExplanation: I_ScoreExplanation = {
+      scoringProfileName: scoringProfile.name,
+      skills,
+      experience,
+      education,
+      educationTier,
+      educationTierBonus: educationTier === 'standard' ? 0 : roundWeight(baseEducationWeight - standardEducationWeight),
+      preferences: preferenceMatches
+        ? { matched: preferenceMatches.matched, missed: preferenceMatches.missed, points: roundScore(preferencePoints) }
+        : undefined,
+    };
 
     return {
       ...candidate,
-      score: Math.round(totalScore * 10) / 10,
-      skillScore: Math.round(totalScore * 10) / 10, // Alias for compatibility
-      skillMatchPercentage: Math.round(skillMatchPercentage * 10) / 10,
-      experienceMatchPercentage: Math.round(experienceMatchPercentage * 10) / 10,
-      educationMatchPercentage: Math.round(educationMatchPercentage * 10) / 10,
+      score: roundScore(totalScore),
+      skillScore: roundScore(totalScore), // Alias for compatibility
+      skillMatchPercentage: roundScore(skills.matchPercentage),
+      experienceMatchPercentage: roundScore(experience.matchPercentage),
+      educationMatchPercentage: roundScore(education.matchPercentage),
       educationWeight: isEducationActive ? baseEducationWeight : 0, // Show the weight only if used
+      scoreExplanation,
     };
   });
 
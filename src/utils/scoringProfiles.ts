@@ -0,0 +1,45 @@
+import type { I_ScoringProfile } from '../types';
+import { DEFAULT_SCORING_PROFILE_ID, DEFAULT_SCORING_PROFILES } from '../constants';
+
+/**
+ * Generate unique ID for a scoring profile
+ */
+const generateScoringProfileId = (): string => {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Create a new profile, copying the weights of an existing one
+ */
+export const createScoringProfile = (
+  name: string,
+  base: Pick<I_ScoringProfile, 'weights' | 'prestigeEducationWeights'> = DEFAULT_SCORING_PROFILES[0]
+): I_ScoringProfile => ({
+  id: generateScoringProfileId(),
+  name,
+  weights: { ...base.weights },
+  prestigeEducationWeights: { ...base.prestigeEducationWeights },
+});
+
+/**
+ * Find a profile by ID, falling back to the default profile when it is missing or was deleted
+ */
+export const getScoringProfile = (profiles: I_ScoringProfile[], profileId?: string): I_ScoringProfile => {
+  return profiles.find(profile => profile.id === profileId)
+    ?? profiles.find(profile => profile.id === DEFAULT_SCORING_PROFILE_ID)
+    ?? DEFAULT_SCORING_PROFILES[0];
+};
+
+/**
+ * Key describing a profile's weights, so cached scores change whenever the weights do
+ */
+export const getScoringProfileKey = (profile: Pick<I_ScoringProfile, 'weights' | 'prestigeEducationWeights'>): string => {
+  const { weights, prestigeEducationWeights } = profile;
+  return [
+    weights.skills,
+    weights.experience,
+    weights.education,
+    prestigeEducationWeights.top50,
+    prestigeEducationWeights.top25,
+  ].join(',');
+};
@@ -0,0 +1,158 @@
+import type { I_CandidateWithScore, I_FilterKeyword, I_Team } from '../types';
+import { candidateMatchesKeyword, getScoringKeywords } from './keywordMatching';
+import { getCandidateSearchIndex } from './candidateSearchIndex';
+import { skillTaxonomy } from './skillTaxonomy';
+
+/**
+ * How many team members have a required skill: none, exactly one, or several
+ */
+export type T_SkillCoverageStatus = 'gap' | 'single' | 'covered';
+
+/**
+ * Team member shown as a column of the coverage matrix
+ */
+export interface I_CoverageMember {
+  roleIndex: number;
+  roleTitle: string;
+  candidate: I_CandidateWithScore;
+}
+
+/**
+ * Pool candidate who has skills the team lacks or only has once
+ */
+export interface I_GapSuggestion {
+  candidate: I_CandidateWithScore;
+  closes: string[]; // At-risk skills the candidate has, the suggested one first
+}
+
+/**
+ * One required skill and the team members who have it
+ */
+export interface I_SkillCoverage {
+  key: string;
+  keyword: I_FilterKeyword; // As written on the first role requiring it
+  requiredByRoleIndexes: number[];
+  isMustHave: boolean; // A must-have keyword on at least one role
+  coveredByRoleIndexes: number[];
+  status: T_SkillCoverageStatus;
+  suggestions: I_GapSuggestion[]; // Only for gaps and single points of failure
+}
+
+/**
+ * Members × required skills matrix of a team
+ */
+export interface I_TeamSkillCoverage {
+  members: I_CoverageMember[];
+  skills: I_SkillCoverage[]; // Gaps first, then single points of failure, then covered skills
+  gapCount: number;
+  singlePointCount: number;
+}
+
+interface I_SkillCoverageOptions {
+  pool?: I_CandidateWithScore[]; // Where suggestions come from; none are made without one
+  excludedCandidateIds?: string[];
+  suggestionLimit?: number;
+}
+
+const DEFAULT_SUGGESTION_LIMIT = 3;
+
+const STATUS_ORDER: Record<T_SkillCoverageStatus, number> = { gap: 0, single: 1, covered: 2 };
+
+// Synonyms such as "ReactJS" and "React" are one skill; unknown skills compare by their text
+const getSkillKey = (value: string): string => skillTaxonomy.resolve(value) ?? value.trim().toLowerCase();
+
+const getStatus = (coverCount: number): T_SkillCoverageStatus => {
+  if (coverCount === 0) return 'gap';
+  return coverCount === 1 ? 'single' : 'covered';
+};
+
+/**
+ * Pool candidates with an at-risk skill, ranked by how many at-risk skills they have in total
+ * Gaps count double, since a missing skill is a bigger risk than one held by a single person
+ */
+const suggestCandidates = (
+  skill: I_SkillCoverage,
+  atRiskSkills: I_SkillCoverage[],
+  pool: I_CandidateWithScore[],
+  excludedIds: Set<string>,
+  limit: number
+): I_GapSuggestion[] => {
+  const searchIndex = getCandidateSearchIndex(pool);
+  const matchingIds = searchIndex.getMatchingCandidateIds('skills', skill.keyword);
+  const others = atRiskSkills.filter(other => other !== skill);
+
+  return pool
+    .filter(candidate => matchingIds.has(candidate.id) && !excludedIds.has(candidate.id))
+    .map(candidate => {
+      const alsoCloses = others.filter(other => searchIndex.getMatchingCandidateIds('skills', other.keyword).has(candidate.id));
+      const weight = [skill, ...alsoCloses].reduce((sum, closed) => sum + (closed.status === 'gap' ? 2 : 1), 0);
+      return { candidate, closes: [skill.keyword.value, ...alsoCloses.map(other => other.keyword.value)], weight };
+    })
+    .sort((a, b) => b.weight - a.weight || a.candidate.name.localeCompare(b.candidate.name))
+    .slice(0, limit)
+    .map(({ candidate, closes }) => ({ candidate, closes }));
+};
+
+/**
+ * Which team members cover each skill keyword required by the team's roles
+ * Flags skills nobody has (gaps) and skills only one member has (single points of failure),
+ * and suggests pool candidates who would close them
+ */
+export const getTeamSkillCoverage = (
+  team: I_Team | undefined,
+  { pool, excludedCandidateIds = [], suggestionLimit = DEFAULT_SUGGESTION_LIMIT }: I_SkillCoverageOptions = {}
+): I_TeamSkillCoverage => {
+  const roles = team?.roles ?? [];
+  const members = roles.flatMap((role, roleIndex): I_CoverageMember[] =>
+    role.candidate ? [{ roleIndex, roleTitle: role.title || `Role ${roleIndex + 1}`, candidate: role.candidate }] : []
+  );
+
+  // Collect each skill once, remembering every role that asks for it
+  const skillsByKey = new Map<string, I_SkillCoverage>();
+  roles.forEach((role, roleIndex) => {
+    getScoringKeywords(role.requiredSkills ?? []).forEach(keyword => {
+      const key = getSkillKey(keyword.value);
+      if (!key) return;
+
+      const skill = skillsByKey.get(key);
+      if (skill) {
+        if (!skill.requiredByRoleIndexes.includes(roleIndex)) skill.requiredByRoleIndexes.push(roleIndex);
+        skill.isMustHave ||= keyword.tier === 'must';
+        return;
+      }
+      skillsByKey.set(key, {
+        key,
+        keyword,
+        requiredByRoleIndexes: [roleIndex],
+        isMustHave: keyword.tier === 'must',
+        coveredByRoleIndexes: [],
+        status: 'gap',
+        suggestions: [],
+      });
+    });
+  });
+
+  const skills = [...skillsByKey.values()].map(skill => {
+    const coveredByRoleIndexes = members
+      .filter(member => candidateMatchesKeyword(member.candidate, 'skills', skill.keyword))
+      .map(member => member.roleIndex);
+    return { ...skill, coveredByRoleIndexes, status: getStatus(coveredByRoleIndexes.length) };
+  });
+
+  const atRiskSkills = skills.filter(skill => skill.status !== 'covered');
+  if (pool && pool.length > 0) {
+    const excludedIds = new Set([...excludedCandidateIds, ...members.map(member => member.candidate.id)]);
+    atRiskSkills.forEach(skill => {
+      skill.suggestions = suggestCandidates(skill, atRiskSkills, pool, excludedIds, suggestionLimit);
+    });
+  }
+
+  // Array.prototype.sort is stable, so skills keep role order within a status
+  skills.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]);
+  return {
+    members,
+    skills,
+    gapCount: skills.filter(skill => skill.status === 'gap').length,
+    singlePointCount: skills.filter(skill => skill.status === 'single').length,
+  };
+};
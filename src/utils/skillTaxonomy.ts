@@ -0,0 +1,114 @@
+import bundledTaxonomy from '../../resources/skillTaxonomy.json';
+
+/**
+ * Skill with the other names it goes by and the broader skills it belongs to
+ * e.g. { name: 'React', aliases: ['ReactJS'], parents: ['Frontend'] }
+ */
+export interface I_SkillTaxonomyEntry {
+  name: string;
+  aliases: string[];
+  parents: string[];
+}
+
+export const DEFAULT_SKILL_TAXONOMY: I_SkillTaxonomyEntry[] = bundledTaxonomy;
+
+/**
+ * Reduce a skill name to a lookup key so "Node JS", "Node.js" and "nodejs" compare equal
+ * "+" and "#" are kept so C, C++ and C# stay distinct
+ */
+export const normalizeSkillKey = (skill: string): string =>
+  skill
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9+#]/g, '');
+
+/**
+ * Lookup of canonical skills, their aliases and ancestors
+ * Uses singleton pattern so the scorer and filters share the user's edited taxonomy
+ */
+class SkillTaxonomy {
+  private entries: I_SkillTaxonomyEntry[] = [];
+  private canonicalKeys = new Map<string, string>();
+  private ancestors = new Map<string, Set<string>>();
+  // Raw skill names seen so far; candidates share a small vocabulary, so lookups repeat a lot
+  private resolvedNames = new Map<string, string | undefined>();
+  private version: number = 0;
+
+  constructor(entries: I_SkillTaxonomyEntry[]) {
+    this.setEntries(entries);
+  }
+
+  /**
+   * Replace the taxonomy and rebuild the lookup tables
+   */
+  setEntries(entries: I_SkillTaxonomyEntry[]): void {
+    this.entries = entries;
+    this.version++;
+    this.canonicalKeys.clear();
+    this.ancestors.clear();
+    this.resolvedNames.clear();
+
+    const parentsByKey = new Map<string, string[]>();
+    entries.forEach(entry => {
+      const key = normalizeSkillKey(entry.name);
+      if (!key) return;
+
+      // A name always maps to its own entry; aliases never override another entry's name
+      this.canonicalKeys.set(key, key);
+      parentsByKey.set(key, entry.parents.map(normalizeSkillKey).filter(Boolean));
+    });
+    entries.forEach(entry => {
+      const key = normalizeSkillKey(entry.name);
+      entry.aliases.map(normalizeSkillKey).forEach(aliasKey => {
+        if (aliasKey && !this.canonicalKeys.has(aliasKey)) {
+          this.canonicalKeys.set(aliasKey, key);
+        }
+      });
+    });
+
+    // Walk up the parent links once per skill; the visited set also guards against cycles
+    parentsByKey.forEach((_, key) => {
+      const visited = new Set<string>();
+      const stack = [...(parentsByKey.get(key) ?? [])];
+      while (stack.length > 0) {
+        const parent = this.canonicalKeys.get(stack.pop() as string);
+        if (!parent || parent === key || visited.has(parent)) continue;
+        visited.add(parent);
+        stack.push(...(parentsByKey.get(parent) ?? []));
+      }
+      this.ancestors.set(key, visited);
+    });
+  }
+
+  getEntries(): I_SkillTaxonomyEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Increases on every change, so cached scores can tell when matching rules changed
+   */
+  getVersion(): number {
+    return this.version;
+  }
+
+  /**
+   * Canonical key of a skill name or alias, or undefined when the skill is not in the taxonomy
+   */
+  resolve(skill: string): string | undefined {
+    if (!this.resolvedNames.has(skill)) {
+      this.resolvedNames.set(skill, this.canonicalKeys.get(normalizeSkillKey(skill)));
+    }
+    return this.resolvedNames.get(skill);
+  }
+
+  /**
+   * Whether one canonical skill sits below another (e.g. React below Frontend)
+   */
+  isDescendantOf(skillKey: string, ancestorKey: string): boolean {
+    return this.ancestors.get(skillKey)?.has(ancestorKey) ?? false;
+  }
+}
+
+// Export singleton taxonomy instance
+export const skillTaxonomy = new SkillTaxonomy(DEFAULT_SKILL_TAXONOMY);
@@ -1,9 +1,25 @@
-import type { I_CandidateWithScore } from '../types';
+import type { I_CandidateWithScore, I_RoleTemplate, I_ScoringProfile, I_Team, I_TeamRole, T_CandidateTableMode } from '../types';
+import { DEFAULT_CANDIDATE_TABLE_MODE } from '../constants';
+import { createTeam, resizeTeam, setTeamShortlist } from './teams';
+import type { T_DuplicateDecision } from './dedupe';
+import type { I_SkillTaxonomyEntry } from './skillTaxonomy';
+import { normalizeCurrencySettings, type I_CurrencySettings } from './currency';
 
 // Storage keys
 const STORAGE_KEYS = {
+  TEAM_IDS: 'applicant_screening_team_ids',
+  TEAM_PREFIX: 'applicant_screening_team_',
+  ACTIVE_TEAM_ID: 'applicant_screening_active_team_id',
+  DUPLICATE_DECISIONS: 'applicant_screening_duplicate_decisions',
+  SCORING_PROFILES: 'applicant_screening_scoring_profiles',
+  SKILL_TAXONOMY: 'applicant_screening_skill_taxonomy',
+  CANDIDATE_TABLE_MODE: 'applicant_screening_candidate_table_mode',
+  ROLE_TEMPLATES: 'applicant_screening_role_templates',
+  CURRENCY_SETTINGS: 'applicant_screening_currency_settings',
+  // Legacy single-team keys, only read during migration
   SHORTLISTED_TEAM: 'applicant_screening_shortlisted_team',
   TEAM_SIZE: 'applicant_screening_team_size',
+  TEAM_ROLES: 'applicant_screening_team_roles',
 } as const;
 
 /**
@@ -84,28 +100,133 @@ export const isStorageAvailable = (): boolean => {
   }
 };
 
-// Shortlisted team functions
-export const saveShortlistedTeamAsync = (team: I_CandidateWithScore[]): Promise<boolean> => {
-  return saveToStorageAsync(STORAGE_KEYS.SHORTLISTED_TEAM, team);
+// Teams functions
+// Each team is stored under its own key so saving one team never rewrites the others
+const getTeamStorageKey = (teamId: string): string => `${STORAGE_KEYS.TEAM_PREFIX}${teamId}`;
+
+export const saveTeamAsync = (team: I_Team): Promise<boolean> => {
+  return saveToStorageAsync(getTeamStorageKey(team.id), team);
+};
+
+export const saveTeamIdsAsync = (teamIds: string[]): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.TEAM_IDS, teamIds);
+};
+
+export const loadTeams = (): I_Team[] => {
+  const teamIds = loadFromStorage<string[]>(STORAGE_KEYS.TEAM_IDS, []);
+  return teamIds
+    .map(teamId => loadFromStorage<I_Team | null>(getTeamStorageKey(teamId), null))
+    .filter((team): team is I_Team => team !== null);
+};
+
+export const saveActiveTeamIdAsync = (teamId: string | null): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.ACTIVE_TEAM_ID, teamId);
+};
+
+export const loadActiveTeamId = (): string | null => {
+  return loadFromStorage<string | null>(STORAGE_KEYS.ACTIVE_TEAM_ID, null);
+};
+
+// Duplicate review functions
+export const saveDuplicateDecisionsAsync = (decisions: Record<string, T_DuplicateDecision>): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.DUPLICATE_DECISIONS, decisions);
 };
 
-export const loadShortlistedTeam = (): I_CandidateWithScore[] => {
-  return loadFromStorage<I_CandidateWithScore[]>(STORAGE_KEYS.SHORTLISTED_TEAM, []);
+export const loadDuplicateDecisions = (): Record<string, T_DuplicateDecision> => {
+  return loadFromStorage<Record<string, T_DuplicateDecision>>(STORAGE_KEYS.DUPLICATE_DECISIONS, {});
 };
 
-export const clearShortlistedTeam = (): boolean => {
-  return removeFromStorage(STORAGE_KEYS.SHORTLISTED_TEAM);
+// Scoring profile functions
+export const saveScoringProfilesAsync = (profiles: I_ScoringProfile[]): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.SCORING_PROFILES, profiles);
 };
 
-// Team size functions
-export const saveTeamSizeAsync = (size: number): Promise<boolean> => {
-  return saveToStorageAsync(STORAGE_KEYS.TEAM_SIZE, size);
+export const loadScoringProfiles = (): I_ScoringProfile[] | null => {
+  return loadFromStorage<I_ScoringProfile[] | null>(STORAGE_KEYS.SCORING_PROFILES, null);
 };
 
-export const loadTeamSize = (): number => {
-  return loadFromStorage<number>(STORAGE_KEYS.TEAM_SIZE, 0);
+export const saveSkillTaxonomyAsync = (entries: I_SkillTaxonomyEntry[]): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.SKILL_TAXONOMY, entries);
 };
 
-export const clearTeamSize = (): boolean => {
-  return removeFromStorage(STORAGE_KEYS.TEAM_SIZE);
-};
\ No newline at end of file
+/**
+ * Load the edited skill taxonomy, or null when the bundled one is in use
+ */
+export const loadSkillTaxonomy = (): I_SkillTaxonomyEntry[] | null => {
+  return loadFromStorage<I_SkillTaxonomyEntry[] | null>(STORAGE_KEYS.SKILL_TAXONOMY, null);
+};
+
+export const clearSkillTaxonomy = (): void => {
+  removeFromStorage(STORAGE_KEYS.SKILL_TAXONOMY);
+};
+
+// Candidate table functions
+export const saveCandidateTableModeAsync = (mode: T_CandidateTableMode): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.CANDIDATE_TABLE_MODE, mode);
+};
+
+export const loadCandidateTableMode = (): T_CandidateTableMode => {
+  const mode = loadFromStorage<T_CandidateTableMode>(STORAGE_KEYS.CANDIDATE_TABLE_MODE, DEFAULT_CANDIDATE_TABLE_MODE);
+  return mode === 'pages' || mode === 'scroll' ? mode : DEFAULT_CANDIDATE_TABLE_MODE;
+};
+
+// Role template functions
+export const saveRoleTemplatesAsync = (templates: I_RoleTemplate[]): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.ROLE_TEMPLATES, templates);
+};
+
+/**
+ * Load the saved template library, or null when the starter library has never been changed
+ */
+export const loadRoleTemplates = (): I_RoleTemplate[] | null => {
+  return loadFromStorage<I_RoleTemplate[] | null>(STORAGE_KEYS.ROLE_TEMPLATES, null);
+};
+
+// Currency functions
+export const saveCurrencySettingsAsync = (settings: I_CurrencySettings): Promise<boolean> => {
+  return saveToStorageAsync(STORAGE_KEYS.CURRENCY_SETTINGS, settings);
+};
+
+/**
+ * Load the edited reporting currency and exchange rates, or null when the bundled rates are in use
+ */
+export const loadCurrencySettings = (): I_CurrencySettings | null => {
+  const settings = loadFromStorage<unknown>(STORAGE_KEYS.CURRENCY_SETTINGS, null);
+  return settings ? normalizeCurrencySettings(settings) : null;
+};
+
+export const clearCurrencySettings = (): void => {
+  removeFromStorage(STORAGE_KEYS.CURRENCY_SETTINGS);
+};
+
+/**
+ * Convert the single shortlist saved by earlier versions into a saved team and make it the active one
+ * The team is written before the legacy keys are removed, so a second run or a closed tab can't lose it
+ */
+export const migrateLegacyTeam = (): I_Team | null => {
+  const legacyShortlist = loadFromStorage<I_CandidateWithScore[]>(STORAGE_KEYS.SHORTLISTED_TEAM, []);
+  const legacyTeamSize = loadFromStorage<number>(STORAGE_KEYS.TEAM_SIZE, 0);
+  const legacyRoles = loadFromStorage<I_TeamRole[]>(STORAGE_KEYS.TEAM_ROLES, []);
+
+  let team: I_Team | null = null;
+  if (legacyTeamSize > 0) {
+    const emptyTeam = resizeTeam(createTeam('My Team'), legacyTeamSize);
+    team = setTeamShortlist(
+      { ...emptyTeam, roles: emptyTeam.roles.map((role, index) => ({ ...role, ...legacyRoles[index], id: role.id })) },
+      legacyShortlist
+    );
+
+    const teamIds = loadFromStorage<string[]>(STORAGE_KEYS.TEAM_IDS, []);
+    const saved = saveToStorage(getTeamStorageKey(team.id), team)
+      && saveToStorage(STORAGE_KEYS.TEAM_IDS, [...teamIds, team.id])
+      && saveToStorage(STORAGE_KEYS.ACTIVE_TEAM_ID, team.id);
+    if (!saved) {
+      return null; // Keep the legacy keys to try again next time
+    }
+  }
+
+  removeFromStorage(STORAGE_KEYS.SHORTLISTED_TEAM);
+  removeFromStorage(STORAGE_KEYS.TEAM_SIZE);
+  removeFromStorage(STORAGE_KEYS.TEAM_ROLES);
+  return team;
+};
@@ -0,0 +1,191 @@
+import type { I_CandidateWithScore, I_RoleFilters, I_ScoringProfile, I_TeamRole } from '../types';
+import { calculateCandidateScores } from './scoringAlgorithm';
+import { getScoringKeywords, KEYWORD_CATEGORIES } from './keywordMatching';
+import { getCandidateSearchIndex } from './candidateSearchIndex';
+import { createRoleFilterPredicate } from './candidatePipeline';
+import { getRoleFilters } from './teamRoles';
+
+/**
+ * Candidate proposed for one role slot
+ */
+export interface I_AssignmentProposal {
+  roleIndex: number;
+  candidate: I_CandidateWithScore; // Scored against the role's requirements
+}
+
+/**
+ * Result of auto-filling a team
+ */
+export interface I_TeamAssignmentProposal {
+  assignments: I_AssignmentProposal[]; // Only slots whose candidate would change
+  unfilledRoleIndexes: number[]; // Open roles no eligible candidate was left for
+  skippedRoleIndexes: number[]; // Unlocked roles without scoring keywords, where any pick would be arbitrary
+  totalScore: number; // Of the whole solution, including slots that keep their candidate
+}
+
+interface I_ProposeTeamAssignmentOptions {
+  excludedCandidateIds?: string[];
+  getScoringProfile: (profileId?: string) => I_ScoringProfile;
+}
+
+// Cost of a pair that is not allowed; far above any real cost so it is only used when unavoidable
+const FORBIDDEN_COST = 1e9;
+
+/**
+ * Solve the assignment problem for a score matrix with the Hungarian algorithm
+ * Rows are roles and columns candidates; null marks a pair that is not allowed.
+ * Maximizes the number of rows filled first, then the total score.
+ *
+ * @returns The column assigned to each row, or -1 when a row could not be filled
+ */
+export const solveAssignment = (scores: (number | null)[][]): number[] => {
+  const rowCount = scores.length;
+  if (rowCount === 0) return [];
+
+  // The algorithm needs at least as many columns as rows, so pad with forbidden columns
+  const columnCount = Math.max(rowCount, ...scores.map(row => row.length));
+  const cost = (row: number, column: number): number => {
+    const score = scores[row][column];
+    return score === null || score === undefined ? FORBIDDEN_COST : -score;
+  };
+
+  // 1-indexed potentials and matching, as in the classic O(n²m) formulation
+  const rowPotential = new Array<number>(rowCount + 1).fill(0);
+  const columnPotential = new Array<number>(columnCount + 1).fill(0);
+  const columnOwner = new Array<number>(columnCount + 1).fill(0);
+  const previousColumn = new Array<number>(columnCount + 1).fill(0);
+
+  for (let row = 1; row <= rowCount; row++) {
+    columnOwner[0] = row;
+    let currentColumn = 0;
+    const minSlack = new Array<number>(columnCount + 1).fill(Infinity);
+    const visited = new Array<boolean>(columnCount + 1).fill(false);
+
+    do {
+      visited[currentColumn] = true;
+      const currentRow = columnOwner[currentColumn];
+      let delta = Infinity;
+      let nextColumn = 0;
+
+      for (let column = 1; column <= columnCount; column++) {
+        if (visited[column]) continue;
+        const slack = cost(currentRow - 1, column - 1) - rowPotential[currentRow] - columnPotential[column];
+        if (slack < minSlack[column]) {
+          minSlack[column] = slack;
+          previousColumn[column] = currentColumn;
+        }
+        if (minSlack[column] < delta) {
+          delta = minSlack[column];
+          nextColumn = column;
+        }
+      }
+
+      for (let column = 0; column <= columnCount; column++) {
+        if (visited[column]) {
+          rowPotential[columnOwner[column]] += delta;
+          columnPotential[column] -= delta;
+        } else {
+          minSlack[column] -= delta;
+        }
+      }
+      currentColumn = nextColumn;
+    } while (columnOwner[currentColumn] !== 0);
+
+    // Flip the augmenting path
+    do {
+      const column = previousColumn[currentColumn];
+      columnOwner[currentColumn] = columnOwner[column];
+      currentColumn = column;
+    } while (currentColumn !== 0);
+  }
+
+  const assignment = new Array<number>(rowCount).fill(-1);
+  for (let column = 1; column <= columnCount; column++) {
+    const row = columnOwner[column] - 1;
+    if (row >= 0 && cost(row, column - 1) < FORBIDDEN_COST) {
+      assignment[row] = column - 1;
+    }
+  }
+  return assignment;
+};
+
+/**
+ * Propose candidates for every open role so the team's total score is as high as possible
+ * Locked roles and roles without scoring keywords keep their candidate; those candidates and
+ * excluded ones are not proposed.
+ * Candidates only qualify for a role when they pass its must-have and excluded keywords
+ * and match at least one of its scoring keywords.
+ */
+export const proposeTeamAssignment = (
+  roles: I_TeamRole[],
+  candidates: I_CandidateWithScore[],
+  { excludedCandidateIds = [], getScoringProfile }: I_ProposeTeamAssignmentOptions
+): I_TeamAssignmentProposal => {
+  const openRoles: { roleIndex: number; role: I_TeamRole; filters: I_RoleFilters }[] = [];
+  const skippedRoleIndexes: number[] = [];
+  const unavailableIds = new Set(excludedCandidateIds);
+
+  roles.forEach((role, roleIndex) => {
+    const filters = getRoleFilters(role);
+    const hasScoringKeywords = KEYWORD_CATEGORIES.some(category => getScoringKeywords(filters[category]).length > 0);
+
+    if (!role.locked && hasScoringKeywords) {
+      openRoles.push({ roleIndex, role, filters });
+      return;
+    }
+    if (!role.locked) skippedRoleIndexes.push(roleIndex);
+    // Slots auto-fill leaves alone keep their candidate
+    if (role.candidate) unavailableIds.add(role.candidate.id);
+  });
+
+  const searchIndex = getCandidateSearchIndex(candidates);
+  const pool = candidates.filter(candidate => !unavailableIds.has(candidate.id));
+  const openRoleIndexes = openRoles.map(({ roleIndex }) => roleIndex);
+  const scoredByRole = openRoles.map(({ role, filters }) => {
+    const eligible = pool.filter(createRoleFilterPredicate(candidates, filters));
+    const scored = calculateCandidateScores(
+      eligible,
+      getScoringKeywords(filters.skills),
+      getScoringKeywords(filters.experience),
+      getScoringKeywords(filters.education),
+      getScoringProfile(role.scoringProfileId),
+      searchIndex,
+      filters.location
+    );
+    return new Map(scored.map(candidate => [candidate.id, candidate]));
+  });
+
+  // Only candidates eligible for at least one open role become columns
+  const columnIds = [...new Set(scoredByRole.flatMap(scored => [...scored.keys()]))];
+  // A candidate matching none of a role's keywords is no better than leaving the slot open
+  const scores = scoredByRole.map(scored =>
+    columnIds.map(id => {
+      const score = scored.get(id)?.score ?? 0;
+      return score > 0 ? score : null;
+    })
+  );
+  const assignment = solveAssignment(scores);
+
+  const assignments: I_AssignmentProposal[] = [];
+  const unfilledRoleIndexes: number[] = [];
+  let totalScore = 0;
+  assignment.forEach((column, row) => {
+    const roleIndex = openRoleIndexes[row];
+    if (column < 0) {
+      unfilledRoleIndexes.push(roleIndex);
+      return;
+    }
+    const candidate = scoredByRole[row].get(columnIds[column]) as I_CandidateWithScore;
+    totalScore += candidate.score ?? 0;
+    if (roles[roleIndex].candidate?.id !== candidate.id) {
+      assignments.push({ roleIndex, candidate });
+    }
+  });
+
+  return {
+    assignments,
+    unfilledRoleIndexes,
+    skippedRoleIndexes,
+    totalScore: Math.round(totalScore * 10) / 10,
+  };
+};
@@ -0,0 +1,124 @@
+import type { I_CandidateWithScore, I_Team } from '../types';
+import { convertSalaryRanges, getCandidateAttributes } from './candidateAttributes';
+import { convertWholeAmount, currencyConverter } from './currency';
+import { pinQuerySalaryCurrency } from './filterQuery';
+import type { I_AssignmentProposal } from './teamAssignment';
+
+/**
+ * Salary of the candidate in a role slot against the slot's budget
+ */
+export interface I_RoleBudgetLine {
+  roleIndex: number;
+  budget?: number;
+  salary: number | null; // Null when the slot is empty or the candidate's expectation can't be read
+  difference: number | null; // Budget minus salary: positive is under budget, negative over
+}
+
+/**
+ * Salaries of a team's selected candidates against its total and per-role budgets
+ */
+export interface I_TeamBudgetSummary {
+  totalBudget?: number;
+  committed: number; // Sum of the salary expectations of the selected candidates
+  remaining: number | null; // Total budget minus committed; null without a total budget
+  unknownSalaryCount: number; // Selected candidates whose expectation can't be read, so aren't counted
+  roles: I_RoleBudgetLine[];
+}
+
+/**
+ * Format an annual amount in the reporting currency, e.g. 120000 as "$120,000"
+ */
+export const formatBudgetAmount = (amount: number): string => currencyConverter.format(amount);
+
+/**
+ * Read a budget from a number input; empty or invalid input clears the budget
+ */
+export const parseBudget = (value: string): number | undefined => {
+  const amount = parseFloat(value);
+  return value.trim() === '' || !Number.isFinite(amount) || amount < 0 ? undefined : amount;
+};
+
+/**
+ * Annual salary a candidate expects in the reporting currency, preferring the full-time figure
+ */
+export const getCandidateSalary = (candidate: I_CandidateWithScore | null | undefined): number | null => {
+  return candidate ? getCandidateAttributes(candidate).salaryExpectation : null;
+};
+
+/**
+ * Running total of a team's salaries, with each role's amount over or under its budget
+ */
+export const getTeamBudgetSummary = (team: I_Team | undefined): I_TeamBudgetSummary => {
+  const roles = (team?.roles ?? []).map((role, roleIndex): I_RoleBudgetLine => {
+    const salary = getCandidateSalary(role.candidate);
+    return {
+      roleIndex,
+      budget: role.salaryBudget,
+      salary,
+      difference: role.salaryBudget !== undefined && salary !== null ? role.salaryBudget - salary : null,
+    };
+  });
+
+  const committed = roles.reduce((sum, line) => sum + (line.salary ?? 0), 0);
+  const totalBudget = team?.budget;
+  return {
+    totalBudget,
+    committed,
+    remaining: totalBudget !== undefined ? totalBudget - committed : null,
+    unknownSalaryCount: (team?.roles ?? []).filter((role, index) => role.candidate && roles[index].salary === null).length,
+    roles,
+  };
+};
+
+/**
+ * Reasons putting candidates in role slots would break the team's budgets, e.g. accepting every auto-fill proposal
+ * Candidates replaced in those slots no longer count, and a candidate moved from another slot is only counted once
+ */
+export const getAssignmentBudgetWarnings = (team: I_Team | undefined, assignments: I_AssignmentProposal[]): string[] => {
+  if (!team) return [];
+
+  const assignedIds = new Set(assignments.map(({ candidate }) => candidate.id));
+  const roles = team.roles.map((role, roleIndex) => ({
+    ...role,
+    candidate: assignments.find(assignment => assignment.roleIndex === roleIndex)?.candidate
+      ?? (role.candidate && assignedIds.has(role.candidate.id) ? undefined : role.candidate),
+  }));
+  const summary = getTeamBudgetSummary({ ...team, roles });
+
+  const warnings = assignments.flatMap(({ roleIndex, candidate }) => {
+    const line = summary.roles[roleIndex];
+    if (!line || line.budget === undefined || line.salary === null || line.salary <= line.budget) return [];
+
+    const roleTitle = roles[roleIndex].title || `Role ${roleIndex + 1}`;
+    return [`${candidate.name} expects ${formatBudgetAmount(line.salary)}, ${formatBudgetAmount(line.salary - line.budget)} over the ${roleTitle} budget of ${formatBudgetAmount(line.budget)}.`];
+  });
+  if (summary.totalBudget !== undefined && summary.committed > summary.totalBudget) {
+    warnings.push(`The team's salaries would total ${formatBudgetAmount(summary.committed)}, ${formatBudgetAmount(summary.committed - summary.totalBudget)} over the team budget of ${formatBudgetAmount(summary.totalBudget)}.`);
+  }
+  return warnings;
+};
+
+/**
+ * Reasons putting a candidate in a role slot would break the team's budgets
+ * Nothing is reported for a candidate whose salary expectation can't be read
+ */
+export const getBudgetWarnings = (team: I_Team | undefined, roleIndex: number, candidate: I_CandidateWithScore): string[] => {
+  if (!team?.roles[roleIndex] || getCandidateSalary(candidate) === null) return [];
+  return getAssignmentBudgetWarnings(team, [{ roleIndex, candidate }]);
+};
+
+/**
+ * A team's budgets and salary filters moved from one reporting currency to another
+ * They were entered in the old reporting currency, so they keep their value instead of their number;
+ * query amounts naming no currency are pinned to the old one
+ */
+export const convertTeamCurrency = (team: I_Team, from: string, to: string): I_Team => ({
+  ...team,
+  budget: convertWholeAmount(team.budget, from, to),
+  roles: team.roles.map(role => ({
+    ...role,
+    salaryBudget: convertWholeAmount(role.salaryBudget, from, to),
+    rangeFilters: role.rangeFilters && convertSalaryRanges(role.rangeFilters, from, to),
+    filterQuery: role.filterQuery && pinQuerySalaryCurrency(role.filterQuery, from),
+  })),
+});
@@ -0,0 +1,309 @@
+import type { I_CandidateWithScore, I_Degree, I_ScoreExplanation, I_Team } from '../types';
+import { currencyConverter, formatMoneyText } from './currency';
+import { getCandidateSalary, getTeamBudgetSummary } from './teamBudget';
+
+/**
+ * One filled role slot as it appears in every export format
+ */
+export interface I_TeamExportMember {
+  role: string;
+  name: string;
+  email: string;
+  phone: string;
+  location: string;
+  score: number | null;
+  scoreExplanation: string; // One-line summary; the JSON export also carries the structured breakdown
+  skills: string[];
+  education: string[];
+  experience: string[];
+  salaryExpectation: string; // As the candidate wrote it, e.g. "Full-time: €95,000 (≈ $111,372)"
+  salary: number | null; // In the reporting currency
+}
+
+const EXPLANATION_CATEGORIES = [
+  { key: 'skills', label: 'Skills' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'education', label: 'Education' },
+] as const;
+
+const capitalize = (value: string): string => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatScore = (score: number | null): string => (score !== null ? score.toFixed(1) : 'N/A');
+
+/**
+ * Summarize a score breakdown in one line, e.g.
+ * "Skills 75% (React, TypeScript; missing Go) · Experience 100% (Senior) · Profile: Balanced"
+ */
+export const describeScoreExplanation = (explanation: I_ScoreExplanation | undefined): string => {
+  if (!explanation) return '';
+
+  const parts = EXPLANATION_CATEGORIES
+    .filter(({ key }) => explanation[key].active)
+    .map(({ key, label }) => {
+      const { matchPercentage, matchedKeywords, missedKeywords } = explanation[key];
+      const keywords = [
+        matchedKeywords.join(', '),
+        missedKeywords.length > 0 ? `missing ${missedKeywords.join(', ')}` : '',
+      ].filter(Boolean).join('; ');
+      return `${label} ${Math.round(matchPercentage)}%${keywords ? ` (${keywords})` : ''}`;
+    });
+  if (explanation.preferences) {
+    parts.push(`Preferences +${explanation.preferences.points.toFixed(1)} pts`);
+  }
+  parts.push(`Profile: ${explanation.scoringProfileName}`);
+  return parts.join(' · ');
+};
+
+const describeDegree = (degree: I_Degree): string => {
+  const title = [degree.degree, degree.subject].filter(Boolean).join(', ');
+  return [title || 'Degree', degree.school && `at ${degree.school}`, degree.gpa && `(GPA ${degree.gpa})`]
+    .filter(Boolean)
+    .join(' ');
+};
+
+const describeSalaryExpectation = (candidate: I_CandidateWithScore): string => {
+  return Object.entries(candidate.annual_salary_expectation ?? {})
+    .map(([type, amount]) => `${capitalize(type)}: ${formatMoneyText(amount)}`)
+    .join('; ');
+};
+
+/**
+ * The team's filled role slots, in role order
+ */
+export const getTeamExportMembers = (team: I_Team | undefined): I_TeamExportMember[] => {
+  return (team?.roles ?? []).flatMap((role, roleIndex): I_TeamExportMember[] => {
+    const candidate = role.candidate;
+    if (!candidate) return [];
+
+    return [{
+      role: role.title || `Role ${roleIndex + 1}`,
+      name: candidate.name,
+      email: candidate.email,
+      phone: candidate.phone,
+      location: candidate.location,
+      score: candidate.score ?? candidate.skillScore ?? null,
+      scoreExplanation: describeScoreExplanation(candidate.scoreExplanation),
+      skills: candidate.skills ?? [],
+      education: (candidate.education?.degrees ?? []).map(describeDegree),
+      experience: (candidate.work_experiences ?? []).map(({ roleName, company }) =>
+        [roleName, company].filter(Boolean).join(' at ')
+      ),
+      salaryExpectation: describeSalaryExpectation(candidate),
+      salary: getCandidateSalary(candidate),
+    }];
+  });
+};
+
+/**
+ * Titles of role slots without a candidate
+ */
+const getOpenRoles = (team: I_Team | undefined): string[] => {
+  return (team?.roles ?? [])
+    .map((role, roleIndex) => (role.candidate ? null : role.title || `Role ${roleIndex + 1}`))
+    .filter((title): title is string => title !== null);
+};
+
+// e.g. "Exported 3/14/2026 · 3 of 4 roles filled · Salaries $310,000 of a $330,000 budget"
+const describeExport = (team: I_Team | undefined, memberCount: number, exportedAt: Date): string => {
+  const summary = getTeamBudgetSummary(team);
+  return `Exported ${exportedAt.toLocaleDateString()} · ${memberCount} of ${team?.roles.length ?? 0} roles filled`
+    + ` · Salaries ${currencyConverter.format(summary.committed)}`
+    + (summary.totalBudget !== undefined ? ` of a ${currencyConverter.format(summary.totalBudget)} budget` : '');
+};
+
+/**
+ * File name for an export, e.g. "platform-team.csv"
+ */
+export const getTeamExportFileName = (team: I_Team | undefined, extension: string): string => {
+  const slug = (team?.name ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'team'}.${extension}`;
+};
+
+// Quote fields holding separators, quotes or line breaks; a leading formula character is
+// neutralized so spreadsheets don't run it (phone numbers such as "+1 555 0100" are left alone)
+const escapeCsvField = (value: string): string => {
+  const safe = /^[=@\t\r]|^[+-](?![\d\s().-]*$)/.test(value) ? `'${value}` : value;
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * One row per team member; list values are separated by semicolons
+ */
+export const exportTeamCsv = (team: I_Team | undefined): string => {
+  const header = [
+    'Role', 'Name', 'Email', 'Phone', 'Location', 'Score', 'Score Explanation', 'Skills', 'Education', 'Experience',
+    'Salary Expectation', `Salary (${currencyConverter.getReportingCurrency()})`,
+  ];
+  const rows = getTeamExportMembers(team).map(member => [
+    member.role,
+    member.name,
+    member.email,
+    member.phone,
+    member.location,
+    member.score !== null ? member.score.toFixed(1) : '',
+    member.scoreExplanation,
+    member.skills.join('; '),
+    member.education.join('; '),
+    member.experience.join('; '),
+    member.salaryExpectation,
+    member.salary !== null ? String(Math.round(member.salary)) : '',
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
+
+/**
+ * The team with each member's contact details, structured score breakdown, education and experience
+ */
+export const exportTeamJson = (team: I_Team | undefined, exportedAt: Date = new Date()): string => {
+  const summary = getTeamBudgetSummary(team);
+  const members = (team?.roles ?? []).flatMap((role, roleIndex) => {
+    const candidate = role.candidate;
+    if (!candidate) return [];
+
+    return [{
+      role: role.title || `Role ${roleIndex + 1}`,
+      candidate: {
+        id: candidate.id,
+        name: candidate.name,
+        email: candidate.email,
+        phone: candidate.phone,
+        location: candidate.location,
+      },
+      score: candidate.score ?? candidate.skillScore ?? null,
+      scoreExplanation: candidate.scoreExplanation ?? null,
+      skills: candidate.skills ?? [],
+      education: candidate.education ?? null,
+      workExperiences: candidate.work_experiences ?? [],
+      salaryExpectation: candidate.annual_salary_expectation ?? {},
+      salary: getCandidateSalary(candidate),
+    }];
+  });
+
+  return JSON.stringify({
+    team: team?.name ?? '',
+    exportedAt: exportedAt.toISOString(),
+    reportingCurrency: currencyConverter.getReportingCurrency(),
+    budget: summary.totalBudget ?? null,
+    totalSalaries: summary.committed,
+    members,
+    openRoles: getOpenRoles(team),
+  }, null, 2);
+};
+
+// Keep table cells on one line: pipes would end the cell early
+const escapeMarkdownCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+/**
+ * Summary table of the team followed by a section per member
+ */
+export const exportTeamMarkdown = (team: I_Team | undefined, exportedAt: Date = new Date()): string => {
+  const members = getTeamExportMembers(team);
+  const openRoles = getOpenRoles(team);
+
+  const lines = [
+    `# ${team?.name || 'Team'}`,
+    '',
+    describeExport(team, members.length, exportedAt),
+    '',
+    '| Role | Name | Score | Email | Location | Salary |',
+    '| --- | --- | --- | --- | --- | --- |',
+    ...members.map(member => `| ${[
+      member.role,
+      member.name,
+      formatScore(member.score),
+      member.email,
+      member.location,
+      member.salary !== null ? currencyConverter.format(member.salary) : 'N/A',
+    ].map(escapeMarkdownCell).join(' | ')} |`),
+  ];
+  if (openRoles.length > 0) {
+    lines.push('', `Open roles: ${openRoles.join(', ')}`);
+  }
+
+  members.forEach(member => {
+    lines.push(
+      '',
+      `## ${member.role}: ${member.name}`,
+      '',
+      `- **Contact**: ${[member.email, member.phone, member.location].filter(Boolean).join(' · ')}`,
+      `- **Score**: ${formatScore(member.score)}${member.scoreExplanation ? ` (${member.scoreExplanation})` : ''}`,
+      `- **Skills**: ${member.skills.join(', ') || 'None listed'}`,
+      `- **Education**: ${member.education.join('; ') || 'None listed'}`,
+      `- **Experience**: ${member.experience.join('; ') || 'None listed'}`,
+      `- **Salary expectation**: ${member.salaryExpectation || 'Not specified'}`,
+    );
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; color: #111827; margin: 2rem; font-size: 12px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  h2 { font-size: 15px; margin: 0 0 6px; }
+  .meta { color: #6b7280; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  .member { border: 1px solid #d1d5db; border-radius: 6px; padding: 10px 12px; margin-bottom: 12px; break-inside: avoid; page-break-inside: avoid; }
+  .member dl { display: grid; grid-template-columns: 9rem 1fr; gap: 3px 10px; margin: 0; }
+  .member dt { color: #6b7280; }
+  .member dd { margin: 0; }
+  @page { margin: 1.5cm; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Standalone, print-optimized HTML page of the team that the browser can save as PDF
+ */
+export const exportTeamHtml = (team: I_Team | undefined, exportedAt: Date = new Date()): string => {
+  const members = getTeamExportMembers(team);
+  const openRoles = getOpenRoles(team);
+  const title = escapeHtml(team?.name || 'Team');
+
+  const field = (label: string, value: string) => `<dt>${label}</dt><dd>${escapeHtml(value)}</dd>`;
+  const rows = members.map(member => `<tr>${[
+    member.role,
+    member.name,
+    formatScore(member.score),
+    member.email,
+    member.phone,
+    member.salary !== null ? currencyConverter.format(member.salary) : 'N/A',
+  ].map(value => `<td>${escapeHtml(value)}</td>`).join('')}</tr>`);
+  const sections = members.map(member => `
+    <section class="member">
+      <h2>${escapeHtml(member.role)}: ${escapeHtml(member.name)}</h2>
+      <dl>
+        ${field('Contact', [member.email, member.phone, member.location].filter(Boolean).join(' · '))}
+        ${field('Score', `${formatScore(member.score)}${member.scoreExplanation ? ` (${member.scoreExplanation})` : ''}`)}
+        ${field('Skills', member.skills.join(', ') || 'None listed')}
+        ${field('Education', member.education.join('; ') || 'None listed')}
+        ${field('Experience', member.experience.join('; ') || 'None listed')}
+        ${field('Salary expectation', member.salaryExpectation || 'Not specified')}
+      </dl>
+    </section>`);
+
+  const meta = describeExport(team, members.length, exportedAt)
+    + (openRoles.length > 0 ? ` · Open roles: ${openRoles.join(', ')}` : '');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${title}</h1>
+<div class="meta">${escapeHtml(meta)}</div>
+<table>
+<thead><tr><th>Role</th><th>Name</th><th>Score</th><th>Email</th><th>Phone</th><th>Salary</th></tr></thead>
+<tbody>${rows.join('')}</tbody>
+</table>
+${sections.join('')}
+</body>
+</html>
+`;
+};
@@ -0,0 +1,68 @@
+import type { I_RoleFilters, I_TeamRole } from '../types';
+import { normalizeFilterKeywords } from './keywordMatching';
+import { normalizeRangeFilters } from './candidateAttributes';
+import { normalizeLocationFilters } from './candidateLocation';
+
+/**
+ * Generate unique ID for a team role
+ * Roles are created client-side, so a timestamp plus random suffix is enough
+ */
+export const generateRoleId = (): string => {
+  return `role-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Create an empty role for the given slot index
+ */
+export const createTeamRole = (index: number): I_TeamRole => ({
+  id: generateRoleId(),
+  title: `Role ${index + 1}`,
+  requiredSkills: [],
+  experienceRequirements: [],
+  educationRequirements: [],
+});
+
+/**
+ * Grow or shrink the list of roles to match the team size
+ * Existing roles keep their requirements; new slots get default roles
+ */
+export const resizeTeamRoles = (roles: I_TeamRole[], size: number): I_TeamRole[] => {
+  if (roles.length === size) {
+    return roles;
+  }
+  if (roles.length > size) {
+    return roles.slice(0, size);
+  }
+
+  const newRoles = [...roles];
+  while (newRoles.length < size) {
+    newRoles.push(createTeamRole(newRoles.length));
+  }
+  return newRoles;
+};
+
+/**
+ * Read the keyword, range, location and query filters stored on a role
+ */
+export const getRoleFilters = (role: I_TeamRole | undefined): I_RoleFilters => ({
+  skills: normalizeFilterKeywords(role?.requiredSkills),
+  experience: normalizeFilterKeywords(role?.experienceRequirements),
+  education: normalizeFilterKeywords(role?.educationRequirements),
+  ranges: normalizeRangeFilters(role?.rangeFilters),
+  location: normalizeLocationFilters(role?.locationFilters),
+  query: typeof role?.filterQuery === 'string' ? role.filterQuery : '',
+});
+
+/**
+ * Convert keyword, range, location and query filters into the role fields that store them
+ */
+export const roleFiltersToRequirements = (
+  filters: I_RoleFilters
+): Pick<I_TeamRole, 'requiredSkills' | 'experienceRequirements' | 'educationRequirements' | 'rangeFilters' | 'locationFilters' | 'filterQuery'> => ({
+  requiredSkills: filters.skills,
+  experienceRequirements: filters.experience,
+  educationRequirements: filters.education,
+  rangeFilters: normalizeRangeFilters(filters.ranges),
+  locationFilters: normalizeLocationFilters(filters.location),
+  filterQuery: filters.query?.trim() ?? '',
+});
@@ -0,0 +1,148 @@
+import type { I_CandidateWithScore, I_Team } from '../types';
+import { generateRoleId, resizeTeamRoles } from './teamRoles';
+import { normalizeEmail, normalizeName } from './dedupe';
+
+/**
+ * Generate unique ID for a team
+ */
+const generateTeamId = (): string => {
+  return `team-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
+
+/**
+ * Create a new, empty team (size is chosen later in the setup step)
+ */
+export const createTeam = (name: string): I_Team => {
+  const now = new Date().toISOString();
+  return {
+    id: generateTeamId(),
+    name,
+    size: 0,
+    roles: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Copy a team with fresh team and role IDs
+ * Role requirements, selected candidates and excluded candidates are kept
+ */
+export const duplicateTeam = (team: I_Team, name: string): I_Team => {
+  const copy = createTeam(name);
+  return {
+    ...copy,
+    size: team.size,
+    roles: team.roles.map(role => ({ ...role, id: generateRoleId() })),
+    excludedCandidateIds: team.excludedCandidateIds,
+  };
+};
+
+/**
+ * Change the team size, trimming or adding role slots as needed
+ */
+export const resizeTeam = (team: I_Team, size: number): I_Team => ({
+  ...team,
+  size,
+  roles: resizeTeamRoles(team.roles, size),
+});
+
+/**
+ * Build the shortlist array (indexed by role) from the candidates stored on each role
+ * Trailing empty roles are dropped; gaps are kept as null to preserve role positions
+ */
+export const getTeamShortlist = (team: I_Team | undefined): I_CandidateWithScore[] => {
+  if (!team) {
+    return [];
+  }
+
+  let lastFilledIndex = -1;
+  team.roles.forEach((role, index) => {
+    if (role.candidate) {
+      lastFilledIndex = index;
+    }
+  });
+
+  return team.roles
+    .slice(0, lastFilledIndex + 1)
+    .map(role => role.candidate ?? (null as unknown as I_CandidateWithScore));
+};
+
+/**
+ * Store a shortlist array (indexed by role) back onto the team's roles
+ */
+export const setTeamShortlist = (team: I_Team, shortlist: I_CandidateWithScore[]): I_Team => ({
+  ...team,
+  roles: team.roles.map((role, index) => ({
+    ...role,
+    candidate: shortlist[index] ?? undefined,
+  })),
+});
+
+/**
+ * Build a lookup that finds a stored candidate snapshot's current record in the pool
+ * Matches by ID (including IDs folded into a merged duplicate), then by email,
+ * using the name and submission time to choose between records that share an email
+ */
+export const createCandidateMatcher = (candidates: I_CandidateWithScore[]) => {
+  const byId = new Map<string, I_CandidateWithScore>();
+  const byEmail = new Map<string, I_CandidateWithScore[]>();
+
+  candidates.forEach(candidate => {
+    byId.set(candidate.id, candidate);
+    candidate.mergedIds?.forEach(id => {
+      if (!byId.has(id)) byId.set(id, candidate);
+    });
+    const email = normalizeEmail(candidate.email);
+    byEmail.set(email, [...(byEmail.get(email) ?? []), candidate]);
+  });
+
+  return (snapshot: I_CandidateWithScore): I_CandidateWithScore | undefined => {
+    const idMatch = byId.get(snapshot.id);
+    if (idMatch) return idMatch;
+
+    const emailMatches = byEmail.get(normalizeEmail(snapshot.email)) ?? [];
+    const name = normalizeName(snapshot.name);
+    const nameMatches = emailMatches.filter(candidate => normalizeName(candidate.name) === name);
+
+    return nameMatches.find(candidate => candidate.submitted_at === snapshot.submitted_at)
+      ?? nameMatches[0]
+      ?? (emailMatches.length === 1 ? emailMatches[0] : undefined);
+  };
+};
+
+/**
+ * Replace each role's stored candidate snapshot with its current record from the pool
+ * Scores from when the candidate was selected are kept; candidates no longer in the
+ * pool keep their snapshot. Returns the same team object when nothing changed
+ */
+export const relinkTeamCandidates = (
+  team: I_Team,
+  findCandidate: (snapshot: I_CandidateWithScore) => I_CandidateWithScore | undefined
+): I_Team => {
+  let changed = false;
+
+  const roles = team.roles.map(role => {
+    if (!role.candidate) return role;
+
+    const current = findCandidate(role.candidate);
+    if (!current) return role;
+
+    const relinked: I_CandidateWithScore = {
+      ...current,
+      score: role.candidate.score,
+      skillScore: role.candidate.skillScore,
+      skillMatchPercentage: role.candidate.skillMatchPercentage,
+      experienceMatchPercentage: role.candidate.experienceMatchPercentage,
+      educationMatchPercentage: role.candidate.educationMatchPercentage,
+      educationWeight: role.candidate.educationWeight,
+      scoreExplanation: role.candidate.scoreExplanation,
+    };
+    if (JSON.stringify(relinked) === JSON.stringify(role.candidate)) return role;
+
+    changed = true;
+    return { ...role, candidate: relinked };
+  });
+
+  return changed ? { ...team, roles } : team;
+};
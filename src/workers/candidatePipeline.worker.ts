@@ -0,0 +1,65 @@
+import type { I_CandidateWithScore } from '../types';
+import { runCandidatePipeline, type T_CandidatePipelineMessage, type T_CandidatePipelineResult } from '../utils/candidatePipeline';
+import { getCandidateSearchIndex } from '../utils/candidateSearchIndex';
+import { ScoreCache } from '../utils/scoreCache';
+import { skillTaxonomy } from '../utils/skillTaxonomy';
+import { currencyConverter } from '../utils/currency';
+
+/**
+ * Candidate pipeline worker
+ * Holds its own copy of the pool, its search index and score cache, and filters, scores and sorts off the main thread.
+ * Only the latest run is finished: a newer run or a cancel stops an older one between chunks.
+ */
+const cache = new ScoreCache();
+let candidates: I_CandidateWithScore[] = [];
+let latestRequestId = 0;
+
+const postResult = (result: T_CandidatePipelineResult) => {
+  self.postMessage(result);
+};
+
+self.addEventListener('message', async (event: MessageEvent<T_CandidatePipelineMessage>) => {
+  const message = event.data;
+
+  switch (message.type) {
+    case 'setCandidates':
+      candidates = message.candidates;
+      cache.clear();
+      // Build the search index as soon as the pool arrives rather than on the first search
+      getCandidateSearchIndex(candidates);
+      return;
+
+    case 'setSkillTaxonomy':
+      // The taxonomy version is part of the cache key, so old scores stop being used
+      skillTaxonomy.setEntries(message.entries);
+      return;
+
+    case 'setCurrencySettings':
+      // Salaries are converted again on their next read, so salary filters see the new rates
+      currencyConverter.setSettings(message.settings);
+      return;
+
+    case 'cancel':
+      if (message.requestId === latestRequestId) {
+        latestRequestId = 0;
+      }
+      return;
+
+    case 'run': {
+      const { requestId } = message;
+      latestRequestId = requestId;
+      try {
+        const scored = await runCandidatePipeline(candidates, message.request, {
+          cache,
+          isCancelled: () => latestRequestId !== requestId,
+        });
+        if (scored) {
+          postResult({ type: 'result', requestId, candidates: scored });
+        }
+      } catch (error) {
+        postResult({ type: 'error', requestId, message: error instanceof Error ? error.message : 'Failed to score candidates' });
+      }
+      return;
+    }
+  }
+});